@@ -0,0 +1,102 @@
+import materialsJson from './materials.json' with { type: 'json' };
+import { getPrinterProfile, getPrinters } from './printTime.ts';
+
+// Kept free of Node APIs so SellerView can check jobs against its printers
+
+// ─────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────
+
+export interface Dimensions {
+  x: number;
+  y: number;
+  z: number;
+}
+
+// Which model axis points up; the part may also be turned 90° on the bed
+export type FitOrientation = 'z-up' | 'x-up' | 'y-up';
+
+export interface PrinterFit {
+  printer: string;                  // key in printers.json
+  name: string;
+  orientations: FitOrientation[];   // every orientation that fits the build volume
+  materialSupported: boolean;
+  fits: boolean;                    // fits in some orientation and can print the material
+}
+
+interface MaterialTemps {
+  materials: Record<string, { name: string; printTempC: number | null }>;
+}
+
+const materialsData: MaterialTemps = materialsJson;
+
+// Footprint (bed x, bed y) and height of the model in each orientation
+const ORIENTATIONS: Record<FitOrientation, (d: Dimensions) => [number, number, number]> = {
+  'z-up': d => [d.x, d.y, d.z],
+  'x-up': d => [d.y, d.z, d.x],
+  'y-up': d => [d.x, d.z, d.y],
+};
+
+// ─────────────────────────────────────────────────────────────
+// Main API
+// ─────────────────────────────────────────────────────────────
+
+/**
+ * Check whether a part fits a printer's build volume, and whether the
+ * printer can run the material (listed and within its hotend temperature)
+ */
+export function checkPrinterFit(dimensions: Dimensions, printer: string, material?: string): PrinterFit {
+  const profile = getPrinterProfile(printer);
+  const bed = profile.buildVolumeMm;
+
+  const orientations = (Object.keys(ORIENTATIONS) as FitOrientation[]).filter(orientation => {
+    const [a, b, height] = ORIENTATIONS[orientation](dimensions);
+    const onBed = (a <= bed.x && b <= bed.y) || (a <= bed.y && b <= bed.x);
+    return onBed && height <= bed.z;
+  });
+
+  let materialSupported = true;
+  if (material !== undefined) {
+    const key = findMaterialKey(material);
+    const temp = key ? materialsData.materials[key].printTempC : null;
+    materialSupported = key !== null
+      && profile.materials.includes(key)
+      && temp !== null
+      && temp <= profile.maxHotendTempC;
+  }
+
+  return {
+    printer: printer.toUpperCase().replace(/\s+/g, '_'),
+    name: profile.name,
+    orientations,
+    materialSupported,
+    fits: orientations.length > 0 && materialSupported,
+  };
+}
+
+/**
+ * Check a part against every printer profile
+ */
+export function getPrinterFits(dimensions: Dimensions, material?: string): PrinterFit[] {
+  return getPrinters().map(printer => checkPrinterFit(dimensions, printer, material));
+}
+
+/**
+ * Whether any of the given printers can print the part
+ */
+export function fitsAnyPrinter(dimensions: Dimensions, printers: string[], material?: string): boolean {
+  return printers.some(printer => checkPrinterFit(dimensions, printer, material).fits);
+}
+
+// ─────────────────────────────────────────────────────────────
+// Helpers
+// ─────────────────────────────────────────────────────────────
+
+// Accepts a materials.json key ("CF_PLA") or display name ("Carbon Fiber PLA")
+function findMaterialKey(material: string): string | null {
+  const key = material.toUpperCase().replace(/\s+/g, '_');
+  if (materialsData.materials[key]) return key;
+  const byName = Object.entries(materialsData.materials)
+    .find(([, mat]) => mat.name.toLowerCase() === material.toLowerCase());
+  return byName ? byName[0] : null;
+}
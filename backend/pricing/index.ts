@@ -1,37 +1,149 @@
 import { readFileSync } from 'fs';
-import { fileURLToPath } from 'url';
-import { dirname, join } from 'path';
-import NodeStl from 'node-stl';
+import materialsJson from './materials.json' with { type: 'json' };
+import { analyzeMesh, getBoundingBox, Mesh } from './mesh.ts';
+import { getModelFormat, parseModel, ModelFormat } from './model.ts';
+import { estimateSupport, DEFAULT_OVERHANG_ANGLE } from './supports.ts';
+import { estimatePrintTime, getPrinterProfile, PrintTimeBreakdown, DEFAULT_PRINTER } from './printTime.ts';
+import { estimateShell } from './shell.ts';
+import { repairMesh, RepairReport } from './repair.ts';
+import { getPrinterFits, PrinterFit } from './fit.ts';
+import { checkPrintability, PrintabilityReport } from './printability.ts';
+import {
+  optimizeOrientation,
+  rotateMesh,
+  isIdentityRotation,
+  OrientationGoal,
+  Rotation,
+  DEFAULT_ORIENTATION_GOAL,
+  IDENTITY_ROTATION,
+} from './orientation.ts';
+import { buildQuote, PrintQuote, QuoteOptions, DEFAULT_SHIPPING_COST } from './quote.ts';
+
+export { analyzeMesh, checkManifold, getBoundingBox, ModelLimitError } from './mesh.ts';
+export type { Mesh, MeshAnalysis, ManifoldReport, MeshEdge, BoundingBox, Vec3, ParseLimits } from './mesh.ts';
+export { parseStl } from './stl.ts';
+export { parseObj } from './obj.ts';
+export { parse3mf } from './threemf.ts';
+export { getModelFormat, sniffModelFormat, parseModel, SUPPORTED_FORMATS } from './model.ts';
+export type { ModelFormat } from './model.ts';
+export { estimateSupport, DEFAULT_OVERHANG_ANGLE, DEFAULT_SUPPORT_DENSITY } from './supports.ts';
+export type { SupportOptions, SupportAnalysis } from './supports.ts';
+export { estimatePrintTime, getPrinterProfile, getPrinters, DEFAULT_PRINTER } from './printTime.ts';
+export type { PrinterProfile, PrintTimeOptions, PrintTimeBreakdown, PrintTimeEstimate } from './printTime.ts';
+export { repairMesh, DEFAULT_MAX_HOLE_EDGES } from './repair.ts';
+export type { RepairOptions, RepairReport, RepairResult } from './repair.ts';
+export { estimateShell } from './shell.ts';
+export type { ShellOptions, ShellAnalysis } from './shell.ts';
+export { checkPrinterFit, getPrinterFits, fitsAnyPrinter } from './fit.ts';
+export type { Dimensions, FitOrientation, PrinterFit } from './fit.ts';
+export { checkPrintability, findThinWalls, DEFAULT_NOZZLE_MM, DEFAULT_MIN_ISLAND_AREA_MM2, DEFAULT_MIN_BED_CONTACT_RATIO } from './printability.ts';
+export type {
+  PrintabilityOptions,
+  PrintabilityIssue,
+  PrintabilityWarning,
+  PrintIsland,
+  PrintabilityReport,
+  ThinWallAnalysis,
+} from './printability.ts';
+export { optimizeOrientation, rotateMesh, isIdentityRotation, DEFAULT_ORIENTATION_GOAL, IDENTITY_ROTATION } from './orientation.ts';
+export type { OrientationGoal, OrientationOptions, OrientationCandidate, OrientationResult, Rotation } from './orientation.ts';
+export { writeStl } from './stl.ts';
+export { renderThumbnail, renderThumbnails, DEFAULT_THUMBNAIL_SIZE, THUMBNAIL_VIEWS } from './thumbnail.ts';
+export type { ThumbnailView, ThumbnailOptions } from './thumbnail.ts';
+export { encodePng } from './png.ts';
+export { buildQuote, DEFAULT_SHIPPING_COST, DEFAULT_SELLER_MARGIN, MIN_SELLER_MARGIN } from './quote.ts';
+export type { PrintQuote, QuoteOptions, QuoteInput, QuoteLineItem, QuoteLineItemKey } from './quote.ts';
 
 // ─────────────────────────────────────────────────────────────
 // Types
 // ─────────────────────────────────────────────────────────────
 
+export interface EstimateOrientation {
+  goal: OrientationGoal | 'as-uploaded';
+  label: string;
+  rotation: Rotation;       // row-major 3×3, see rotateMesh
+  rotated: boolean;         // false when the upload was already best
+  uploadedHeightMm: number;
+  uploadedSupportVolumeCm3: number;
+}
+
 export interface PrintEstimate {
-  // Model info
+  // Model info (in the chosen print orientation)
   dimensions: { x: number; y: number; z: number };
   volumeCm3: number;
+  surfaceAreaCm2: number;
+  triangleCount: number;
   weightGrams: number;
-  isWatertight: boolean;
+  isWatertight: boolean;          // after repair
+  repair: RepairReport | null;    // null when repair was skipped
+  
+  // Solid shell vs infilled interior
+  wallCount: number;
+  shellVolumeCm3: number;
+  interiorVolumeCm3: number;
+  orientation: EstimateOrientation;
   
   // Print settings
   material: string;
   color: string;
   infillPercent: number;
+  supportsEnabled: boolean;
+  overhangAngle: number;
+  
+  // Supports (measured even when disabled, so the buyer can compare)
+  supportVolumeCm3: number;
+  supportWeightGrams: number;
+  
+  // Print time on the chosen printer profile
+  printer: string;
+  layerHeightMm: number;
+  printTimeHours: number;   // excludes supports when they are disabled
+  printTime: PrintTimeBreakdown;
+  
+  // Which printer profiles can take the part, and in which orientation
+  printerFits: PrinterFit[];
+  
+  // Thin walls, islands and bed contact that may fail on the printer
+  printability: PrintabilityReport;
   
   // Costs
   materialCost: number;
+  supportCost: number;      // 0 when supports are disabled
   
   // Available options (for dropdowns)
   availableMaterials: string[];
   availableColors: string[];
 }
 
+export interface EstimateOptions {
+  repair?: boolean;         // default true; false for an already repaired mesh
+  supports?: boolean;       // default true
+  overhangAngle?: number;   // degrees from vertical, default 45
+  printer?: string;         // key in printers.json, default GENERIC
+  layerHeightMm?: number;   // overrides the printer profile
+  wallCount?: number;       // overrides the printer profile's perimeters
+  nozzleMm?: number;        // overrides the printer profile for the printability check
+  orientation?: OrientationGoal | 'as-uploaded';  // default 'balanced'
+}
+
+export interface MaterialInfo {
+  key: string;
+  name: string;
+  fullName: string;
+  density: number;
+  pricePerKg: number;
+  properties: Record<string, boolean>;
+}
+
 interface MaterialProfile {
   name: string;
+  fullName: string;
   density: number;
   pricePerKg: number;
   wasteFactor: number;
+  supportFactor: number;
+  printTempC: number | null;  // null for resins
+  properties: Record<string, boolean>;
 }
 
 interface MaterialsData {
@@ -44,11 +156,9 @@ interface MaterialsData {
 // Load materials data
 // ─────────────────────────────────────────────────────────────
 
-const __filename = fileURLToPath(import.meta.url);
-const __dirname = dirname(__filename);
-const materialsData: MaterialsData = JSON.parse(
-  readFileSync(join(__dirname, 'materials.json'), 'utf-8')
-);
+// Imported rather than read from disk so bundlers (the Next.js API
+// routes) resolve it relative to this file, not the build output
+const materialsData: MaterialsData = materialsJson;
 
 const MIN_COST = 0.50; // $0.50 minimum material cost
 
@@ -57,33 +167,85 @@ const MIN_COST = 0.50; // $0.50 minimum material cost
 // ─────────────────────────────────────────────────────────────
 
 /**
- * Analyze an STL file and estimate print cost
+ * Analyze an STL, OBJ or 3MF file and estimate print cost
  * 
  * @example
  * const estimate = getEstimate('./model.stl', 'PLA', 'White', 20);
  * console.log(estimate.materialCost); // $2.34
  */
 export function getEstimate(
-  stlPath: string,
+  modelPath: string,
+  material: string = 'PLA',
+  color: string = 'White',
+  infillPercent: number = 20,
+  options: EstimateOptions = {}
+): PrintEstimate {
+  const format = getModelFormat(modelPath);
+  if (!format) {
+    throw new Error(`Unsupported model file: ${modelPath}`);
+  }
+  return getEstimateFromBuffer(readFileSync(modelPath), material, color, infillPercent, format, options);
+}
+
+/**
+ * Analyze a model from a Buffer (for uploaded files)
+ */
+export function getEstimateFromBuffer(
+  buffer: Buffer,
   material: string = 'PLA',
   color: string = 'White',
-  infillPercent: number = 20
+  infillPercent: number = 20,
+  format: ModelFormat = 'stl',
+  options: EstimateOptions = {}
 ): PrintEstimate {
-  // Analyze mesh
-  const stl = new NodeStl(stlPath);
-  const volumeCm3 = stl.volume;
-  const [x, y, z] = stl.boundingBox as [number, number, number];
+  return getEstimateFromMesh(parseModel(buffer, format), material, color, infillPercent, options);
+}
+
+/**
+ * Estimate print cost for an already-parsed mesh
+ */
+export function getEstimateFromMesh(
+  mesh: Mesh,
+  material: string = 'PLA',
+  color: string = 'White',
+  infillPercent: number = 20,
+  options: EstimateOptions = {}
+): PrintEstimate {
+  const supportsEnabled = options.supports ?? true;
+  const overhangAngle = options.overhangAngle ?? DEFAULT_OVERHANG_ANGLE;
+
+  // Close small holes and fix winding so volume and overhangs are measurable
+  const repaired = options.repair === false ? null : repairMesh(mesh);
+  const source = repaired?.mesh ?? mesh;
+
+  // Price the part the way it should be printed, not as it was exported
+  const orientationGoal = options.orientation ?? DEFAULT_ORIENTATION_GOAL;
+  const oriented = orientationGoal === 'as-uploaded'
+    ? null
+    : optimizeOrientation(source, { goal: orientationGoal, overhangAngle });
+  const rotation = oriented?.best.rotation ?? IDENTITY_ROTATION;
+  const printMesh = isIdentityRotation(rotation) ? source : rotateMesh(source, rotation);
+
+  // Analyze mesh (mm → cm)
+  const analysis = analyzeMesh(printMesh);
+  const volumeCm3 = Math.abs(analysis.signedVolumeMm3) / 1000;
+  const [x, y, z] = analysis.boundingBox.size;
 
   // Get material profile
-  const matKey = material.toUpperCase().replace(/\s+/g, '_');
-  const mat = materialsData.materials[matKey];
-  if (!mat) {
-    throw new Error(`Unknown material: ${material}`);
-  }
+  const mat = getMaterialProfile(material);
 
-  // Calculate effective volume (shell + infill)
-  const shellRatio = 0.15;
-  const effectiveVolume = volumeCm3 * (shellRatio + (1 - shellRatio) * (infillPercent / 100));
+  // Calculate effective volume: solid walls and skins, infill inside them
+  const profile = getPrinterProfile(options.printer ?? DEFAULT_PRINTER);
+  const wallCount = options.wallCount ?? profile.perimeters;
+  const shell = estimateShell(printMesh, volumeCm3 * 1000, {
+    wallCount,
+    lineWidthMm: profile.lineWidthMm,
+    layerHeightMm: options.layerHeightMm ?? profile.layerHeightMm,
+    topBottomLayers: profile.topBottomLayers,
+  });
+  const shellVolumeCm3 = shell.shellVolumeMm3 / 1000;
+  const interiorVolumeCm3 = shell.interiorVolumeMm3 / 1000;
+  const effectiveVolume = shellVolumeCm3 + interiorVolumeCm3 * (infillPercent / 100);
 
   // Calculate weight and cost
   const weightGrams = effectiveVolume * mat.density;
@@ -92,59 +254,115 @@ export function getEstimate(
   const rawCost = weightGrams * pricePerGram * colorMod * mat.wasteFactor;
   const materialCost = round(Math.max(rawCost, MIN_COST));
 
+  // Support material is priced separately: it is mostly thrown away
+  // and slows the print, which supportFactor accounts for
+  const support = estimateSupport(printMesh, { overhangAngle });
+  const supportVolumeCm3 = support.supportVolumeMm3 / 1000;
+  const supportWeightGrams = supportVolumeCm3 * mat.density;
+  const supportCost = supportsEnabled
+    ? round(supportWeightGrams * pricePerGram * colorMod * mat.supportFactor)
+    : 0;
+
+  const printTime = estimatePrintTime(printMesh, {
+    infillPercent,
+    volumeMm3: volumeCm3 * 1000,
+    interiorVolumeMm3: shell.interiorVolumeMm3,
+    supportVolumeMm3: support.supportVolumeMm3,
+    printer: options.printer,
+    layerHeightMm: options.layerHeightMm,
+    wallCount,
+  });
+  const printSeconds = printTime.totalSeconds - (supportsEnabled ? 0 : printTime.breakdown.supportSeconds);
+
+  const dimensions = { x: round(x), y: round(y), z: round(z) };
+
   return {
-    dimensions: { x: round(x), y: round(y), z: round(z) },
+    dimensions,
     volumeCm3: round(volumeCm3),
+    surfaceAreaCm2: round(analysis.surfaceAreaMm2 / 100),
+    triangleCount: analysis.triangleCount,
     weightGrams: round(weightGrams),
-    isWatertight: stl.isWatertight,
+    isWatertight: analysis.manifold.isWatertight,
+    repair: repaired?.report ?? null,
+    wallCount,
+    shellVolumeCm3: round(shellVolumeCm3),
+    interiorVolumeCm3: round(interiorVolumeCm3),
+    orientation: {
+      goal: orientationGoal,
+      label: oriented && !isIdentityRotation(rotation) ? oriented.best.label : 'As uploaded',
+      rotation,
+      rotated: !isIdentityRotation(rotation),
+      uploadedHeightMm: round(oriented?.asUploaded.heightMm ?? getBoundingBox(source).size[2]),
+      uploadedSupportVolumeCm3: round((oriented?.asUploaded.supportVolumeMm3 ?? support.supportVolumeMm3) / 1000),
+    },
     material: mat.name,
     color,
     infillPercent,
+    supportsEnabled,
+    overhangAngle,
+    supportVolumeCm3: round(supportVolumeCm3),
+    supportWeightGrams: round(supportWeightGrams),
+    printer: printTime.printer,
+    layerHeightMm: printTime.layerHeightMm,
+    printTimeHours: round(printSeconds / 3600),
+    printTime: roundBreakdown(printTime.breakdown),
+    printerFits: getPrinterFits(dimensions, material),
+    printability: checkPrintability(printMesh, {
+      nozzleMm: options.nozzleMm ?? profile.nozzleMm,
+      layerHeightMm: printTime.layerHeightMm,
+      supportsEnabled,
+    }),
     materialCost,
+    supportCost,
     availableMaterials: Object.keys(materialsData.materials),
     availableColors: Object.keys(materialsData.colorLookup),
   };
 }
 
 /**
- * Analyze an STL from a Buffer (for uploaded files)
+ * Estimate weight and cost for a model file, with supports on or off
  */
-export function getEstimateFromBuffer(
-  buffer: Buffer,
+export function estimateCost(
+  modelPath: string,
   material: string = 'PLA',
   color: string = 'White',
-  infillPercent: number = 20
+  infillPercent: number = 20,
+  supports: boolean = true
 ): PrintEstimate {
-  const stl = new NodeStl(buffer);
-  const volumeCm3 = stl.volume;
-  const [x, y, z] = stl.boundingBox as [number, number, number];
-
-  const matKey = material.toUpperCase().replace(/\s+/g, '_');
-  const mat = materialsData.materials[matKey];
-  if (!mat) {
-    throw new Error(`Unknown material: ${material}`);
-  }
+  return getEstimate(modelPath, material, color, infillPercent, { supports });
+}
 
-  const shellRatio = 0.15;
-  const effectiveVolume = volumeCm3 * (shellRatio + (1 - shellRatio) * (infillPercent / 100));
-  const weightGrams = effectiveVolume * mat.density;
-  const pricePerGram = mat.pricePerKg / 1000;
-  const colorMod = getColorModifier(color);
-  const rawCost = weightGrams * pricePerGram * colorMod * mat.wasteFactor;
-  const materialCost = round(Math.max(rawCost, MIN_COST));
+/**
+ * Price a model file end to end: estimate, then itemized quote
+ * 
+ * @example
+ * const quote = getFinalPrice('./model.stl', 'PLA', 'White', 20, 8.50);
+ * console.log(quote.total, quote.deposit);
+ */
+export function getFinalPrice(
+  modelPath: string,
+  material: string = 'PLA',
+  color: string = 'White',
+  infillPercent: number = 20,
+  shippingCost: number = DEFAULT_SHIPPING_COST,
+  options: EstimateOptions & QuoteOptions = {}
+): PrintQuote {
+  const estimate = getEstimate(modelPath, material, color, infillPercent, options);
+  return buildQuote(estimate, { ...options, shippingCost });
+}
 
-  return {
-    dimensions: { x: round(x), y: round(y), z: round(z) },
-    volumeCm3: round(volumeCm3),
-    weightGrams: round(weightGrams),
-    isWatertight: stl.isWatertight,
-    material: mat.name,
-    color,
-    infillPercent,
-    materialCost,
-    availableMaterials: Object.keys(materialsData.materials),
-    availableColors: Object.keys(materialsData.colorLookup),
-  };
+/**
+ * Get the material catalog with display details
+ */
+export function getAvailableMaterials(): MaterialInfo[] {
+  return Object.entries(materialsData.materials).map(([key, mat]) => ({
+    key,
+    name: mat.name,
+    fullName: mat.fullName,
+    density: mat.density,
+    pricePerKg: mat.pricePerKg,
+    properties: mat.properties,
+  }));
 }
 
 /**
@@ -165,11 +383,31 @@ export function getColors(): string[] {
 // Helpers
 // ─────────────────────────────────────────────────────────────
 
+function getMaterialProfile(material: string): MaterialProfile {
+  const matKey = material.toUpperCase().replace(/\s+/g, '_');
+  const mat = materialsData.materials[matKey];
+  if (!mat) {
+    throw new Error(`Unknown material: ${material}`);
+  }
+  return mat;
+}
+
 function getColorModifier(color: string): number {
   const category = materialsData.colorLookup[color];
   return materialsData.colorModifiers[category]?.modifier ?? 1.0;
 }
 
+function roundBreakdown(breakdown: PrintTimeBreakdown): PrintTimeBreakdown {
+  return {
+    perimeterSeconds: Math.round(breakdown.perimeterSeconds),
+    skinSeconds: Math.round(breakdown.skinSeconds),
+    infillSeconds: Math.round(breakdown.infillSeconds),
+    supportSeconds: Math.round(breakdown.supportSeconds),
+    travelSeconds: Math.round(breakdown.travelSeconds),
+    layerChangeSeconds: Math.round(breakdown.layerChangeSeconds),
+  };
+}
+
 function round(n: number, d: number = 2): number {
   const f = Math.pow(10, d);
   return Math.round(n * f) / f;
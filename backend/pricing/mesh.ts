@@ -0,0 +1,270 @@
+// ─────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────
+
+export type Vec3 = [number, number, number];
+
+/**
+ * Unindexed triangle soup, 9 floats per triangle (x,y,z × 3), in mm.
+ * Every parser in this module produces this shape so analysis never
+ * depends on where the mesh came from.
+ */
+export interface Mesh {
+  triangles: Float32Array;
+}
+
+export interface BoundingBox {
+  min: Vec3;
+  max: Vec3;
+  size: Vec3;
+}
+
+export interface MeshEdge {
+  a: Vec3;
+  b: Vec3;
+  faceCount: number;
+}
+
+export interface ManifoldReport {
+  isWatertight: boolean;
+  isConsistentlyOriented: boolean;
+  boundaryEdges: MeshEdge[];     // used by one triangle (holes)
+  nonManifoldEdges: MeshEdge[];  // used by 3+ triangles
+  flippedEdges: MeshEdge[];      // shared twice in the same direction
+  degenerateTriangles: number;
+}
+
+export interface MeshAnalysis {
+  triangleCount: number;
+  signedVolumeMm3: number;
+  surfaceAreaMm2: number;
+  boundingBox: BoundingBox;
+  manifold: ManifoldReport;
+}
+
+/**
+ * How far a parser may go before giving up, so a small upload can't
+ * expand into a mesh that exhausts memory. Unset means no limit.
+ */
+export interface ParseLimits {
+  maxTriangles?: number;     // also caps vertices at three per triangle
+  maxUnpackedBytes?: number; // 3MF: all model parts together, decompressed
+}
+
+/**
+ * Thrown as soon as a parser passes one of its ParseLimits
+ */
+export class ModelLimitError extends Error {
+  readonly limit: keyof ParseLimits;
+
+  constructor(limit: keyof ParseLimits, message: string) {
+    super(message);
+    this.name = 'ModelLimitError';
+    this.limit = limit;
+  }
+}
+
+// Vertices closer than this (mm) are treated as the same point
+const WELD_TOLERANCE = 1e-4;
+
+// ─────────────────────────────────────────────────────────────
+// Main API
+// ─────────────────────────────────────────────────────────────
+
+export function triangleCount(mesh: Mesh): number {
+  return mesh.triangles.length / 9;
+}
+
+/**
+ * Called by the parsers as they go, with the triangles or vertices read so far
+ */
+export function checkParseLimit(kind: 'triangles' | 'vertices', count: number, limits: ParseLimits): void {
+  const max = limits.maxTriangles;
+  if (max === undefined) return;
+  if (kind === 'triangles' && count > max) {
+    throw new ModelLimitError('maxTriangles', `The model has more than the limit of ${max.toLocaleString('en-US')} triangles`);
+  }
+  if (kind === 'vertices' && count > max * 3) {
+    throw new ModelLimitError(
+      'maxTriangles',
+      `The model has more than ${(max * 3).toLocaleString('en-US')} vertices, three for each of the ${max.toLocaleString('en-US')} triangles allowed`
+    );
+  }
+}
+
+/**
+ * Measure a mesh and check that it is a closed, consistently wound solid
+ */
+export function analyzeMesh(mesh: Mesh): MeshAnalysis {
+  const t = mesh.triangles;
+  const count = triangleCount(mesh);
+
+  let area = 0;
+
+  for (let i = 0; i < t.length; i += 9) {
+    const [nx, ny, nz] = triangleNormal(t, i);
+    area += Math.sqrt(nx * nx + ny * ny + nz * nz) / 2;
+  }
+
+  return {
+    triangleCount: count,
+    signedVolumeMm3: signedVolume(mesh),
+    surfaceAreaMm2: area,
+    boundingBox: getBoundingBox(mesh),
+    manifold: checkManifold(mesh),
+  };
+}
+
+/**
+ * Sum of signed tetrahedra against the origin (mm³). Negative when the
+ * winding is inside-out.
+ */
+export function signedVolume(mesh: Mesh): number {
+  const t = mesh.triangles;
+  let volume = 0;
+
+  for (let i = 0; i < t.length; i += 9) {
+    const ax = t[i], ay = t[i + 1], az = t[i + 2];
+    const bx = t[i + 3], by = t[i + 4], bz = t[i + 5];
+    const cx = t[i + 6], cy = t[i + 7], cz = t[i + 8];
+
+    // a · (b × c) / 6
+    volume += (ax * (by * cz - bz * cy) - ay * (bx * cz - bz * cx) + az * (bx * cy - by * cx)) / 6;
+  }
+
+  return volume;
+}
+
+export function getBoundingBox(mesh: Mesh): BoundingBox {
+  const t = mesh.triangles;
+  if (t.length === 0) {
+    return { min: [0, 0, 0], max: [0, 0, 0], size: [0, 0, 0] };
+  }
+
+  const min: Vec3 = [Infinity, Infinity, Infinity];
+  const max: Vec3 = [-Infinity, -Infinity, -Infinity];
+
+  for (let i = 0; i < t.length; i += 3) {
+    for (let k = 0; k < 3; k++) {
+      const v = t[i + k];
+      if (v < min[k]) min[k] = v;
+      if (v > max[k]) max[k] = v;
+    }
+  }
+
+  return {
+    min,
+    max,
+    size: [max[0] - min[0], max[1] - min[1], max[2] - min[2]],
+  };
+}
+
+/**
+ * Check every edge of the mesh. A watertight solid has each edge shared
+ * by exactly two triangles, traversed once in each direction.
+ */
+export function checkManifold(mesh: Mesh): ManifoldReport {
+  const { positions, indices } = weldVertices(mesh);
+  const edges = new Map<string, { a: number; b: number; count: number; winding: number }>();
+  let degenerateTriangles = 0;
+
+  for (let i = 0; i < indices.length; i += 3) {
+    const tri = [indices[i], indices[i + 1], indices[i + 2]];
+    if (tri[0] === tri[1] || tri[1] === tri[2] || tri[0] === tri[2]) {
+      degenerateTriangles++;
+      continue;
+    }
+
+    for (let k = 0; k < 3; k++) {
+      const from = tri[k];
+      const to = tri[(k + 1) % 3];
+      const a = Math.min(from, to);
+      const b = Math.max(from, to);
+      const key = `${a}:${b}`;
+      const edge = edges.get(key) ?? { a, b, count: 0, winding: 0 };
+      edge.count++;
+      edge.winding += from < to ? 1 : -1;
+      edges.set(key, edge);
+    }
+  }
+
+  const boundaryEdges: MeshEdge[] = [];
+  const nonManifoldEdges: MeshEdge[] = [];
+  const flippedEdges: MeshEdge[] = [];
+
+  for (const edge of edges.values()) {
+    const entry: MeshEdge = {
+      a: vertexAt(positions, edge.a),
+      b: vertexAt(positions, edge.b),
+      faceCount: edge.count,
+    };
+    if (edge.count === 1) {
+      boundaryEdges.push(entry);
+    } else if (edge.count > 2) {
+      nonManifoldEdges.push(entry);
+    } else if (edge.winding !== 0) {
+      flippedEdges.push(entry);
+    }
+  }
+
+  return {
+    isWatertight: indices.length > 0 && boundaryEdges.length === 0 && nonManifoldEdges.length === 0,
+    isConsistentlyOriented: flippedEdges.length === 0,
+    boundaryEdges,
+    nonManifoldEdges,
+    flippedEdges,
+    degenerateTriangles,
+  };
+}
+
+/**
+ * Merge coincident vertices so triangles can be related by shared edges
+ */
+export function weldVertices(
+  mesh: Mesh,
+  tolerance: number = WELD_TOLERANCE
+): { positions: Float32Array; indices: Uint32Array } {
+  const t = mesh.triangles;
+  const lookup = new Map<string, number>();
+  const positions: number[] = [];
+  const indices = new Uint32Array(t.length / 3);
+
+  for (let i = 0; i < t.length; i += 3) {
+    const key = `${Math.round(t[i] / tolerance)},${Math.round(t[i + 1] / tolerance)},${Math.round(t[i + 2] / tolerance)}`;
+    let index = lookup.get(key);
+    if (index === undefined) {
+      index = positions.length / 3;
+      positions.push(t[i], t[i + 1], t[i + 2]);
+      lookup.set(key, index);
+    }
+    indices[i / 3] = index;
+  }
+
+  return { positions: new Float32Array(positions), indices };
+}
+
+// ─────────────────────────────────────────────────────────────
+// Helpers
+// ─────────────────────────────────────────────────────────────
+
+/**
+ * Unnormalized normal of the triangle starting at float offset `i`;
+ * its length is twice the triangle's area
+ */
+export function triangleNormal(t: Float32Array, i: number): Vec3 {
+  return cross(
+    t[i + 3] - t[i], t[i + 4] - t[i + 1], t[i + 5] - t[i + 2],
+    t[i + 6] - t[i], t[i + 7] - t[i + 1], t[i + 8] - t[i + 2]
+  );
+}
+
+export function cross(
+  ux: number, uy: number, uz: number,
+  vx: number, vy: number, vz: number
+): Vec3 {
+  return [uy * vz - uz * vy, uz * vx - ux * vz, ux * vy - uy * vx];
+}
+
+function vertexAt(positions: Float32Array, index: number): Vec3 {
+  return [positions[index * 3], positions[index * 3 + 1], positions[index * 3 + 2]];
+}
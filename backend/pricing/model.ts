@@ -0,0 +1,71 @@
+import type { Mesh, ParseLimits } from './mesh.ts';
+import { parseStl, isBinaryStl } from './stl.ts';
+import { parseObj } from './obj.ts';
+import { parse3mf } from './threemf.ts';
+
+export type ModelFormat = 'stl' | 'obj' | '3mf';
+
+export const SUPPORTED_FORMATS: ModelFormat[] = ['stl', 'obj', '3mf'];
+
+/**
+ * Map a file name to the model format its extension declares
+ */
+export function getModelFormat(fileName: string): ModelFormat | null {
+  const ext = fileName.toLowerCase().split('.').pop() ?? '';
+  return (SUPPORTED_FORMATS as string[]).includes(ext) ? (ext as ModelFormat) : null;
+}
+
+/**
+ * Tell the format from the bytes, whatever the file is called
+ *
+ * 3MF is a ZIP package. Binary STL is recognised by its declared triangle
+ * count fitting the file size, ASCII STL by its "solid" and "facet"
+ * keywords, and OBJ by vertex records in text. Returns null for anything
+ * else.
+ */
+export function sniffModelFormat(bytes: Uint8Array): ModelFormat | null {
+  // ZIP local file header "PK\x03\x04"
+  if (bytes.length >= 4 && bytes[0] === 0x50 && bytes[1] === 0x4b && bytes[2] === 0x03 && bytes[3] === 0x04) {
+    return '3mf';
+  }
+
+  // A count that matches the size exactly settles it, even when the
+  // free-text header starts with "solid"
+  const count = bytes.length >= 84
+    ? new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength).getUint32(80, true)
+    : 0;
+  if (count > 0 && bytes.length === 84 + count * 50) {
+    return 'stl';
+  }
+
+  const head = bytes.subarray(0, 8192);
+  if (!head.includes(0)) {
+    const text = new TextDecoder('utf-8').decode(head).replace(/^\uFEFF/, '');
+    if (/^\s*solid\b/i.test(text) && /\b(facet|endsolid)\b/i.test(text)) return 'stl';
+    if (/^\s*v\s+\S+\s+\S+\s+\S+/m.test(text)) return 'obj';
+  }
+
+  // Binary STL with trailing bytes, as the parser accepts
+  if (count > 0 && 84 + count * 50 <= bytes.length && isBinaryStl(bytes)) {
+    return 'stl';
+  }
+  return null;
+}
+
+/**
+ * Parse any supported model file into a triangle soup in mm
+ *
+ * Throws ModelLimitError as soon as the file passes one of the limits.
+ */
+export function parseModel(buffer: Buffer, format: ModelFormat, limits: ParseLimits = {}): Mesh {
+  switch (format) {
+    case 'stl':
+      return parseStl(buffer, limits);
+    case 'obj':
+      return parseObj(buffer, limits);
+    case '3mf':
+      return parse3mf(buffer, limits);
+    default:
+      throw new Error(`Unsupported model format: ${format}`);
+  }
+}
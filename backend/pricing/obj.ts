@@ -0,0 +1,57 @@
+import { Mesh, checkParseLimit, type ParseLimits } from './mesh.ts';
+
+/**
+ * Parse a Wavefront OBJ file into a triangle soup
+ *
+ * Only geometry is read: `v` records and `f` faces (any of the
+ * `v`, `v/vt`, `v//vn`, `v/vt/vn` forms, negative indices allowed).
+ * Polygons are fan-triangulated. OBJ has no unit, so values are taken as mm.
+ */
+export function parseObj(buffer: Uint8Array, limits: ParseLimits = {}): Mesh {
+  const lines = new TextDecoder('utf-8').decode(buffer).split(/\r?\n/);
+  const vertices: number[] = [];
+  const faces: number[][] = [];
+  let triangleTotal = 0;
+
+  for (let lineNo = 0; lineNo < lines.length; lineNo++) {
+    const line = lines[lineNo].trim();
+    if (line.startsWith('v ')) {
+      const [x, y, z] = line.slice(2).trim().split(/\s+/).map(Number);
+      if (!Number.isFinite(x) || !Number.isFinite(y) || !Number.isFinite(z)) {
+        throw new Error(`Invalid vertex on OBJ line ${lineNo + 1}`);
+      }
+      vertices.push(x, y, z);
+      checkParseLimit('vertices', vertices.length / 3, limits);
+    } else if (line.startsWith('f ')) {
+      // Negative indices are relative to the vertices read so far
+      const corners = line.slice(2).trim().split(/\s+/).map(token => {
+        const index = parseInt(token.split('/')[0], 10);
+        if (!Number.isInteger(index) || index === 0) {
+          throw new Error(`Invalid face index "${token}" on OBJ line ${lineNo + 1}`);
+        }
+        return index < 0 ? vertices.length / 3 + index : index - 1;
+      });
+      triangleTotal += Math.max(0, corners.length - 2);
+      checkParseLimit('triangles', triangleTotal, limits);
+      faces.push(corners);
+    }
+  }
+
+  const vertexCount = vertices.length / 3;
+  const values: number[] = [];
+
+  for (const corners of faces) {
+    for (const corner of corners) {
+      if (corner < 0 || corner >= vertexCount) {
+        throw new Error(`OBJ face references missing vertex ${corner + 1}`);
+      }
+    }
+    for (let k = 1; k < corners.length - 1; k++) {
+      for (const corner of [corners[0], corners[k], corners[k + 1]]) {
+        values.push(vertices[corner * 3], vertices[corner * 3 + 1], vertices[corner * 3 + 2]);
+      }
+    }
+  }
+
+  return { triangles: new Float32Array(values) };
+}
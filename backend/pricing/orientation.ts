@@ -0,0 +1,217 @@
+import { Mesh, Vec3, getBoundingBox, signedVolume, triangleNormal } from './mesh.ts';
+import { estimateSupport } from './supports.ts';
+
+// ─────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────
+
+// What the optimizer minimizes
+export type OrientationGoal = 'supports' | 'height' | 'balanced';
+
+export interface OrientationOptions {
+  goal?: OrientationGoal;     // default 'balanced'
+  overhangAngle?: number;     // passed to estimateSupport
+}
+
+// Row-major 3×3 rotation applied to every vertex before placing on the bed
+export type Rotation = [number, number, number, number, number, number, number, number, number];
+
+export interface OrientationCandidate {
+  label: string;
+  down: Vec3;                 // model direction that ends up facing the bed
+  rotation: Rotation;
+  supportVolumeMm3: number;
+  heightMm: number;
+  score: number;              // lower is better
+}
+
+export interface OrientationResult {
+  goal: OrientationGoal;
+  best: OrientationCandidate;
+  asUploaded: OrientationCandidate;
+  candidatesEvaluated: number;
+}
+
+export const DEFAULT_ORIENTATION_GOAL: OrientationGoal = 'balanced';
+
+export const IDENTITY_ROTATION: Rotation = [1, 0, 0, 0, 1, 0, 0, 0, 1];
+
+// Balanced goal: support material matters more than a tall print
+const SUPPORT_WEIGHT = 0.7;
+const HEIGHT_WEIGHT = 0.3;
+
+// Besides the six axis directions, lay each of the largest flat faces down
+const MAX_FACE_CANDIDATES = 4;
+// Normals within ~2.5° are treated as the same flat face
+const SAME_DIRECTION = 0.999;
+// A candidate must beat the current best by this much to replace it,
+// so near ties keep the orientation the designer chose
+const SCORE_EPSILON = 1e-6;
+
+const AXIS_CANDIDATES: { label: string; down: Vec3 }[] = [
+  { label: 'As uploaded', down: [0, 0, -1] },
+  { label: 'Upside down', down: [0, 0, 1] },
+  { label: '+X face down', down: [1, 0, 0] },
+  { label: '−X face down', down: [-1, 0, 0] },
+  { label: '+Y face down', down: [0, 1, 0] },
+  { label: '−Y face down', down: [0, -1, 0] },
+];
+
+// ─────────────────────────────────────────────────────────────
+// Main API
+// ─────────────────────────────────────────────────────────────
+
+/**
+ * Pick the rotation that prints best for a goal
+ *
+ * Candidates are each axis direction and the largest flat faces placed on
+ * the bed. Every candidate is rotated and measured for support volume and
+ * height; 'supports' and 'height' minimize one (the other breaks ties) and
+ * 'balanced' weighs both, each relative to the worst candidate.
+ */
+export function optimizeOrientation(mesh: Mesh, options: OrientationOptions = {}): OrientationResult {
+  const goal = options.goal ?? DEFAULT_ORIENTATION_GOAL;
+
+  const directions = [...AXIS_CANDIDATES];
+  for (const down of largestFlatFaces(mesh)) {
+    if (directions.some(d => dot(d.down, down) > SAME_DIRECTION)) continue;
+    directions.push({ label: `Flat face down (${down.map(n => n.toFixed(2)).join(', ')})`, down });
+  }
+
+  const measured = directions.map(({ label, down }) => {
+    const rotation = rotationToBed(down);
+    const rotated = rotateMesh(mesh, rotation);
+    return {
+      label,
+      down,
+      rotation,
+      supportVolumeMm3: estimateSupport(rotated, { overhangAngle: options.overhangAngle }).supportVolumeMm3,
+      heightMm: getBoundingBox(rotated).size[2],
+    };
+  });
+
+  const maxSupport = Math.max(...measured.map(c => c.supportVolumeMm3));
+  const maxHeight = Math.max(...measured.map(c => c.heightMm));
+  const support = (c: typeof measured[number]) => (maxSupport > 0 ? c.supportVolumeMm3 / maxSupport : 0);
+  const height = (c: typeof measured[number]) => (maxHeight > 0 ? c.heightMm / maxHeight : 0);
+
+  const candidates: OrientationCandidate[] = measured.map(c => ({
+    ...c,
+    score:
+      goal === 'supports' ? support(c)
+      : goal === 'height' ? height(c)
+      : SUPPORT_WEIGHT * support(c) + HEIGHT_WEIGHT * height(c),
+  }));
+
+  // On a tie, the metric the goal ignores decides
+  const tieBreak = (c: OrientationCandidate) =>
+    goal === 'supports' ? height(c) : goal === 'height' ? support(c) : 0;
+
+  let best = candidates[0];
+  for (const candidate of candidates) {
+    const diff = candidate.score - best.score;
+    if (diff < -SCORE_EPSILON || (Math.abs(diff) <= SCORE_EPSILON && tieBreak(candidate) < tieBreak(best) - SCORE_EPSILON)) {
+      best = candidate;
+    }
+  }
+
+  return { goal, best, asUploaded: candidates[0], candidatesEvaluated: candidates.length };
+}
+
+/**
+ * Rotate a mesh and set it on the bed (lowest point at z = 0)
+ */
+export function rotateMesh(mesh: Mesh, rotation: Rotation): Mesh {
+  const t = mesh.triangles;
+  const out = new Float32Array(t.length);
+  const [a, b, c, d, e, f, g, h, k] = rotation;
+
+  let minZ = Infinity;
+  for (let i = 0; i < t.length; i += 3) {
+    const x = t[i], y = t[i + 1], z = t[i + 2];
+    out[i] = a * x + b * y + c * z;
+    out[i + 1] = d * x + e * y + f * z;
+    out[i + 2] = g * x + h * y + k * z;
+    if (out[i + 2] < minZ) minZ = out[i + 2];
+  }
+  if (Number.isFinite(minZ)) {
+    for (let i = 2; i < out.length; i += 3) out[i] -= minZ;
+  }
+
+  return { triangles: out };
+}
+
+export function isIdentityRotation(rotation: Rotation): boolean {
+  return rotation.every((v, i) => Math.abs(v - IDENTITY_ROTATION[i]) < 1e-9);
+}
+
+// ─────────────────────────────────────────────────────────────
+// Helpers
+// ─────────────────────────────────────────────────────────────
+
+/**
+ * Outward unit normals of the largest coplanar-ish groups of triangles
+ */
+function largestFlatFaces(mesh: Mesh): Vec3[] {
+  const t = mesh.triangles;
+  const orientation = signedVolume(mesh) < 0 ? -1 : 1;
+  const groups = new Map<string, { normal: Vec3; area: number }>();
+
+  for (let i = 0; i < t.length; i += 9) {
+    const [nx, ny, nz] = triangleNormal(t, i);
+    const length = Math.sqrt(nx * nx + ny * ny + nz * nz);
+    if (length === 0) continue;
+
+    const normal: Vec3 = [
+      (nx * orientation) / length,
+      (ny * orientation) / length,
+      (nz * orientation) / length,
+    ];
+    const key = normal.map(n => Math.round(n * 50)).join(',');
+    const group = groups.get(key);
+    if (group) {
+      group.area += length / 2;
+    } else {
+      groups.set(key, { normal, area: length / 2 });
+    }
+  }
+
+  return [...groups.values()]
+    .sort((a, b) => b.area - a.area)
+    .slice(0, MAX_FACE_CANDIDATES)
+    .map(g => g.normal);
+}
+
+/**
+ * Rotation that turns the unit vector `down` to face the bed (−Z)
+ */
+function rotationToBed(down: Vec3): Rotation {
+  const target: Vec3 = [0, 0, -1];
+  const c = dot(down, target);
+  if (c > 1 - 1e-9) return [...IDENTITY_ROTATION];
+  // Opposite directions: half turn about X
+  if (c < -1 + 1e-9) return [1, 0, 0, 0, -1, 0, 0, 0, -1];
+
+  // Rodrigues' formula about axis = down × target
+  const [x, y, z] = normalize([
+    down[1] * target[2] - down[2] * target[1],
+    down[2] * target[0] - down[0] * target[2],
+    down[0] * target[1] - down[1] * target[0],
+  ]);
+  const s = Math.sqrt(1 - c * c);
+  const v = 1 - c;
+  return [
+    c + x * x * v, x * y * v - z * s, x * z * v + y * s,
+    y * x * v + z * s, c + y * y * v, y * z * v - x * s,
+    z * x * v - y * s, z * y * v + x * s, c + z * z * v,
+  ];
+}
+
+function dot(a: Vec3, b: Vec3): number {
+  return a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+}
+
+function normalize(v: Vec3): Vec3 {
+  const length = Math.sqrt(dot(v, v));
+  return [v[0] / length, v[1] / length, v[2] / length];
+}
@@ -0,0 +1,176 @@
+import printersJson from './printers.json' with { type: 'json' };
+import { Mesh, getBoundingBox, triangleNormal } from './mesh.ts';
+
+// ─────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────
+
+export interface PrinterProfile {
+  name: string;
+  buildVolumeMm: { x: number; y: number; z: number };
+  nozzleMm: number;
+  maxHotendTempC: number;
+  materials: string[];        // keys in materials.json
+  layerHeightMm: number;
+  lineWidthMm: number;
+  perimeters: number;
+  topBottomLayers: number;
+  perimeterSpeed: number;     // mm/s
+  infillSpeed: number;        // mm/s, also used for skins and supports
+  travelSpeed: number;        // mm/s
+  acceleration: number;       // mm/s²
+  layerChangeSeconds: number; // z hop, retraction, cooling pause
+}
+
+export interface PrintTimeOptions {
+  infillPercent: number;
+  volumeMm3: number;
+  interiorVolumeMm3?: number; // from estimateShell; otherwise derived here
+  supportVolumeMm3?: number;
+  printer?: string;
+  layerHeightMm?: number;     // overrides the profile
+  wallCount?: number;         // overrides the profile's perimeters
+}
+
+export interface PrintTimeBreakdown {
+  perimeterSeconds: number;
+  skinSeconds: number;
+  infillSeconds: number;
+  supportSeconds: number;
+  travelSeconds: number;
+  layerChangeSeconds: number;
+}
+
+export interface PrintTimeEstimate {
+  printer: string;
+  layerHeightMm: number;
+  layerCount: number;
+  breakdown: PrintTimeBreakdown;
+  totalSeconds: number;
+}
+
+interface PrintersData {
+  printers: Record<string, PrinterProfile>;
+}
+
+const printersData: PrintersData = printersJson;
+
+export const DEFAULT_PRINTER = 'GENERIC';
+
+// Firmware blends the tiny segments of curved walls instead of stopping
+// at each one, so moves shorter than this are merged with their neighbours
+const MIN_MOVE_MM = 5;
+
+// ─────────────────────────────────────────────────────────────
+// Main API
+// ─────────────────────────────────────────────────────────────
+
+/**
+ * Estimate how long a mesh takes to print on a given printer
+ *
+ * Everything is derived from the mesh rather than sliced: the walls
+ * crossed by each layer give perimeter length, up- and down-facing area
+ * gives top/bottom skins, and what is left of the volume is infill.
+ * Every move pays for accelerating to speed and back, so short,
+ * jagged walls print slower than their length alone suggests.
+ */
+export function estimatePrintTime(mesh: Mesh, options: PrintTimeOptions): PrintTimeEstimate {
+  const profile = getPrinterProfile(options.printer ?? DEFAULT_PRINTER);
+  const h = options.layerHeightMm ?? profile.layerHeightMm;
+  if (!(h > 0)) {
+    throw new Error(`Layer height must be positive: ${h}`);
+  }
+  const w = profile.lineWidthMm;
+  const perimeters = options.wallCount ?? profile.perimeters;
+
+  const t = mesh.triangles;
+  let wallArea = 0;       // projected onto the vertical
+  let skinArea = 0;       // projected onto the bed, tops and bottoms
+  let wallSegments = 0;   // contour segments summed over all layers
+
+  for (let i = 0; i < t.length; i += 9) {
+    const [nx, ny, nz] = triangleNormal(t, i);
+    const length = Math.sqrt(nx * nx + ny * ny + nz * nz);
+    if (length === 0) continue;
+
+    const area = length / 2;
+    const slope = Math.abs(nz) / length;
+    wallArea += area * Math.sqrt(1 - slope * slope);
+    skinArea += area * slope;
+
+    const zSpan = Math.max(t[i + 2], t[i + 5], t[i + 8]) - Math.min(t[i + 2], t[i + 5], t[i + 8]);
+    wallSegments += zSpan / h;
+  }
+
+  const [sx, sy, sz] = getBoundingBox(mesh).size;
+  const layerCount = Math.max(1, Math.ceil(sz / h));
+  // Typical length of a straight infill or skin line across the part
+  const lineLength = Math.max(w, (sx + sy) / 4);
+
+  const perimeterLength = perimeters * (wallArea / h);
+  const skinLength = (skinArea * profile.topBottomLayers) / w;
+
+  // Whatever the walls and skins don't fill is infill
+  const shellVolume = perimeterLength * w * h + skinLength * w * h;
+  const interiorVolume = options.interiorVolumeMm3 ?? Math.max(0, options.volumeMm3 - shellVolume);
+  const infillLength = (interiorVolume * (options.infillPercent / 100)) / (w * h);
+  const supportLength = (options.supportVolumeMm3 ?? 0) / (w * h);
+
+  // A hop to each perimeter loop, the skin/infill and back, every layer
+  const travelMoves = layerCount * (perimeters + 2);
+  const travelLength = travelMoves * ((sx + sy) / 2);
+
+  const breakdown: PrintTimeBreakdown = {
+    perimeterSeconds: moveTime(perimeterLength, perimeters * wallSegments, profile.perimeterSpeed, profile.acceleration),
+    skinSeconds: moveTime(skinLength, skinLength / lineLength, profile.infillSpeed, profile.acceleration),
+    infillSeconds: moveTime(infillLength, infillLength / lineLength, profile.infillSpeed, profile.acceleration),
+    supportSeconds: moveTime(supportLength, supportLength / lineLength, profile.infillSpeed, profile.acceleration),
+    travelSeconds: moveTime(travelLength, travelMoves, profile.travelSpeed, profile.acceleration),
+    layerChangeSeconds: layerCount * profile.layerChangeSeconds,
+  };
+
+  return {
+    printer: profile.name,
+    layerHeightMm: h,
+    layerCount,
+    breakdown,
+    totalSeconds: Object.values(breakdown).reduce((sum, s) => sum + s, 0),
+  };
+}
+
+export function getPrinterProfile(printer: string): PrinterProfile {
+  const key = printer.toUpperCase().replace(/\s+/g, '_');
+  const profile = printersData.printers[key];
+  if (!profile) {
+    throw new Error(`Unknown printer: ${printer}`);
+  }
+  return profile;
+}
+
+/**
+ * Get list of available printer profiles
+ */
+export function getPrinters(): string[] {
+  return Object.keys(printersData.printers);
+}
+
+// ─────────────────────────────────────────────────────────────
+// Helpers
+// ─────────────────────────────────────────────────────────────
+
+/**
+ * Time to cover `length` mm split into `moves` equal straight moves, each
+ * accelerating from rest to `speed` and back (trapezoidal profile, or
+ * triangular when a move is too short to reach full speed)
+ */
+function moveTime(length: number, moves: number, speed: number, acceleration: number): number {
+  if (length <= 0) return 0;
+  const count = Math.max(1, Math.min(moves, length / MIN_MOVE_MM));
+  const move = length / count;
+  const rampDistance = (speed * speed) / acceleration;
+
+  const perMove = move >= rampDistance
+    ? move / speed + speed / acceleration
+    : 2 * Math.sqrt(move / acceleration);
+  return perMove * count;
+}
@@ -0,0 +1,381 @@
+import { Mesh, Vec3, getBoundingBox, signedVolume, triangleNormal, weldVertices } from './mesh.ts';
+
+// ─────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────
+
+export interface PrintabilityOptions {
+  nozzleMm?: number;            // walls thinner than this can't be extruded, default 0.4
+  layerHeightMm?: number;       // depth of the first layer of an island or on the bed, default 0.2
+  supportsEnabled?: boolean;    // default true; without supports every island prints in midair
+  minIslandAreaMm2?: number;    // smaller islands won't hold on supports
+  minBedContactRatio?: number;  // of the footprint (bounding box on the bed)
+}
+
+export type PrintabilityIssue = 'thin-walls' | 'islands' | 'bed-contact';
+
+export interface PrintabilityWarning {
+  issue: PrintabilityIssue;
+  message: string;
+}
+
+export interface PrintIsland {
+  z: number;                    // mm above the bed where the island starts
+  areaMm2: number;              // area of its first layer
+}
+
+export interface PrintabilityReport {
+  nozzleMm: number;
+  thinWallAreaMm2: number;      // surface backed by less than one nozzle width of material
+  thinnestWallMm: number | null;  // null when no wall is thinner than the nozzle
+  islands: PrintIsland[];
+  bedContactAreaMm2: number;
+  footprintAreaMm2: number;
+  warnings: PrintabilityWarning[];
+}
+
+export interface ThinWallAnalysis {
+  faces: number[];              // triangle indices
+  areaMm2: number;
+  thinnestMm: number | null;
+}
+
+export const DEFAULT_NOZZLE_MM = 0.4;
+export const DEFAULT_MIN_ISLAND_AREA_MM2 = 2;
+export const DEFAULT_MIN_BED_CONTACT_RATIO = 0.05;
+
+const DEFAULT_LAYER_HEIGHT_MM = 0.2;
+
+// A few stray triangles at sharp edges are not worth a warning
+const MIN_THIN_WALL_AREA_MM2 = 1;
+// Closer than this (mm) is the starting triangle or its neighbour, not a wall
+const MIN_WALL_MM = 1e-3;
+// The far side of a wall faces within 45° of opposite; steeper hits are the
+// other face of a chamfer or sharp edge
+const OPPOSITE_FACE = Math.cos(Math.PI / 4);
+// Vertices within this height (mm) of each other count as level
+const LEVEL_TOLERANCE = 1e-4;
+
+// ─────────────────────────────────────────────────────────────
+// Main API
+// ─────────────────────────────────────────────────────────────
+
+/**
+ * Find what will go wrong on the printer, in the mesh's current orientation
+ *
+ * - Thin walls: a ray from each triangle straight into the part leaves it
+ *   again within one nozzle width.
+ * - Islands: a downward-facing lowest point above the bed starts printing in
+ *   midair. Without supports every island is a problem; with them, only
+ *   islands whose first layer is too small to hold.
+ * - Bed contact: the area within one layer of the bed, against the footprint.
+ */
+export function checkPrintability(mesh: Mesh, options: PrintabilityOptions = {}): PrintabilityReport {
+  const nozzleMm = options.nozzleMm ?? DEFAULT_NOZZLE_MM;
+  const layerHeightMm = options.layerHeightMm ?? DEFAULT_LAYER_HEIGHT_MM;
+  const supportsEnabled = options.supportsEnabled ?? true;
+  const minIslandAreaMm2 = options.minIslandAreaMm2 ?? DEFAULT_MIN_ISLAND_AREA_MM2;
+  const minBedContactRatio = options.minBedContactRatio ?? DEFAULT_MIN_BED_CONTACT_RATIO;
+  if (!(nozzleMm > 0 && layerHeightMm > 0)) {
+    throw new Error(`Nozzle width and layer height must be positive: ${nozzleMm}, ${layerHeightMm}`);
+  }
+
+  const box = getBoundingBox(mesh);
+  const bedZ = box.min[2];
+  // Inside-out meshes have every normal reversed
+  const orientation = signedVolume(mesh) < 0 ? -1 : 1;
+
+  const { areaMm2: thinWallAreaMm2, thinnestMm: thinnestWallMm } = findThinWalls(mesh, nozzleMm);
+  const islands = findIslands(mesh, bedZ, layerHeightMm, orientation);
+  const bedContactAreaMm2 = bedContactArea(mesh, bedZ + layerHeightMm, orientation);
+  const footprintAreaMm2 = box.size[0] * box.size[1];
+
+  const warnings: PrintabilityWarning[] = [];
+  if (thinWallAreaMm2 >= MIN_THIN_WALL_AREA_MM2 && thinnestWallMm !== null) {
+    warnings.push({
+      issue: 'thin-walls',
+      message: `${round(thinWallAreaMm2)} mm² of walls are thinner than the ${nozzleMm} mm nozzle `
+        + `(thinnest ${round(thinnestWallMm)} mm) and may not print`,
+    });
+  }
+
+  const problemIslands = supportsEnabled
+    ? islands.filter(island => island.areaMm2 < minIslandAreaMm2)
+    : islands;
+  if (problemIslands.length > 0) {
+    warnings.push({
+      issue: 'islands',
+      message: supportsEnabled
+        ? `${plural(problemIslands.length, 'island')} smaller than ${minIslandAreaMm2} mm² `
+          + 'may not hold on supports'
+        : `${plural(problemIslands.length, 'island')} start in midair; enable supports`,
+    });
+  }
+
+  if (footprintAreaMm2 > 0 && bedContactAreaMm2 < footprintAreaMm2 * minBedContactRatio) {
+    warnings.push({
+      issue: 'bed-contact',
+      message: `Only ${round(bedContactAreaMm2)} mm² touches the bed `
+        + `(${round((bedContactAreaMm2 / footprintAreaMm2) * 100)}% of the footprint); `
+        + 'it may come loose without a brim or raft',
+    });
+  }
+
+  return {
+    nozzleMm,
+    thinWallAreaMm2: round(thinWallAreaMm2),
+    thinnestWallMm: thinnestWallMm === null ? null : round(thinnestWallMm),
+    islands: islands.map(island => ({ z: round(island.z), areaMm2: round(island.areaMm2) })),
+    bedContactAreaMm2: round(bedContactAreaMm2),
+    footprintAreaMm2: round(footprintAreaMm2),
+    warnings,
+  };
+}
+
+/**
+ * Triangles backed by less than one nozzle width of material
+ *
+ * A ray from each triangle's centroid along its inward normal looks for
+ * the far side of the wall. The model viewer uses the face list to
+ * highlight them.
+ */
+export function findThinWalls(mesh: Mesh, nozzleMm: number = DEFAULT_NOZZLE_MM): ThinWallAnalysis {
+  const t = mesh.triangles;
+  // Inside-out meshes have every normal reversed
+  const orientation = signedVolume(mesh) < 0 ? -1 : 1;
+  const nearest = buildWallLookup(t, nozzleMm);
+  const faces: number[] = [];
+  let areaMm2 = 0;
+  let thinnestMm: number | null = null;
+
+  for (let i = 0; i < t.length; i += 9) {
+    const [nx, ny, nz] = triangleNormal(t, i);
+    const length = Math.sqrt(nx * nx + ny * ny + nz * nz);
+    if (length === 0) continue;
+
+    const inward: Vec3 = [
+      (-nx * orientation) / length,
+      (-ny * orientation) / length,
+      (-nz * orientation) / length,
+    ];
+    const centroid: Vec3 = [
+      (t[i] + t[i + 3] + t[i + 6]) / 3,
+      (t[i + 1] + t[i + 4] + t[i + 7]) / 3,
+      (t[i + 2] + t[i + 5] + t[i + 8]) / 3,
+    ];
+
+    const thickness = nearest(centroid, inward, i, orientation);
+    if (thickness === null) continue;
+    faces.push(i / 9);
+    areaMm2 += length / 2;
+    if (thinnestMm === null || thickness < thinnestMm) thinnestMm = thickness;
+  }
+
+  return { faces, areaMm2, thinnestMm };
+}
+
+// ─────────────────────────────────────────────────────────────
+// Helpers
+// ─────────────────────────────────────────────────────────────
+
+/**
+ * Bucket triangles into cubes so a ray one nozzle long only meets the
+ * triangles in the few cells around it. The returned lookup gives the
+ * distance to the nearest triangle facing back along the ray, or null if
+ * there is none within `maxDistance`.
+ */
+function buildWallLookup(
+  t: Float32Array,
+  maxDistance: number
+): (origin: Vec3, direction: Vec3, skip: number, orientation: number) => number | null {
+  // Cells twice the size of an average triangle, but no more than ~5 along a ray
+  let area = 0;
+  for (let i = 0; i < t.length; i += 9) {
+    const [nx, ny, nz] = triangleNormal(t, i);
+    area += Math.sqrt(nx * nx + ny * ny + nz * nz) / 2;
+  }
+  const cellSize = Math.max(maxDistance / 4, 2 * Math.sqrt(area / Math.max(1, t.length / 9)));
+  const cell = (value: number) => Math.floor(value / cellSize);
+  const cells = new Map<string, number[]>();
+
+  for (let i = 0; i < t.length; i += 9) {
+    const x0 = cell(Math.min(t[i], t[i + 3], t[i + 6]));
+    const x1 = cell(Math.max(t[i], t[i + 3], t[i + 6]));
+    const y0 = cell(Math.min(t[i + 1], t[i + 4], t[i + 7]));
+    const y1 = cell(Math.max(t[i + 1], t[i + 4], t[i + 7]));
+    const z0 = cell(Math.min(t[i + 2], t[i + 5], t[i + 8]));
+    const z1 = cell(Math.max(t[i + 2], t[i + 5], t[i + 8]));
+    for (let x = x0; x <= x1; x++) {
+      for (let y = y0; y <= y1; y++) {
+        for (let z = z0; z <= z1; z++) {
+          const key = `${x},${y},${z}`;
+          const bucket = cells.get(key);
+          if (bucket) {
+            bucket.push(i);
+          } else {
+            cells.set(key, [i]);
+          }
+        }
+      }
+    }
+  }
+
+  return (origin, direction, skip, orientation) => {
+    const lo = origin.map((o, k) => Math.min(o, o + direction[k] * maxDistance));
+    const hi = origin.map((o, k) => Math.max(o, o + direction[k] * maxDistance));
+    let best: number | null = null;
+
+    // A triangle in several cells is tested more than once, which is
+    // cheaper than tracking which were seen
+    for (let x = cell(lo[0]); x <= cell(hi[0]); x++) {
+      for (let y = cell(lo[1]); y <= cell(hi[1]); y++) {
+        for (let z = cell(lo[2]); z <= cell(hi[2]); z++) {
+          for (const i of cells.get(`${x},${y},${z}`) ?? []) {
+            if (i === skip || !boxesOverlap(t, i, lo, hi)) continue;
+
+            // Only the far side of the wall counts: its outward normal
+            // points along the ray
+            const [nx, ny, nz] = triangleNormal(t, i);
+            const length = Math.sqrt(nx * nx + ny * ny + nz * nz);
+            const facing = ((nx * direction[0] + ny * direction[1] + nz * direction[2]) * orientation) / length;
+            if (!(facing > OPPOSITE_FACE)) continue;
+
+            const distance = rayDistance(t, i, origin, direction);
+            if (distance !== null && distance > MIN_WALL_MM && distance < maxDistance
+              && (best === null || distance < best)) {
+              best = distance;
+            }
+          }
+        }
+      }
+    }
+
+    return best;
+  };
+}
+
+function boxesOverlap(t: Float32Array, i: number, lo: number[], hi: number[]): boolean {
+  for (let k = 0; k < 3; k++) {
+    if (Math.max(t[i + k], t[i + k + 3], t[i + k + 6]) < lo[k]) return false;
+    if (Math.min(t[i + k], t[i + k + 3], t[i + k + 6]) > hi[k]) return false;
+  }
+  return true;
+}
+
+/**
+ * Möller–Trumbore: distance along the ray to the triangle, or null
+ */
+function rayDistance(t: Float32Array, i: number, origin: Vec3, direction: Vec3): number | null {
+  const e1x = t[i + 3] - t[i], e1y = t[i + 4] - t[i + 1], e1z = t[i + 5] - t[i + 2];
+  const e2x = t[i + 6] - t[i], e2y = t[i + 7] - t[i + 1], e2z = t[i + 8] - t[i + 2];
+  const [dx, dy, dz] = direction;
+  const hx = dy * e2z - dz * e2y, hy = dz * e2x - dx * e2z, hz = dx * e2y - dy * e2x;
+  const det = e1x * hx + e1y * hy + e1z * hz;
+  if (Math.abs(det) < 1e-12) return null;
+
+  const sx = origin[0] - t[i], sy = origin[1] - t[i + 1], sz = origin[2] - t[i + 2];
+  const u = (sx * hx + sy * hy + sz * hz) / det;
+  if (u < 0 || u > 1) return null;
+  const qx = sy * e1z - sz * e1y, qy = sz * e1x - sx * e1z, qz = sx * e1y - sy * e1x;
+  const v = (dx * qx + dy * qy + dz * qz) / det;
+  if (v < 0 || u + v > 1) return null;
+  return (e2x * qx + e2y * qy + e2z * qz) / det;
+}
+
+/**
+ * Lowest points of the part that aren't on the bed. A vertex with no
+ * lower neighbour whose surrounding surface faces down starts a new region
+ * in midair; level neighbours (a flat underside) are one island.
+ */
+function findIslands(mesh: Mesh, bedZ: number, layerHeightMm: number, orientation: number): PrintIsland[] {
+  const { positions, indices } = weldVertices(mesh);
+  const vertexCount = positions.length / 3;
+  const z = (v: number) => positions[v * 3 + 2];
+
+  const hasLower = new Uint8Array(vertexCount);
+  const normalZ = new Float64Array(vertexCount);
+  const faceNormalZ = new Float64Array(indices.length / 3);
+  const t = mesh.triangles;
+
+  for (let f = 0; f < indices.length / 3; f++) {
+    faceNormalZ[f] = triangleNormal(t, f * 9)[2] * orientation;
+    for (let k = 0; k < 3; k++) {
+      const v = indices[f * 3 + k];
+      normalZ[v] += faceNormalZ[f];
+      for (let j = 1; j < 3; j++) {
+        if (z(indices[f * 3 + (k + j) % 3]) < z(v) - LEVEL_TOLERANCE) hasLower[v] = 1;
+      }
+    }
+  }
+
+  const isStart = (v: number) => !hasLower[v] && normalZ[v] < 0 && z(v) > bedZ + layerHeightMm;
+
+  // Join level starting vertices that share an edge
+  const parent = new Int32Array(vertexCount).map((_, v) => v);
+  const find = (v: number): number => {
+    while (parent[v] !== v) {
+      parent[v] = parent[parent[v]];
+      v = parent[v];
+    }
+    return v;
+  };
+  for (let f = 0; f < indices.length / 3; f++) {
+    for (let k = 0; k < 3; k++) {
+      const a = indices[f * 3 + k];
+      const b = indices[f * 3 + (k + 1) % 3];
+      if (isStart(a) && isStart(b)) parent[find(a)] = find(b);
+    }
+  }
+
+  const islands = new Map<number, PrintIsland>();
+  for (let v = 0; v < vertexCount; v++) {
+    if (!isStart(v)) continue;
+    const root = find(v);
+    const island = islands.get(root);
+    if (!island) {
+      islands.set(root, { z: z(v), areaMm2: 0 });
+    } else if (z(v) < island.z) {
+      island.z = z(v);
+    }
+  }
+
+  // First-layer area: downward faces touching the island, within one layer of its start
+  for (let f = 0; f < indices.length / 3; f++) {
+    if (faceNormalZ[f] >= 0) continue;
+    const corners = [indices[f * 3], indices[f * 3 + 1], indices[f * 3 + 2]];
+    const start = corners.find(isStart);
+    if (start === undefined) continue;
+    const island = islands.get(find(start))!;
+    if (corners.every(v => z(v) <= island.z + layerHeightMm)) {
+      island.areaMm2 += -faceNormalZ[f] / 2;
+    }
+  }
+
+  return [...islands.values()]
+    .map(island => ({ ...island, z: island.z - bedZ }))
+    .sort((a, b) => a.z - b.z);
+}
+
+/**
+ * Footprint of the downward faces that lie within the first layer
+ */
+function bedContactArea(mesh: Mesh, belowZ: number, orientation: number): number {
+  const t = mesh.triangles;
+  let area = 0;
+
+  for (let i = 0; i < t.length; i += 9) {
+    if (Math.max(t[i + 2], t[i + 5], t[i + 8]) > belowZ) continue;
+    const nz = triangleNormal(t, i)[2] * orientation;
+    if (nz < 0) area += -nz / 2;
+  }
+
+  return area;
+}
+
+function plural(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? '' : 's'}`;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -0,0 +1,142 @@
+import type { PrintEstimate } from './index.ts';
+
+// Kept free of Node APIs so client components can import its constants
+
+// ─────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────
+
+export interface QuoteOptions {
+  shippingCost?: number;          // USD, see estimateShipping(); default flat $5.00
+  shippingService?: string;       // named on the shipping line, e.g. "USPS Ground Advantage"
+  sellerMarginPercent?: number;   // default 15
+}
+
+export type QuoteLineItemKey =
+  | 'material'
+  | 'support'
+  | 'machine'
+  | 'labor'
+  | 'shipping'
+  | 'margin'
+  | 'platformFee'
+  | 'gasCushion';
+
+export interface QuoteLineItem {
+  key: QuoteLineItemKey;
+  label: string;
+  amount: number;                 // USD
+}
+
+export interface PrintQuote {
+  lineItems: QuoteLineItem[];
+
+  // Seller's side
+  materialCost: number;
+  supportCost: number;
+  machineCost: number;
+  laborCost: number;
+  shippingCost: number;
+  sellerMarginPercent: number;
+  marginCost: number;
+  total: number;                  // paid to the seller on delivery
+
+  // On top of the total, locked in escrow
+  platformFee: number;
+  gasCushion: number;
+  deposit: number;
+}
+
+export type QuoteInput = Pick<
+  PrintEstimate,
+  'materialCost' | 'supportCost' | 'supportsEnabled' | 'supportWeightGrams' | 'printTimeHours'
+>;
+
+export const DEFAULT_SHIPPING_COST = 5.00;
+export const DEFAULT_SELLER_MARGIN = 15;
+export const MIN_SELLER_MARGIN = 10;
+
+const MACHINE_RATE_PER_HOUR = 0.40;         // power + wear
+const LABOR_RATE_PER_HOUR = 15.00;
+const SETUP_MINUTES = 5;                    // slicing, bed prep, part removal
+const SUPPORT_REMOVAL_MINUTES_PER_GRAM = 0.2;
+
+const PLATFORM_FEE = 0.005;                 // 0.5% of the total
+const GAS_CUSHION = 0.02;                   // 2% of the total, refunded if unused
+
+// ─────────────────────────────────────────────────────────────
+// Main API
+// ─────────────────────────────────────────────────────────────
+
+/**
+ * Turn an estimate into an itemized buyer quote
+ *
+ * The seller margin applies to everything the seller spends (material,
+ * support, machine time, labor and shipping); the platform fee and gas
+ * cushion are charged on top and only exist in the escrow deposit.
+ */
+export function buildQuote(estimate: QuoteInput, options: QuoteOptions = {}): PrintQuote {
+  const shippingCost = options.shippingCost ?? DEFAULT_SHIPPING_COST;
+  const sellerMarginPercent = options.sellerMarginPercent ?? DEFAULT_SELLER_MARGIN;
+  if (shippingCost < 0) {
+    throw new Error(`Shipping cost cannot be negative: ${shippingCost}`);
+  }
+  if (sellerMarginPercent < 0) {
+    throw new Error(`Seller margin cannot be negative: ${sellerMarginPercent}`);
+  }
+
+  const materialCost = estimate.materialCost;
+  const supportCost = estimate.supportsEnabled ? estimate.supportCost : 0;
+  const machineCost = round(estimate.printTimeHours * MACHINE_RATE_PER_HOUR);
+
+  const laborMinutes = SETUP_MINUTES
+    + (estimate.supportsEnabled ? estimate.supportWeightGrams * SUPPORT_REMOVAL_MINUTES_PER_GRAM : 0);
+  const laborCost = round((laborMinutes / 60) * LABOR_RATE_PER_HOUR);
+
+  const sellerCost = materialCost + supportCost + machineCost + laborCost + shippingCost;
+  const marginCost = round(sellerCost * (sellerMarginPercent / 100));
+  const total = round(sellerCost + marginCost);
+
+  const platformFee = round(total * PLATFORM_FEE);
+  const gasCushion = round(total * GAS_CUSHION);
+  const deposit = round(total + platformFee + gasCushion);
+
+  const lineItems: QuoteLineItem[] = [
+    { key: 'material', label: 'Material', amount: materialCost },
+    { key: 'support', label: 'Support Material', amount: supportCost },
+    { key: 'machine', label: `Machine Time (${estimate.printTimeHours}h)`, amount: machineCost },
+    { key: 'labor', label: 'Labor', amount: laborCost },
+    {
+      key: 'shipping',
+      label: options.shippingService ? `Shipping (${options.shippingService})` : 'Shipping',
+      amount: shippingCost,
+    },
+    { key: 'margin', label: `Seller Margin (${sellerMarginPercent}%)`, amount: marginCost },
+    { key: 'platformFee', label: 'Platform Fee (0.5%)', amount: platformFee },
+    { key: 'gasCushion', label: 'Gas Cushion (2%)', amount: gasCushion },
+  ];
+
+  return {
+    lineItems,
+    materialCost,
+    supportCost,
+    machineCost,
+    laborCost,
+    shippingCost,
+    sellerMarginPercent,
+    marginCost,
+    total,
+    platformFee,
+    gasCushion,
+    deposit,
+  };
+}
+
+// ─────────────────────────────────────────────────────────────
+// Helpers
+// ─────────────────────────────────────────────────────────────
+
+function round(n: number, d: number = 2): number {
+  const f = Math.pow(10, d);
+  return Math.round(n * f) / f;
+}
@@ -0,0 +1,317 @@
+import { Mesh, checkManifold, weldVertices } from './mesh.ts';
+
+// ─────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────
+
+export interface RepairOptions {
+  weldTolerance?: number;     // mm, vertices closer than this are merged
+  maxHoleEdges?: number;      // larger holes are left open, default 32
+}
+
+export interface RepairReport {
+  mergedVertices: number;     // near-duplicate vertices snapped together
+  degenerateRemoved: number;  // collapsed or zero-area triangles
+  duplicatesRemoved: number;  // the same triangle listed more than once
+  flippedTriangles: number;   // rewound to agree with their neighbours
+  invertedShells: number;     // inside-out pieces turned right side out
+  holesFilled: number;
+  holesSkipped: number;       // larger than maxHoleEdges
+  trianglesAdded: number;
+  watertightBefore: boolean;
+  watertightAfter: boolean;
+  changed: boolean;           // any triangle removed, rewound or added
+}
+
+export interface RepairResult {
+  mesh: Mesh;
+  report: RepairReport;
+}
+
+export const DEFAULT_MAX_HOLE_EDGES = 32;
+
+// Twice the area (mm²) below which a triangle counts as degenerate
+const MIN_DOUBLE_AREA = 1e-10;
+
+// ─────────────────────────────────────────────────────────────
+// Main API
+// ─────────────────────────────────────────────────────────────
+
+/**
+ * Clean up a mesh before it is measured
+ *
+ * Runs in order: weld near-duplicate vertices, drop degenerate and
+ * duplicate triangles, make winding consistent across shared edges (and
+ * outward for every piece that isn't a cavity), then close holes of up to
+ * `maxHoleEdges` edges with a fan around their centroid. Non-manifold
+ * edges are left alone; they are reported by checkManifold as before.
+ */
+export function repairMesh(mesh: Mesh, options: RepairOptions = {}): RepairResult {
+  const maxHoleEdges = options.maxHoleEdges ?? DEFAULT_MAX_HOLE_EDGES;
+  const watertightBefore = checkManifold(mesh).isWatertight;
+
+  // 1. Weld
+  const welded = weldVertices(mesh, options.weldTolerance);
+  const positions = Array.from(welded.positions);
+  let mergedVertices = 0;
+  const t = mesh.triangles;
+  for (let i = 0; i < welded.indices.length; i++) {
+    const v = welded.indices[i] * 3;
+    if (t[i * 3] !== positions[v] || t[i * 3 + 1] !== positions[v + 1] || t[i * 3 + 2] !== positions[v + 2]) {
+      mergedVertices++;
+    }
+  }
+
+  // 2. Degenerate and duplicate triangles
+  const faces: [number, number, number][] = [];
+  const seen = new Set<string>();
+  let degenerateRemoved = 0;
+  let duplicatesRemoved = 0;
+  for (let i = 0; i < welded.indices.length; i += 3) {
+    const face: [number, number, number] = [welded.indices[i], welded.indices[i + 1], welded.indices[i + 2]];
+    if (doubleArea(positions, face) < MIN_DOUBLE_AREA) {
+      degenerateRemoved++;
+      continue;
+    }
+    const key = [...face].sort((a, b) => a - b).join(',');
+    if (seen.has(key)) {
+      duplicatesRemoved++;
+      continue;
+    }
+    seen.add(key);
+    faces.push(face);
+  }
+
+  // 3. Consistent winding
+  const { flippedTriangles, invertedShells } = orientFaces(positions, faces);
+
+  // 4. Holes
+  const { holesFilled, holesSkipped, trianglesAdded } = fillHoles(positions, faces, maxHoleEdges);
+
+  const triangles = new Float32Array(faces.length * 9);
+  faces.forEach((face, f) => {
+    for (let k = 0; k < 3; k++) {
+      triangles[f * 9 + k * 3] = positions[face[k] * 3];
+      triangles[f * 9 + k * 3 + 1] = positions[face[k] * 3 + 1];
+      triangles[f * 9 + k * 3 + 2] = positions[face[k] * 3 + 2];
+    }
+  });
+  const repaired: Mesh = { triangles };
+
+  return {
+    mesh: repaired,
+    report: {
+      mergedVertices,
+      degenerateRemoved,
+      duplicatesRemoved,
+      flippedTriangles,
+      invertedShells,
+      holesFilled,
+      holesSkipped,
+      trianglesAdded,
+      watertightBefore,
+      watertightAfter: checkManifold(repaired).isWatertight,
+      // Welding only moves vertices by float noise, so it doesn't count
+      changed: degenerateRemoved + duplicatesRemoved + flippedTriangles + invertedShells + trianglesAdded > 0,
+    },
+  };
+}
+
+// ─────────────────────────────────────────────────────────────
+// Helpers
+// ─────────────────────────────────────────────────────────────
+
+/**
+ * Flip faces so every manifold edge is walked once in each direction,
+ * then turn inside-out pieces right side out. A piece with negative
+ * volume inside another piece is a cavity and keeps its winding.
+ */
+function orientFaces(
+  positions: number[],
+  faces: [number, number, number][]
+): { flippedTriangles: number; invertedShells: number } {
+  const vertexCount = positions.length / 3;
+  const edgeKey = (a: number, b: number) => Math.min(a, b) * vertexCount + Math.max(a, b);
+
+  const edgeFaces = new Map<number, number[]>();
+  faces.forEach((face, f) => {
+    for (let k = 0; k < 3; k++) {
+      const key = edgeKey(face[k], face[(k + 1) % 3]);
+      const list = edgeFaces.get(key);
+      if (list) list.push(f); else edgeFaces.set(key, [f]);
+    }
+  });
+
+  const visited = new Uint8Array(faces.length);
+  const shellOf = new Int32Array(faces.length);
+  const shells: { faces: number[]; volume: number }[] = [];
+  let flippedTriangles = 0;
+  let invertedShells = 0;
+
+  for (let seed = 0; seed < faces.length; seed++) {
+    if (visited[seed]) continue;
+    visited[seed] = 1;
+    const shell = [seed];
+
+    for (let q = 0; q < shell.length; q++) {
+      const face = faces[shell[q]];
+      for (let k = 0; k < 3; k++) {
+        const from = face[k];
+        const to = face[(k + 1) % 3];
+        const neighbours = edgeFaces.get(edgeKey(from, to))!;
+        // Only propagate across edges shared by exactly two faces
+        if (neighbours.length !== 2) continue;
+        const n = neighbours[0] === shell[q] ? neighbours[1] : neighbours[0];
+        if (visited[n]) continue;
+        visited[n] = 1;
+        // A consistent neighbour walks the shared edge the other way
+        if (walksEdge(faces[n], from, to)) {
+          faces[n].reverse();
+          flippedTriangles++;
+        }
+        shell.push(n);
+      }
+    }
+
+    let volume = 0;
+    for (const f of shell) {
+      volume += signedTetraVolume(positions, faces[f]);
+      shellOf[f] = shells.length;
+    }
+    shells.push({ faces: shell, volume });
+  }
+
+  shells.forEach((shell, s) => {
+    // Fewer than four faces can't enclose anything, so the sign means nothing
+    if (shell.volume >= 0 || shell.faces.length < 4) return;
+    const v = faces[shell.faces[0]][0];
+    const origin: [number, number, number] = [positions[v * 3], positions[v * 3 + 1], positions[v * 3 + 2]];
+    let crossings = 0;
+    faces.forEach((face, f) => {
+      if (shellOf[f] !== s && rayHits(positions, face, origin)) crossings++;
+    });
+    if (crossings % 2 === 0) {
+      for (const f of shell.faces) faces[f].reverse();
+      invertedShells++;
+    }
+  });
+
+  return { flippedTriangles, invertedShells };
+}
+
+/**
+ * Close boundary loops of up to maxHoleEdges edges. New faces walk each
+ * boundary edge opposite to the face that owns it, so winding stays
+ * consistent.
+ */
+function fillHoles(
+  positions: number[],
+  faces: [number, number, number][],
+  maxHoleEdges: number
+): { holesFilled: number; holesSkipped: number; trianglesAdded: number } {
+  const vertexCount = positions.length / 3;
+  const directed = new Set<number>();
+  for (const face of faces) {
+    for (let k = 0; k < 3; k++) directed.add(face[k] * vertexCount + face[(k + 1) % 3]);
+  }
+
+  // Boundary edge a→b has no face walking b→a; the hole walks b→a
+  const next = new Map<number, number[]>();
+  for (const key of directed) {
+    const a = Math.floor(key / vertexCount);
+    const b = key % vertexCount;
+    if (directed.has(b * vertexCount + a)) continue;
+    const list = next.get(b);
+    if (list) list.push(a); else next.set(b, [a]);
+  }
+
+  let holesFilled = 0;
+  let holesSkipped = 0;
+  let trianglesAdded = 0;
+
+  for (const start of [...next.keys()]) {
+    while (next.get(start)?.length) {
+      const loop = [start];
+      let current = next.get(start)!.pop()!;
+      while (current !== start && loop.length <= vertexCount) {
+        loop.push(current);
+        const options = next.get(current);
+        if (!options?.length) break;
+        current = options.pop()!;
+      }
+      if (current !== start) {
+        // Open chain (non-manifold boundary): nothing to close
+        holesSkipped++;
+        continue;
+      }
+      if (loop.length > maxHoleEdges) {
+        holesSkipped++;
+        continue;
+      }
+
+      if (loop.length === 3) {
+        faces.push([loop[0], loop[1], loop[2]]);
+        trianglesAdded++;
+      } else {
+        const centre = positions.length / 3;
+        const c = [0, 0, 0];
+        for (const v of loop) {
+          c[0] += positions[v * 3] / loop.length;
+          c[1] += positions[v * 3 + 1] / loop.length;
+          c[2] += positions[v * 3 + 2] / loop.length;
+        }
+        positions.push(c[0], c[1], c[2]);
+        for (let i = 0; i < loop.length; i++) {
+          faces.push([loop[i], loop[(i + 1) % loop.length], centre]);
+        }
+        trianglesAdded += loop.length;
+      }
+      holesFilled++;
+    }
+  }
+
+  return { holesFilled, holesSkipped, trianglesAdded };
+}
+
+// Slightly skewed so the ray doesn't run along axis-aligned edges
+const RAY: [number, number, number] = [1, 0.0013, 0.0029];
+
+/**
+ * Möller–Trumbore: does a ray from `origin` along RAY cross the face?
+ */
+function rayHits(p: number[], [a, b, c]: [number, number, number], origin: [number, number, number]): boolean {
+  const e1 = [p[b * 3] - p[a * 3], p[b * 3 + 1] - p[a * 3 + 1], p[b * 3 + 2] - p[a * 3 + 2]];
+  const e2 = [p[c * 3] - p[a * 3], p[c * 3 + 1] - p[a * 3 + 1], p[c * 3 + 2] - p[a * 3 + 2]];
+  const h = [RAY[1] * e2[2] - RAY[2] * e2[1], RAY[2] * e2[0] - RAY[0] * e2[2], RAY[0] * e2[1] - RAY[1] * e2[0]];
+  const det = e1[0] * h[0] + e1[1] * h[1] + e1[2] * h[2];
+  if (Math.abs(det) < 1e-12) return false;
+
+  const s = [origin[0] - p[a * 3], origin[1] - p[a * 3 + 1], origin[2] - p[a * 3 + 2]];
+  const u = (s[0] * h[0] + s[1] * h[1] + s[2] * h[2]) / det;
+  if (u < 0 || u > 1) return false;
+  const q = [s[1] * e1[2] - s[2] * e1[1], s[2] * e1[0] - s[0] * e1[2], s[0] * e1[1] - s[1] * e1[0]];
+  const w = (RAY[0] * q[0] + RAY[1] * q[1] + RAY[2] * q[2]) / det;
+  if (w < 0 || u + w > 1) return false;
+  return (e2[0] * q[0] + e2[1] * q[1] + e2[2] * q[2]) / det > 0;
+}
+
+function walksEdge(face: [number, number, number], from: number, to: number): boolean {
+  for (let k = 0; k < 3; k++) {
+    if (face[k] === from && face[(k + 1) % 3] === to) return true;
+  }
+  return false;
+}
+
+function doubleArea(p: number[], [a, b, c]: [number, number, number]): number {
+  const ux = p[b * 3] - p[a * 3], uy = p[b * 3 + 1] - p[a * 3 + 1], uz = p[b * 3 + 2] - p[a * 3 + 2];
+  const vx = p[c * 3] - p[a * 3], vy = p[c * 3 + 1] - p[a * 3 + 1], vz = p[c * 3 + 2] - p[a * 3 + 2];
+  const nx = uy * vz - uz * vy, ny = uz * vx - ux * vz, nz = ux * vy - uy * vx;
+  return Math.sqrt(nx * nx + ny * ny + nz * nz);
+}
+
+function signedTetraVolume(p: number[], [a, b, c]: [number, number, number]): number {
+  const ax = p[a * 3], ay = p[a * 3 + 1], az = p[a * 3 + 2];
+  const bx = p[b * 3], by = p[b * 3 + 1], bz = p[b * 3 + 2];
+  const cx = p[c * 3], cy = p[c * 3 + 1], cz = p[c * 3 + 2];
+  return (ax * (by * cz - bz * cy) - ay * (bx * cz - bz * cx) + az * (bx * cy - by * cx)) / 6;
+}
@@ -0,0 +1,66 @@
+import { Mesh, triangleNormal } from './mesh.ts';
+
+// ─────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────
+
+export interface ShellOptions {
+  wallCount: number;          // perimeters around each layer
+  lineWidthMm: number;
+  layerHeightMm: number;
+  topBottomLayers: number;    // solid layers on up- and down-facing surfaces
+}
+
+export interface ShellAnalysis {
+  wallThicknessMm: number;
+  skinThicknessMm: number;
+  shellVolumeMm3: number;     // printed solid: walls plus top/bottom skins
+  interiorVolumeMm3: number;  // what infill applies to
+}
+
+// ─────────────────────────────────────────────────────────────
+// Main API
+// ─────────────────────────────────────────────────────────────
+
+/**
+ * Split a part's volume into the solid shell and the infilled interior
+ *
+ * Walls are `wallCount` lines thick measured across the layer, skins are
+ * `topBottomLayers` layers thick measured vertically. Each triangle is
+ * thickened inward by whichever is thicker along its normal, so vertical
+ * faces get walls, flat faces get skins and slopes get the larger of the
+ * two. Parts thinner than their own shell are solid.
+ */
+export function estimateShell(mesh: Mesh, volumeMm3: number, options: ShellOptions): ShellAnalysis {
+  const { wallCount, lineWidthMm, layerHeightMm, topBottomLayers } = options;
+  if (!(wallCount >= 0 && topBottomLayers >= 0)) {
+    throw new Error(`Wall count and top/bottom layers cannot be negative: ${wallCount}, ${topBottomLayers}`);
+  }
+  if (!(lineWidthMm > 0 && layerHeightMm > 0)) {
+    throw new Error(`Line width and layer height must be positive: ${lineWidthMm}, ${layerHeightMm}`);
+  }
+
+  const wallThicknessMm = wallCount * lineWidthMm;
+  const skinThicknessMm = topBottomLayers * layerHeightMm;
+
+  const t = mesh.triangles;
+  let shell = 0;
+  for (let i = 0; i < t.length; i += 9) {
+    const [nx, ny, nz] = triangleNormal(t, i);
+    const length = Math.sqrt(nx * nx + ny * ny + nz * nz);
+    if (length === 0) continue;
+
+    const vertical = Math.abs(nz) / length;
+    const horizontal = Math.sqrt(1 - vertical * vertical);
+    const thickness = Math.max(wallThicknessMm * horizontal, skinThicknessMm * vertical);
+    shell += (length / 2) * thickness;
+  }
+
+  const shellVolumeMm3 = Math.min(shell, volumeMm3);
+  return {
+    wallThicknessMm,
+    skinThicknessMm,
+    shellVolumeMm3,
+    interiorVolumeMm3: volumeMm3 - shellVolumeMm3,
+  };
+}
@@ -0,0 +1,107 @@
+import { Mesh, checkParseLimit, triangleNormal, type ParseLimits } from './mesh.ts';
+
+// Binary STL: 80-byte header, uint32 triangle count, then 50 bytes per
+// triangle (normal, 3 vertices, attribute byte count)
+const HEADER_BYTES = 84;
+const TRIANGLE_BYTES = 50;
+
+/**
+ * Parse a binary or ASCII STL file into a triangle soup
+ *
+ * Stored facet normals are ignored; winding order is the only source of
+ * truth for orientation. Takes any byte array, so the model viewer can
+ * parse in the browser.
+ */
+export function parseStl(buffer: Uint8Array, limits: ParseLimits = {}): Mesh {
+  return isBinaryStl(buffer) ? parseBinaryStl(buffer, limits) : parseAsciiStl(buffer, limits);
+}
+
+/**
+ * Write a mesh as binary STL, with facet normals from the winding order
+ */
+export function writeStl(mesh: Mesh, header: string = 'FilaMint'): Buffer {
+  const t = mesh.triangles;
+  const count = t.length / 9;
+  const buffer = Buffer.alloc(HEADER_BYTES + count * TRIANGLE_BYTES);
+  buffer.write(header.slice(0, 80), 0, 'ascii');
+  buffer.writeUInt32LE(count, 80);
+
+  for (let i = 0; i < count; i++) {
+    const offset = HEADER_BYTES + i * TRIANGLE_BYTES;
+    const [nx, ny, nz] = triangleNormal(t, i * 9);
+    const length = Math.sqrt(nx * nx + ny * ny + nz * nz) || 1;
+    buffer.writeFloatLE(nx / length, offset);
+    buffer.writeFloatLE(ny / length, offset + 4);
+    buffer.writeFloatLE(nz / length, offset + 8);
+    for (let k = 0; k < 9; k++) {
+      buffer.writeFloatLE(t[i * 9 + k], offset + 12 + k * 4);
+    }
+    // Attribute byte count stays 0 from Buffer.alloc
+  }
+
+  return buffer;
+}
+
+/**
+ * Some exporters write "solid" at the start of binary headers, so the
+ * declared triangle count is checked against the file size first.
+ */
+export function isBinaryStl(buffer: Uint8Array): boolean {
+  if (buffer.length < HEADER_BYTES) {
+    return false;
+  }
+  const count = view(buffer).getUint32(80, true);
+  if (buffer.length === HEADER_BYTES + count * TRIANGLE_BYTES) {
+    return true;
+  }
+  return !new TextDecoder('ascii').decode(buffer.subarray(0, 5)).toLowerCase().startsWith('solid');
+}
+
+function parseBinaryStl(buffer: Uint8Array, limits: ParseLimits): Mesh {
+  const data = view(buffer);
+  const count = data.getUint32(80, true);
+  checkParseLimit('triangles', count, limits);
+  const expected = HEADER_BYTES + count * TRIANGLE_BYTES;
+  if (buffer.length < expected) {
+    throw new Error(`Truncated binary STL: expected ${expected} bytes, got ${buffer.length}`);
+  }
+
+  const triangles = new Float32Array(count * 9);
+  for (let i = 0; i < count; i++) {
+    // Skip the 12-byte normal at the start of each record
+    const offset = HEADER_BYTES + i * TRIANGLE_BYTES + 12;
+    for (let k = 0; k < 9; k++) {
+      triangles[i * 9 + k] = data.getFloat32(offset + k * 4, true);
+    }
+  }
+
+  return { triangles };
+}
+
+function parseAsciiStl(buffer: Uint8Array, limits: ParseLimits): Mesh {
+  const text = new TextDecoder('utf-8').decode(buffer);
+  const pattern = /vertex\s+(\S+)\s+(\S+)\s+(\S+)/gi;
+  const values: number[] = [];
+
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) !== null) {
+    const x = parseFloat(match[1]);
+    const y = parseFloat(match[2]);
+    const z = parseFloat(match[3]);
+    if (!Number.isFinite(x) || !Number.isFinite(y) || !Number.isFinite(z)) {
+      throw new Error(`Invalid vertex in ASCII STL: ${match[0]}`);
+    }
+    values.push(x, y, z);
+    checkParseLimit('vertices', values.length / 3, limits);
+  }
+
+  if (values.length % 9 !== 0) {
+    throw new Error('Malformed ASCII STL: vertex count is not a multiple of 3');
+  }
+
+  return { triangles: new Float32Array(values) };
+}
+
+function view(buffer: Uint8Array): DataView {
+  return new DataView(buffer.buffer, buffer.byteOffset, buffer.byteLength);
+}
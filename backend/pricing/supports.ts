@@ -0,0 +1,191 @@
+import { Mesh, Vec3, getBoundingBox, signedVolume, triangleNormal } from './mesh.ts';
+
+// ─────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────
+
+export interface SupportOptions {
+  overhangAngle?: number;   // degrees from vertical a surface may lean unsupported
+  density?: number;         // fraction of the region under overhangs that is filled
+}
+
+export interface SupportAnalysis {
+  overhangAngle: number;
+  overhangTriangles: number;
+  overhangFaces: number[];  // indices of the triangles that need support
+  overhangAreaMm2: number;  // footprint of the overhangs projected onto the bed
+  supportVolumeMm3: number; // material actually extruded as support
+}
+
+export const DEFAULT_OVERHANG_ANGLE = 45;
+export const DEFAULT_SUPPORT_DENSITY = 0.15;
+
+// Overhangs closer than one layer to the bed or the part below print fine
+const MIN_SUPPORT_HEIGHT = 0.2;
+const FLOOR_TOLERANCE = 1e-3;
+
+// Large overhangs are sampled on a grid about this fine (mm), so a single
+// triangle spanning both bed and part below is not measured at one point
+const SAMPLE_SPACING = 2;
+const MAX_SUBDIVISIONS = 32;
+
+// ─────────────────────────────────────────────────────────────
+// Main API
+// ─────────────────────────────────────────────────────────────
+
+/**
+ * Estimate the support material a mesh needs in its current orientation
+ *
+ * A downward-facing triangle needs support when it leans further from
+ * vertical than `overhangAngle`. It is supported by columns from sample
+ * points on it straight down to the first upward-facing surface of the
+ * part, or to the bed, and the columns are filled at `density`.
+ */
+export function estimateSupport(mesh: Mesh, options: SupportOptions = {}): SupportAnalysis {
+  const overhangAngle = options.overhangAngle ?? DEFAULT_OVERHANG_ANGLE;
+  const density = options.density ?? DEFAULT_SUPPORT_DENSITY;
+  if (!(overhangAngle >= 0 && overhangAngle <= 90)) {
+    throw new Error(`Overhang angle must be between 0 and 90 degrees: ${overhangAngle}`);
+  }
+
+  const t = mesh.triangles;
+  const bedZ = getBoundingBox(mesh).min[2];
+  // Inside-out meshes have every normal reversed
+  const orientation = signedVolume(mesh) < 0 ? -1 : 1;
+  const threshold = Math.sin((overhangAngle * Math.PI) / 180);
+
+  const overhangs: number[] = [];
+  const floors: number[] = [];
+  for (let i = 0; i < t.length; i += 9) {
+    const [nx, ny, nz] = triangleNormal(t, i);
+    const length = Math.sqrt(nx * nx + ny * ny + nz * nz);
+    if (length === 0) continue;
+
+    const down = (-nz * orientation) / length;
+    if (down > threshold) {
+      overhangs.push(i);
+    } else if (down < 0) {
+      floors.push(i);
+    }
+  }
+
+  const floorBelow = buildFloorLookup(t, floors);
+  const overhangFaces: number[] = [];
+  let overhangAreaMm2 = 0;
+  let regionVolume = 0;
+
+  for (const i of overhangs) {
+    const [, , nz] = triangleNormal(t, i);
+    const samples = sampleTriangle(t, i);
+    const footprint = Math.abs(nz) / 2 / samples.length;
+    let supported = false;
+
+    for (const [x, y, z] of samples) {
+      const height = z - Math.max(bedZ, floorBelow(x, y, z));
+      if (height < MIN_SUPPORT_HEIGHT) continue;
+      supported = true;
+      overhangAreaMm2 += footprint;
+      regionVolume += footprint * height;
+    }
+    if (supported) overhangFaces.push(i / 9);
+  }
+
+  return {
+    overhangAngle,
+    overhangTriangles: overhangFaces.length,
+    overhangFaces,
+    overhangAreaMm2,
+    supportVolumeMm3: regionVolume * density,
+  };
+}
+
+// ─────────────────────────────────────────────────────────────
+// Helpers
+// ─────────────────────────────────────────────────────────────
+
+/**
+ * Split a triangle into n² equal sub-triangles and return their centroids
+ */
+function sampleTriangle(t: Float32Array, i: number): Vec3[] {
+  const edge = (a: number, b: number) =>
+    Math.hypot(t[i + b] - t[i + a], t[i + b + 1] - t[i + a + 1], t[i + b + 2] - t[i + a + 2]);
+  const longest = Math.max(edge(0, 3), edge(3, 6), edge(6, 0));
+  const n = Math.min(MAX_SUBDIVISIONS, Math.max(1, Math.ceil(longest / SAMPLE_SPACING)));
+
+  const point = (u: number, v: number): Vec3 => {
+    const w = 1 - u - v;
+    return [
+      w * t[i] + u * t[i + 3] + v * t[i + 6],
+      w * t[i + 1] + u * t[i + 4] + v * t[i + 7],
+      w * t[i + 2] + u * t[i + 5] + v * t[i + 8],
+    ];
+  };
+
+  const samples: Vec3[] = [];
+  for (let a = 0; a < n; a++) {
+    for (let b = 0; a + b < n; b++) {
+      samples.push(point((a + 1 / 3) / n, (b + 1 / 3) / n));
+      if (a + b < n - 1) {
+        samples.push(point((a + 2 / 3) / n, (b + 2 / 3) / n));
+      }
+    }
+  }
+  return samples;
+}
+
+/**
+ * Bucket upward-facing triangles by their XY bounds so a vertical ray
+ * only has to be tested against the triangles in one cell. The returned
+ * lookup gives the highest floor under (x, y) at or below z, or -Infinity.
+ */
+function buildFloorLookup(t: Float32Array, floors: number[]): (x: number, y: number, z: number) => number {
+  const box = getBoundingBox({ triangles: t });
+  // Roughly one triangle per cell, but never finer than 1 mm
+  const span = Math.max(box.size[0], box.size[1]);
+  const cellSize = Math.max(1, span / Math.max(1, Math.sqrt(floors.length)));
+  const cell = (value: number) => Math.floor(value / cellSize);
+  const cells = new Map<string, number[]>();
+
+  for (const i of floors) {
+    const x0 = cell(Math.min(t[i], t[i + 3], t[i + 6]));
+    const x1 = cell(Math.max(t[i], t[i + 3], t[i + 6]));
+    const y0 = cell(Math.min(t[i + 1], t[i + 4], t[i + 7]));
+    const y1 = cell(Math.max(t[i + 1], t[i + 4], t[i + 7]));
+    for (let x = x0; x <= x1; x++) {
+      for (let y = y0; y <= y1; y++) {
+        const key = `${x},${y}`;
+        const bucket = cells.get(key);
+        if (bucket) {
+          bucket.push(i);
+        } else {
+          cells.set(key, [i]);
+        }
+      }
+    }
+  }
+
+  return (x, y, z) => {
+    let best = -Infinity;
+
+    for (const i of cells.get(`${cell(x)},${cell(y)}`) ?? []) {
+      const ax = t[i], ay = t[i + 1];
+      const e1x = t[i + 3] - ax, e1y = t[i + 4] - ay;
+      const e2x = t[i + 6] - ax, e2y = t[i + 7] - ay;
+      const det = e1x * e2y - e2x * e1y;
+      if (det === 0) continue;
+
+      // Barycentric coordinates of (x, y) in the triangle's XY projection
+      const u = ((x - ax) * e2y - e2x * (y - ay)) / det;
+      const v = (e1x * (y - ay) - (x - ax) * e1y) / det;
+      if (u < 0 || v < 0 || u + v > 1) continue;
+
+      const hit = t[i + 2] + u * (t[i + 5] - t[i + 2]) + v * (t[i + 8] - t[i + 2]);
+      // Coplanar floors count: an overhang resting on the part needs nothing
+      if (hit <= z + FLOOR_TOLERANCE && hit > best) {
+        best = hit;
+      }
+    }
+
+    return best;
+  };
+}
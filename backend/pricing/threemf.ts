@@ -0,0 +1,338 @@
+import { Mesh, ModelLimitError, checkParseLimit, type ParseLimits } from './mesh.ts';
+import { listZipEntries, readZipEntry, ZipEntry } from './zip.ts';
+
+// ─────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────
+
+// 3MF affine transform, "m00 m01 m02 m10 m11 m12 m20 m21 m22 m30 m31 m32",
+// applied to row vectors: [x y z 1] × M
+type Transform = number[];
+
+interface Component {
+  objectId: string;
+  path: string;
+  transform: Transform;
+}
+
+interface ModelObject {
+  vertices: number[];
+  triangles: number[];
+  components: Component[];
+}
+
+interface ModelPart {
+  unit: string;
+  objects: Map<string, ModelObject>;
+  build: { objectId: string; transform: Transform }[];
+}
+
+// What one object expands to, including everything its components place
+interface Expansion {
+  triangles: number;
+  instances: number;         // the object itself and every component below it
+  height: number;            // longest component chain below it
+}
+
+const IDENTITY: Transform = [1, 0, 0, 0, 1, 0, 0, 0, 1, 0, 0, 0];
+
+const UNIT_TO_MM: Record<string, number> = {
+  micron: 0.001,
+  millimeter: 1,
+  centimeter: 10,
+  inch: 25.4,
+  foot: 304.8,
+  meter: 1000,
+};
+
+const DEFAULT_MODEL_PATH = '3D/3dmodel.model';
+const MODEL_RELATIONSHIP = 'http://schemas.microsoft.com/3dmanufacturing/2013/01/3dmodel';
+
+// Guards against component cycles in malformed files
+const MAX_COMPONENT_DEPTH = 32;
+
+// Objects placed in total, counting every repeat through components. Empty
+// objects cost nothing against maxTriangles, so a few nested components
+// could otherwise be expanded billions of times
+const MAX_OBJECT_INSTANCES = 1_000_000;
+
+// ─────────────────────────────────────────────────────────────
+// Main API
+// ─────────────────────────────────────────────────────────────
+
+/**
+ * Parse a 3MF package into a single triangle soup
+ *
+ * Every build item is placed with its transform, components are expanded
+ * recursively (including production-extension references to other model
+ * files in the package), and coordinates are converted to mm. Parts are
+ * unpacked only while their declared sizes stay under the limit, and
+ * triangles are counted as they are read. The expanded triangle and object
+ * counts are worked out before anything is placed, so a small file that
+ * repeats components many times over is rejected without expanding it.
+ */
+export function parse3mf(buffer: Buffer, limits: ParseLimits = {}): Mesh {
+  const entries = new Map<string, ZipEntry>();
+  for (const entry of listZipEntries(buffer)) {
+    entries.set(normalizePath(entry.name), entry);
+  }
+
+  let unpackedBytes = 0;
+  const unpack = (entry: ZipEntry): string => {
+    unpackedBytes += entry.size;
+    if (limits.maxUnpackedBytes !== undefined && unpackedBytes > limits.maxUnpackedBytes) {
+      throw new ModelLimitError(
+        'maxUnpackedBytes',
+        `The 3MF unpacks to more than the ${formatMb(limits.maxUnpackedBytes)} limit`
+      );
+    }
+    return readZipEntry(buffer, entry).toString('utf-8');
+  };
+
+  const parts = new Map<string, ModelPart>();
+  const loadPart = (path: string): ModelPart => {
+    const key = normalizePath(path);
+    let part = parts.get(key);
+    if (!part) {
+      const entry = entries.get(key);
+      if (!entry) {
+        throw new Error(`3MF package is missing model part ${path}`);
+      }
+      part = parseModelXml(unpack(entry), limits);
+      parts.set(key, part);
+    }
+    return part;
+  };
+
+  const rootPath = findRootModelPath(entries, unpack);
+  const root = loadPart(rootPath);
+  const scale = UNIT_TO_MM[root.unit];
+  if (scale === undefined) {
+    throw new Error(`Unsupported 3MF unit: ${root.unit}`);
+  }
+
+  // A package without a build section still describes printable objects
+  const items = root.build.length > 0
+    ? root.build
+    : [...root.objects.keys()].map(objectId => ({ objectId, transform: IDENTITY }));
+
+  // What each object expands to, worked out once however often it's placed
+  const expansions = new Map<string, Expansion>();
+  const findObject = (partPath: string, objectId: string): ModelObject => {
+    const object = loadPart(partPath).objects.get(objectId);
+    if (!object) {
+      throw new Error(`3MF references missing object ${objectId} in ${partPath}`);
+    }
+    return object;
+  };
+  const expand = (partPath: string, objectId: string, depth: number): Expansion => {
+    if (depth > MAX_COMPONENT_DEPTH) {
+      throw new Error('3MF components are nested too deeply (cycle?)');
+    }
+    const key = `${normalizePath(partPath)}#${objectId}`;
+    let expansion = expansions.get(key);
+    if (!expansion) {
+      const object = findObject(partPath, objectId);
+      expansion = { triangles: object.triangles.length / 3, instances: 1, height: 0 };
+      for (const component of object.components) {
+        const child = expand(component.path || partPath, component.objectId, depth + 1);
+        expansion.triangles += child.triangles;
+        expansion.instances += child.instances;
+        expansion.height = Math.max(expansion.height, child.height + 1);
+      }
+      expansions.set(key, expansion);
+    }
+    // Reached again deeper down than when it was first expanded
+    if (depth + expansion.height > MAX_COMPONENT_DEPTH) {
+      throw new Error('3MF components are nested too deeply (cycle?)');
+    }
+    return expansion;
+  };
+
+  let triangleTotal = 0;
+  let instanceTotal = 0;
+  for (const item of items) {
+    const expansion = expand(rootPath, item.objectId, 0);
+    triangleTotal += expansion.triangles;
+    instanceTotal += expansion.instances;
+  }
+  // Components and build items can repeat an object many times over
+  checkParseLimit('triangles', triangleTotal, limits);
+  if (instanceTotal > MAX_OBJECT_INSTANCES) {
+    throw new Error(
+      `3MF places objects more than ${MAX_OBJECT_INSTANCES.toLocaleString('en-US')} times through its components`
+    );
+  }
+
+  const values: number[] = [];
+  const emit = (partPath: string, objectId: string, transform: Transform) => {
+    const { vertices, triangles, components } = findObject(partPath, objectId);
+    const vertexCount = vertices.length / 3;
+    for (const index of triangles) {
+      if (index < 0 || index >= vertexCount) {
+        throw new Error(`3MF object ${objectId} has a triangle referencing missing vertex ${index}`);
+      }
+      const [x, y, z] = applyTransform(transform, vertices[index * 3], vertices[index * 3 + 1], vertices[index * 3 + 2]);
+      values.push(x * scale, y * scale, z * scale);
+    }
+
+    for (const component of components) {
+      emit(component.path || partPath, component.objectId, multiply(component.transform, transform));
+    }
+  };
+
+  for (const item of items) {
+    emit(rootPath, item.objectId, item.transform);
+  }
+
+  return { triangles: new Float32Array(values) };
+}
+
+// ─────────────────────────────────────────────────────────────
+// XML
+// ─────────────────────────────────────────────────────────────
+
+function parseModelXml(xml: string, limits: ParseLimits): ModelPart {
+  const modelTag = /<(?:\w+:)?model\b([^>]*)>/.exec(xml);
+  if (!modelTag) {
+    throw new Error('3MF model part has no <model> element');
+  }
+  const unit = parseAttributes(modelTag[1]).unit || 'millimeter';
+
+  const objects = new Map<string, ModelObject>();
+  const objectPattern = /<(?:\w+:)?object\b([^>]*?)(?:\/>|>([\s\S]*?)<\/(?:\w+:)?object>)/g;
+  let match: RegExpExecArray | null;
+  let vertexTotal = 0;
+  let triangleTotal = 0;
+
+  while ((match = objectPattern.exec(xml)) !== null) {
+    const id = parseAttributes(match[1]).id;
+    const body = match[2] || '';
+    const object: ModelObject = { vertices: [], triangles: [], components: [] };
+
+    for (const attrs of eachTag(body, 'vertex')) {
+      object.vertices.push(parseNumber(attrs.x), parseNumber(attrs.y), parseNumber(attrs.z));
+      checkParseLimit('vertices', ++vertexTotal, limits);
+    }
+    for (const attrs of eachTag(body, 'triangle')) {
+      object.triangles.push(parseInt(attrs.v1, 10), parseInt(attrs.v2, 10), parseInt(attrs.v3, 10));
+      checkParseLimit('triangles', ++triangleTotal, limits);
+    }
+    for (const attrs of eachTag(body, 'component')) {
+      object.components.push({
+        objectId: attrs.objectid,
+        path: attrs['p:path'] || '',
+        transform: parseTransform(attrs.transform),
+      });
+    }
+
+    if (id !== undefined) {
+      objects.set(id, object);
+    }
+  }
+
+  const buildBlock = /<(?:\w+:)?build\b[^>]*>([\s\S]*?)<\/(?:\w+:)?build>/.exec(xml);
+  const build = buildBlock
+    ? [...eachTag(buildBlock[1], 'item')].map(attrs => ({
+        objectId: attrs.objectid,
+        transform: parseTransform(attrs.transform),
+      }))
+    : [];
+
+  return { unit, objects, build };
+}
+
+function findRootModelPath(entries: Map<string, ZipEntry>, unpack: (entry: ZipEntry) => string): string {
+  const rels = entries.get('_rels/.rels');
+  if (rels) {
+    for (const attrs of eachTag(unpack(rels), 'Relationship')) {
+      if (attrs.Type === MODEL_RELATIONSHIP && attrs.Target) {
+        return attrs.Target;
+      }
+    }
+  }
+  return DEFAULT_MODEL_PATH;
+}
+
+function* eachTag(xml: string, tag: string): Generator<Record<string, string>> {
+  const pattern = new RegExp(`<(?:\\w+:)?${tag}\\b([^>]*?)\\/?>`, 'g');
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(xml)) !== null) {
+    yield parseAttributes(match[1]);
+  }
+}
+
+function parseAttributes(source: string): Record<string, string> {
+  const attrs: Record<string, string> = {};
+  const pattern = /([\w:.-]+)\s*=\s*(["'])(.*?)\2/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(source)) !== null) {
+    attrs[match[1]] = decodeEntities(match[3]);
+  }
+  return attrs;
+}
+
+function decodeEntities(value: string): string {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+// ─────────────────────────────────────────────────────────────
+// Helpers
+// ─────────────────────────────────────────────────────────────
+
+function parseNumber(value: string | undefined): number {
+  const n = Number(value);
+  if (value === undefined || !Number.isFinite(n)) {
+    throw new Error(`Invalid number in 3MF vertex: ${value}`);
+  }
+  return n;
+}
+
+function parseTransform(value: string | undefined): Transform {
+  if (!value) {
+    return IDENTITY;
+  }
+  const m = value.trim().split(/\s+/).map(Number);
+  if (m.length !== 12 || m.some(n => !Number.isFinite(n))) {
+    throw new Error(`Invalid 3MF transform: ${value}`);
+  }
+  return m;
+}
+
+function applyTransform(m: Transform, x: number, y: number, z: number): [number, number, number] {
+  return [
+    x * m[0] + y * m[3] + z * m[6] + m[9],
+    x * m[1] + y * m[4] + z * m[7] + m[10],
+    x * m[2] + y * m[5] + z * m[8] + m[11],
+  ];
+}
+
+/**
+ * Compose two transforms: the result applies `a` first, then `b`
+ */
+function multiply(a: Transform, b: Transform): Transform {
+  const out: Transform = new Array(12);
+  for (let row = 0; row < 4; row++) {
+    for (let col = 0; col < 3; col++) {
+      let sum = row === 3 ? b[9 + col] : 0;
+      for (let k = 0; k < 3; k++) {
+        sum += a[row * 3 + k] * b[k * 3 + col];
+      }
+      out[row * 3 + col] = sum;
+    }
+  }
+  return out;
+}
+
+function normalizePath(path: string): string {
+  return path.replace(/^\/+/, '');
+}
+
+function formatMb(bytes: number): string {
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
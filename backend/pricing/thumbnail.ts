@@ -0,0 +1,208 @@
+import { Mesh, Vec3, triangleNormal } from './mesh.ts';
+import { encodePng } from './png.ts';
+
+// ─────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────
+
+// Where the camera looks from; the model's +Z is up in every view
+export type ThumbnailView = 'iso' | 'front' | 'top';
+
+export interface ThumbnailOptions {
+  size?: number;               // square image, pixels
+  color?: [number, number, number];  // RGB of the part, lit by a fixed light
+}
+
+export const DEFAULT_THUMBNAIL_SIZE = 256;
+export const THUMBNAIL_VIEWS: ThumbnailView[] = ['iso', 'front', 'top'];
+
+// Violet, the app's accent colour
+const DEFAULT_COLOR: [number, number, number] = [139, 92, 246];
+// Each output pixel averages SAMPLES × SAMPLES rendered pixels
+const SAMPLES = 2;
+// Empty border around the part, as a fraction of the image
+const MARGIN = 0.06;
+const AMBIENT = 0.3;
+
+interface Camera {
+  right: Vec3;
+  up: Vec3;
+  forward: Vec3;               // from the camera into the scene
+}
+
+const CAMERAS: Record<ThumbnailView, Camera> = {
+  iso: {
+    right: normalize([1, 1, 0]),
+    up: normalize([-1, 1, 2]),
+    forward: normalize([-1, 1, -1]),
+  },
+  front: { right: [1, 0, 0], up: [0, 0, 1], forward: [0, 1, 0] },
+  top: { right: [1, 0, 0], up: [0, 1, 0], forward: [0, 0, -1] },
+};
+
+// Light from the upper left, over the viewer's shoulder (camera space)
+const LIGHT = normalize([-0.4, 0.6, -0.7]);
+
+// ─────────────────────────────────────────────────────────────
+// Main API
+// ─────────────────────────────────────────────────────────────
+
+/**
+ * Render a mesh to a PNG on the CPU
+ *
+ * Orthographic projection scaled to fill the image, a z-buffer and flat
+ * shading from one light. Faces are lit from both sides, so meshes with
+ * bad winding still render. The background is transparent.
+ */
+export function renderThumbnail(mesh: Mesh, view: ThumbnailView = 'iso', options: ThumbnailOptions = {}): Buffer {
+  const size = options.size ?? DEFAULT_THUMBNAIL_SIZE;
+  if (!(Number.isInteger(size) && size > 0)) {
+    throw new Error(`Thumbnail size must be a positive integer: ${size}`);
+  }
+  const [r, g, b] = options.color ?? DEFAULT_COLOR;
+  const { right, up, forward } = CAMERAS[view];
+  const t = mesh.triangles;
+
+  // Project every vertex: screen x/y in mm, depth along the view
+  const projected = new Float32Array(t.length);
+  let minX = Infinity, maxX = -Infinity, minY = Infinity, maxY = -Infinity;
+  for (let i = 0; i < t.length; i += 3) {
+    const p: Vec3 = [t[i], t[i + 1], t[i + 2]];
+    const x = dot(p, right);
+    const y = dot(p, up);
+    projected[i] = x;
+    projected[i + 1] = y;
+    projected[i + 2] = dot(p, forward);
+    if (x < minX) minX = x;
+    if (x > maxX) maxX = x;
+    if (y < minY) minY = y;
+    if (y > maxY) maxY = y;
+  }
+
+  // Fit the part into the image, centered, with y pointing down
+  const full = size * SAMPLES;
+  const extent = Math.max(maxX - minX, maxY - minY);
+  const scale = extent > 0 ? (full * (1 - 2 * MARGIN)) / extent : 1;
+  const offsetX = full / 2 - ((minX + maxX) / 2) * scale;
+  const offsetY = full / 2 + ((minY + maxY) / 2) * scale;
+  for (let i = 0; i < projected.length; i += 3) {
+    projected[i] = offsetX + projected[i] * scale;
+    projected[i + 1] = offsetY - projected[i + 1] * scale;
+  }
+
+  const depth = new Float32Array(full * full).fill(Infinity);
+  const shade = new Float32Array(full * full).fill(-1);
+
+  for (let i = 0; i < t.length; i += 9) {
+    const [nx, ny, nz] = triangleNormal(t, i);
+    const length = Math.sqrt(nx * nx + ny * ny + nz * nz);
+    if (length === 0) continue;
+    const n: Vec3 = [nx / length, ny / length, nz / length];
+    const lit = Math.abs(dot(n, right) * LIGHT[0] + dot(n, up) * LIGHT[1] + dot(n, forward) * LIGHT[2]);
+    rasterize(projected, i, full, depth, shade, AMBIENT + (1 - AMBIENT) * lit);
+  }
+
+  return encodePng(size, size, downsample(shade, size, [r, g, b]));
+}
+
+/**
+ * Render each view as a PNG, in the order given
+ */
+export function renderThumbnails(
+  mesh: Mesh,
+  views: ThumbnailView[] = THUMBNAIL_VIEWS,
+  options: ThumbnailOptions = {}
+): { view: ThumbnailView; png: Buffer }[] {
+  return views.map(view => ({ view, png: renderThumbnail(mesh, view, options) }));
+}
+
+// ─────────────────────────────────────────────────────────────
+// Helpers
+// ─────────────────────────────────────────────────────────────
+
+/**
+ * Fill one projected triangle, sampling at pixel centres, keeping the
+ * nearest surface in each pixel
+ */
+function rasterize(
+  p: Float32Array,
+  i: number,
+  full: number,
+  depth: Float32Array,
+  shade: Float32Array,
+  intensity: number
+): void {
+  const ax = p[i], ay = p[i + 1], az = p[i + 2];
+  const bx = p[i + 3], by = p[i + 4], bz = p[i + 5];
+  const cx = p[i + 6], cy = p[i + 7], cz = p[i + 8];
+
+  const area = (bx - ax) * (cy - ay) - (by - ay) * (cx - ax);
+  if (area === 0) return;
+
+  const x0 = Math.max(0, Math.floor(Math.min(ax, bx, cx)));
+  const x1 = Math.min(full - 1, Math.ceil(Math.max(ax, bx, cx)));
+  const y0 = Math.max(0, Math.floor(Math.min(ay, by, cy)));
+  const y1 = Math.min(full - 1, Math.ceil(Math.max(ay, by, cy)));
+
+  for (let y = y0; y <= y1; y++) {
+    const py = y + 0.5;
+    for (let x = x0; x <= x1; x++) {
+      const px = x + 0.5;
+      // Barycentric weights; all share the sign of `area` inside the triangle
+      const wa = ((bx - px) * (cy - py) - (by - py) * (cx - px)) / area;
+      const wb = ((cx - px) * (ay - py) - (cy - py) * (ax - px)) / area;
+      const wc = 1 - wa - wb;
+      if (wa < 0 || wb < 0 || wc < 0) continue;
+
+      const z = wa * az + wb * bz + wc * cz;
+      const index = y * full + x;
+      if (z < depth[index]) {
+        depth[index] = z;
+        shade[index] = intensity;
+      }
+    }
+  }
+}
+
+/**
+ * Average each SAMPLES × SAMPLES block into one RGBA pixel; uncovered
+ * samples are transparent and fade the edges
+ */
+function downsample(shade: Float32Array, size: number, color: [number, number, number]): Uint8Array {
+  const full = size * SAMPLES;
+  const out = new Uint8Array(size * size * 4);
+
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      let covered = 0;
+      let sum = 0;
+      for (let sy = 0; sy < SAMPLES; sy++) {
+        for (let sx = 0; sx < SAMPLES; sx++) {
+          const s = shade[(y * SAMPLES + sy) * full + x * SAMPLES + sx];
+          if (s < 0) continue;
+          covered++;
+          sum += s;
+        }
+      }
+      if (covered === 0) continue;
+
+      const o = (y * size + x) * 4;
+      const intensity = sum / covered;
+      out[o] = Math.round(color[0] * intensity);
+      out[o + 1] = Math.round(color[1] * intensity);
+      out[o + 2] = Math.round(color[2] * intensity);
+      out[o + 3] = Math.round((255 * covered) / (SAMPLES * SAMPLES));
+    }
+  }
+
+  return out;
+}
+
+function dot(a: Vec3, b: Vec3): number {
+  return a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+}
+
+function normalize(v: Vec3): Vec3 {
+  const length = Math.sqrt(dot(v, v));
+  return [v[0] / length, v[1] / length, v[2] / length];
+}
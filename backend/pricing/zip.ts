@@ -0,0 +1,100 @@
+import { inflateRawSync } from 'zlib';
+
+// Just enough of the ZIP format to read 3MF packages: stored and
+// deflated entries, no ZIP64, no encryption
+
+const END_OF_CENTRAL_DIR = 0x06054b50;
+const CENTRAL_DIR_ENTRY = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+
+const METHOD_STORED = 0;
+const METHOD_DEFLATE = 8;
+
+export interface ZipEntry {
+  name: string;
+  method: number;
+  compressedSize: number;
+  size: number;
+  localHeaderOffset: number;
+}
+
+/**
+ * List the entries in a ZIP archive from its central directory
+ */
+export function listZipEntries(buffer: Buffer): ZipEntry[] {
+  const eocd = findEndOfCentralDirectory(buffer);
+  const count = buffer.readUInt16LE(eocd + 10);
+  let offset = buffer.readUInt32LE(eocd + 16);
+
+  if (count === 0xffff || offset === 0xffffffff) {
+    throw new Error('ZIP64 archives are not supported');
+  }
+
+  const entries: ZipEntry[] = [];
+  for (let i = 0; i < count; i++) {
+    if (offset + 46 > buffer.length || buffer.readUInt32LE(offset) !== CENTRAL_DIR_ENTRY) {
+      throw new Error('Corrupt ZIP central directory');
+    }
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const extraLength = buffer.readUInt16LE(offset + 30);
+    const commentLength = buffer.readUInt16LE(offset + 32);
+
+    entries.push({
+      name: buffer.subarray(offset + 46, offset + 46 + nameLength).toString('utf-8'),
+      method: buffer.readUInt16LE(offset + 10),
+      compressedSize: buffer.readUInt32LE(offset + 20),
+      size: buffer.readUInt32LE(offset + 24),
+      localHeaderOffset: buffer.readUInt32LE(offset + 42),
+    });
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+}
+
+/**
+ * Read and decompress a single entry
+ *
+ * Inflation stops at the size the directory declares, so an entry can't
+ * expand past what the caller checked it against.
+ */
+export function readZipEntry(buffer: Buffer, entry: ZipEntry): Buffer {
+  const offset = entry.localHeaderOffset;
+  if (offset + 30 > buffer.length || buffer.readUInt32LE(offset) !== LOCAL_FILE_HEADER) {
+    throw new Error(`Corrupt ZIP local header for ${entry.name}`);
+  }
+  const start = offset + 30 + buffer.readUInt16LE(offset + 26) + buffer.readUInt16LE(offset + 28);
+  const data = buffer.subarray(start, start + entry.compressedSize);
+
+  switch (entry.method) {
+    case METHOD_STORED:
+      return data;
+    case METHOD_DEFLATE:
+      try {
+        return inflateRawSync(data, { maxOutputLength: Math.max(1, entry.size) });
+      } catch (err) {
+        if ((err as NodeJS.ErrnoException).code === 'ERR_BUFFER_TOO_LARGE') {
+          throw new Error(`ZIP entry ${entry.name} unpacks to more than its declared ${entry.size} bytes`);
+        }
+        throw err;
+      }
+    default:
+      throw new Error(`Unsupported ZIP compression method ${entry.method} for ${entry.name}`);
+  }
+}
+
+export function isZip(buffer: Buffer): boolean {
+  return buffer.length >= 4 && buffer.readUInt32LE(0) === LOCAL_FILE_HEADER;
+}
+
+function findEndOfCentralDirectory(buffer: Buffer): number {
+  // The record is 22 bytes plus a comment of up to 64 KB
+  const stop = Math.max(0, buffer.length - 22 - 0xffff);
+  for (let i = buffer.length - 22; i >= stop; i--) {
+    if (buffer.readUInt32LE(i) === END_OF_CENTRAL_DIR) {
+      return i;
+    }
+  }
+  throw new Error('Not a ZIP archive: end of central directory not found');
+}
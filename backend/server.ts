@@ -12,12 +12,21 @@ dotenv.config({ path: path.join(__dirname, '.env.back') });
 import {
   createLabel,
   getRates,
+  parseRateSelection,
+  packForEstimate,
+  validateAddress,
   getTrackingStatus,
   getTrackingByOrderId,
   getTrackingByNumber,
   updateTracking,
-  LABELS_DIR,
+  readLabel,
+  voidLabel,
+  getShippingProvider,
+  type MockShippingProvider,
+  type PackagingInput,
+  type AddressValidation,
 } from './shipping/index.js';
+import type { Address, Parcel, ShippoWebhookPayload } from './shipping/types.js';
 
 import {
   initOracle,
@@ -36,12 +45,36 @@ const PORT = process.env.PORT || 3001;
 app.use(cors());
 app.use(express.json());
 
-// Serve label PDFs
-app.use('/labels', express.static(LABELS_DIR));
+// Serve label PDFs from the configured storage backend
+app.get('/labels/:fileName', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { fileName } = req.params;
+    if (path.basename(fileName) !== fileName || !fileName.endsWith('.pdf')) {
+      res.status(400).json({ error: 'Invalid label file name' });
+      return;
+    }
+
+    const pdf = await readLabel(fileName);
+    if (!pdf) {
+      res.status(404).json({ error: 'Label not found' });
+      return;
+    }
+
+    res.type('application/pdf').send(Buffer.from(pdf));
+  } catch (error) {
+    next(error);
+  }
+});
 
 // Health check
 app.get('/health', (_req: Request, res: Response) => {
-  res.json({ status: 'ok', timestamp: new Date().toISOString() });
+  let shippingProvider: string | null = null;
+  try {
+    shippingProvider = getShippingProvider().kind;
+  } catch {
+    // Misconfigured; label endpoints report why
+  }
+  res.json({ status: 'ok', shippingProvider, timestamp: new Date().toISOString() });
 });
 
 // ═══════════════════════════════════════════════════════════════════════════
@@ -51,14 +84,17 @@ app.get('/health', (_req: Request, res: Response) => {
 /**
  * POST /api/labels/create
  * Create a shipping label for an order
- * Body: { orderId: string, fromAddress: Address, toAddress: Address, parcel: Parcel }
+ * Body: { orderId: string, fromAddress: Address, toAddress: Address, parcel: Parcel,
+ *         rateId?: string } or { ..., policy?: 'cheapest' | 'fastest', carriers?: string[] }
+ * Without a rateId or policy the cheapest rate from any carrier is bought.
+ * Instead of parcel, estimate: { dimensions, weightGrams } sizes one from the box catalog.
  */
 app.post('/api/labels/create', async (req: Request, res: Response, next: NextFunction) => {
   try {
-    const { orderId, fromAddress, toAddress, parcel } = req.body;
+    const { orderId, rateId, policy, carriers } = req.body;
 
-    if (!orderId || !fromAddress || !toAddress || !parcel) {
-      res.status(400).json({ error: 'Missing required fields: orderId, fromAddress, toAddress, parcel' });
+    if (!orderId || !req.body.fromAddress || !req.body.toAddress || (!req.body.parcel && !req.body.estimate)) {
+      res.status(400).json({ error: 'Missing required fields: orderId, fromAddress, toAddress, parcel or estimate' });
       return;
     }
 
@@ -68,8 +104,34 @@ app.post('/api/labels/create', async (req: Request, res: Response, next: NextFun
       return;
     }
 
-    const label = await createLabel(orderId, { fromAddress, toAddress, parcel });
+    const parsed = parseRateSelection({ rateId, policy, carriers });
+    if (!parsed.ok) {
+      res.status(400).json({ error: parsed.message });
+      return;
+    }
+
+    // Nothing is bought for an address the carrier would bounce
+    const addresses = addressesFromBody(req.body);
+    if (!addresses.ok) {
+      res.status(400).json(addresses.rejection);
+      return;
+    }
+    const { fromAddress, toAddress } = addresses;
+
+    const packed = parcelFromBody(req.body);
+    if (!packed.ok) {
+      res.status(packed.status).json({ error: packed.error });
+      return;
+    }
+    const { parcel, packaging } = packed;
+
+    const result = await createLabel(orderId, { fromAddress, toAddress, parcel }, parsed.selection);
+    if (!result.ok) {
+      res.status(422).json({ error: result.message, reason: result.reason });
+      return;
+    }
 
+    const { label } = result;
     res.json({
       success: true,
       label: {
@@ -78,8 +140,12 @@ app.post('/api/labels/create', async (req: Request, res: Response, next: NextFun
         labelUrl: label.label_url,
         carrier: label.carrier,
         service: label.service,
+        serviceToken: label.service_token,
+        estimatedDays: label.estimated_days,
         rate: label.rate,
       },
+      parcel,
+      packaging,
     });
   } catch (err) {
     next(err);
@@ -89,20 +155,52 @@ app.post('/api/labels/create', async (req: Request, res: Response, next: NextFun
 /**
  * POST /api/labels/rates
  * Get shipping rates without purchasing
- * Body: { fromAddress: Address, toAddress: Address, parcel: Parcel }
+ * Body: { fromAddress: Address, toAddress: Address, parcel: Parcel }, or estimate instead of parcel
  */
 app.post('/api/labels/rates', async (req: Request, res: Response, next: NextFunction) => {
   try {
-    const { fromAddress, toAddress, parcel } = req.body;
+    if (!req.body.fromAddress || !req.body.toAddress || (!req.body.parcel && !req.body.estimate)) {
+      res.status(400).json({ error: 'Missing required fields: fromAddress, toAddress, parcel or estimate' });
+      return;
+    }
 
-    if (!fromAddress || !toAddress || !parcel) {
-      res.status(400).json({ error: 'Missing required fields: fromAddress, toAddress, parcel' });
+    const addresses = addressesFromBody(req.body);
+    if (!addresses.ok) {
+      res.status(400).json(addresses.rejection);
       return;
     }
+    const { fromAddress, toAddress } = addresses;
+
+    const packed = parcelFromBody(req.body);
+    if (!packed.ok) {
+      res.status(packed.status).json({ error: packed.error });
+      return;
+    }
+    const { parcel, packaging } = packed;
 
     const rates = await getRates({ fromAddress, toAddress, parcel });
 
-    res.json({ success: true, rates });
+    res.json({ success: true, rates, parcel, packaging });
+  } catch (err) {
+    next(err);
+  }
+});
+
+/**
+ * POST /api/labels/:orderId/void
+ * Void an order's label before it is used, refunding the postage
+ */
+app.post('/api/labels/:orderId/void', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { orderId } = req.params;
+
+    if (!getTrackingByOrderId(orderId)) {
+      res.status(404).json({ error: 'Label not found for this order' });
+      return;
+    }
+
+    const tracking = await voidLabel(orderId);
+    res.json({ success: true, tracking });
   } catch (err) {
     next(err);
   }
@@ -124,6 +222,74 @@ app.get('/api/labels/:orderId', (req: Request, res: Response) => {
   res.json({ success: true, tracking });
 });
 
+/**
+ * Both addresses of a label request, normalized, or a 400 body naming
+ * every problem and the corrections made so far
+ */
+function addressesFromBody(body: { fromAddress?: unknown; toAddress?: unknown }):
+  | { ok: true; fromAddress: Address; toAddress: Address }
+  | { ok: false; rejection: { error: string; fromAddress: AddressValidation; toAddress: AddressValidation } } {
+  const from = validateAddress(body.fromAddress);
+  const to = validateAddress(body.toAddress);
+  if (from.valid && to.valid) {
+    return { ok: true, fromAddress: from.address, toAddress: to.address };
+  }
+
+  const problems = [
+    ...from.issues.map(issue => `fromAddress.${issue.field}: ${issue.message}`),
+    ...to.issues.map(issue => `toAddress.${issue.field}: ${issue.message}`),
+  ];
+  return { ok: false, rejection: { error: `Invalid address. ${problems.join('; ')}`, fromAddress: from, toAddress: to } };
+}
+
+/**
+ * The parcel sent with a label request, or one sized from the print
+ * estimate's { dimensions (mm), weightGrams } when no parcel was sent
+ */
+function parcelFromBody(body: { parcel?: Parcel; estimate?: PackagingInput }):
+  | { ok: true; parcel: Parcel; packaging: { box: string; name: string; packedWeightGrams: number } | null }
+  | { ok: false; status: number; error: string } {
+  if (body.parcel) {
+    return { ok: true, parcel: body.parcel, packaging: null };
+  }
+
+  const { dimensions, weightGrams } = body.estimate ?? {};
+  if (!dimensions || typeof dimensions !== 'object' || typeof weightGrams !== 'number') {
+    return { ok: false, status: 400, error: 'estimate needs dimensions { x, y, z } in mm and weightGrams' };
+  }
+
+  const packed = packForEstimate({ dimensions, weightGrams });
+  if (!packed.ok) {
+    return { ok: false, status: packed.reason === 'invalid-estimate' ? 400 : 422, error: packed.message };
+  }
+  return {
+    ok: true,
+    parcel: packed.parcel,
+    packaging: { box: packed.box.key, name: packed.box.name, packedWeightGrams: packed.packedWeightGrams },
+  };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// ADDRESS ENDPOINTS
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * POST /api/addresses/validate
+ * Check and normalize an address before it is used for a label
+ * Body: { address: Address }
+ * Returns { valid, address (normalized), issues, corrections }; invalid is still a 200
+ */
+app.post('/api/addresses/validate', (req: Request, res: Response) => {
+  const { address } = req.body;
+
+  if (!address || typeof address !== 'object') {
+    res.status(400).json({ error: 'Missing required field: address' });
+    return;
+  }
+
+  res.json({ success: true, ...validateAddress(address) });
+});
+
 // ═══════════════════════════════════════════════════════════════════════════
 // TRACKING ENDPOINTS
 // ═══════════════════════════════════════════════════════════════════════════
@@ -156,7 +322,7 @@ app.post('/api/tracking/create', (req: Request, res: Response) => {
 
 /**
  * GET /api/tracking/:trackingNumber
- * Get current tracking status from Shippo
+ * Get current tracking status from the shipping provider
  */
 app.get('/api/tracking/:trackingNumber', async (req: Request, res: Response, next: NextFunction) => {
   try {
@@ -166,7 +332,7 @@ app.get('/api/tracking/:trackingNumber', async (req: Request, res: Response, nex
     // First check our local database
     const localRecord = getTrackingByNumber(trackingNumber);
 
-    // Then get live status from Shippo
+    // Then get live status from the provider
     const liveStatus = await getTrackingStatus(carrier, trackingNumber);
 
     res.json({
@@ -184,35 +350,6 @@ app.get('/api/tracking/:trackingNumber', async (req: Request, res: Response, nex
 // SHIPPO WEBHOOK
 // ═══════════════════════════════════════════════════════════════════════════
 
-/**
- * Shippo tracking status values:
- * - UNKNOWN: Initial state
- * - PRE_TRANSIT: Label created, not yet picked up
- * - TRANSIT: In transit
- * - DELIVERED: Delivered
- * - RETURNED: Returned to sender
- * - FAILURE: Delivery failed
- */
-
-interface ShippoWebhookPayload {
-  event: string;
-  data: {
-    tracking_number: string;
-    carrier: string;
-    tracking_status: {
-      status: string;
-      status_details: string;
-      status_date: string;
-      location?: {
-        city?: string;
-        state?: string;
-        country?: string;
-      };
-    };
-    eta?: string;
-  };
-}
-
 /**
  * POST /webhook/shippo
  * Receive tracking updates from Shippo
@@ -229,70 +366,104 @@ app.post('/webhook/shippo', async (req: Request, res: Response, next: NextFuncti
       return;
     }
 
-    const { tracking_number, tracking_status } = payload.data;
-    const status = tracking_status.status;
-    const statusDate = tracking_status.status_date;
+    res.json(await applyTrackingUpdate(payload));
+  } catch (err) {
+    next(err);
+  }
+});
+
+/**
+ * POST /api/mock/tracking/:trackingNumber
+ * Move a mock parcel along and process the webhook it produces (mock provider only)
+ * Body: { status: 'TRANSIT' | 'DELIVERED' | ..., details?: string }
+ */
+app.post('/api/mock/tracking/:trackingNumber', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { trackingNumber } = req.params;
+    const { status, details } = req.body;
 
-    // Find the order by tracking number
-    const record = getTrackingByNumber(tracking_number);
-    if (!record) {
-      console.log(`No order found for tracking number: ${tracking_number}`);
-      res.status(200).json({ received: true, processed: false, reason: 'unknown tracking number' });
+    const provider = getShippingProvider();
+    if (provider.kind !== 'mock') {
+      res.status(404).json({ error: 'Tracking simulation needs SHIPPING_PROVIDER=mock' });
       return;
     }
-
-    const orderId = record.orderId;
-    console.log(`Processing webhook for order ${orderId}, status: ${status}`);
-
-    // Update local tracking record
-    const updates: Partial<typeof record> = {
-      status,
-      lastWebhook: new Date().toISOString(),
-    };
-
-    // Handle status transitions
-    let oracleUpdated = false;
-
-    if (status === 'TRANSIT' && !record.shippedAt) {
-      // Package is in transit - mark as shipped on-chain
-      try {
-        await markShippedOnChain(orderId);
-        updates.shippedAt = Math.floor(new Date(statusDate).getTime() / 1000);
-        oracleUpdated = true;
-        console.log(`Order ${orderId} marked as SHIPPED on-chain`);
-      } catch (err) {
-        console.error(`Failed to mark shipped on-chain:`, err);
-      }
-    }
-
-    if (status === 'DELIVERED' && !record.deliveredAt) {
-      // Package delivered - mark as delivered on-chain
-      const deliveryTimestamp = Math.floor(new Date(statusDate).getTime() / 1000);
-      try {
-        await markDeliveredOnChain(orderId, deliveryTimestamp);
-        updates.deliveredAt = deliveryTimestamp;
-        oracleUpdated = true;
-        console.log(`Order ${orderId} marked as DELIVERED on-chain`);
-      } catch (err) {
-        console.error(`Failed to mark delivered on-chain:`, err);
-      }
+    if (!status) {
+      res.status(400).json({ error: 'Missing required field: status' });
+      return;
     }
 
-    // Save updates to local database
-    updateTracking(orderId, updates);
-
-    res.json({
-      received: true,
-      processed: true,
-      orderId,
-      status,
-      oracleUpdated,
-    });
+    const payload = (provider as MockShippingProvider).simulateTracking(trackingNumber, status, details);
+    res.json({ payload, result: await applyTrackingUpdate(payload) });
   } catch (err) {
     next(err);
   }
 });
 
+/**
+ * Apply a tracking update to the order it belongs to: save the status and
+ * mark the order shipped or delivered on-chain the first time it gets there
+ */
+async function applyTrackingUpdate(payload: ShippoWebhookPayload) {
+  const { tracking_number, tracking_status } = payload.data;
+  const status = tracking_status.status;
+  const statusDate = tracking_status.status_date;
+
+  // Find the order by tracking number
+  const record = getTrackingByNumber(tracking_number);
+  if (!record) {
+    console.log(`No order found for tracking number: ${tracking_number}`);
+    return { received: true, processed: false, reason: 'unknown tracking number' };
+  }
+
+  const orderId = record.orderId;
+  console.log(`Processing webhook for order ${orderId}, status: ${status}`);
+
+  // Update local tracking record
+  const updates: Partial<typeof record> = {
+    status,
+    lastWebhook: new Date().toISOString(),
+  };
+
+  // Handle status transitions
+  let oracleUpdated = false;
+
+  if (status === 'TRANSIT' && !record.shippedAt) {
+    // Package is in transit - mark as shipped on-chain
+    try {
+      await markShippedOnChain(orderId);
+      updates.shippedAt = Math.floor(new Date(statusDate).getTime() / 1000);
+      oracleUpdated = true;
+      console.log(`Order ${orderId} marked as SHIPPED on-chain`);
+    } catch (err) {
+      console.error(`Failed to mark shipped on-chain:`, err);
+    }
+  }
+
+  if (status === 'DELIVERED' && !record.deliveredAt) {
+    // Package delivered - mark as delivered on-chain
+    const deliveryTimestamp = Math.floor(new Date(statusDate).getTime() / 1000);
+    try {
+      await markDeliveredOnChain(orderId, deliveryTimestamp);
+      updates.deliveredAt = deliveryTimestamp;
+      oracleUpdated = true;
+      console.log(`Order ${orderId} marked as DELIVERED on-chain`);
+    } catch (err) {
+      console.error(`Failed to mark delivered on-chain:`, err);
+    }
+  }
+
+  // Save updates to local database
+  updateTracking(orderId, updates);
+
+  return {
+    received: true,
+    processed: true,
+    orderId,
+    status,
+    oracleUpdated,
+  };
+}
+
 // ═══════════════════════════════════════════════════════════════════════════
 // ORACLE ENDPOINTS (for debugging/admin)
 // ═══════════════════════════════════════════════════════════════════════════
@@ -414,14 +585,23 @@ async function start() {
     console.warn('Set BACKEND_PRIVATE_KEY and ORACLE_ADDRESS to enable on-chain updates.');
   }
 
+  try {
+    console.log(`Shipping provider: ${getShippingProvider().kind}`);
+  } catch (err) {
+    console.warn('Shipping provider unavailable:', (err as Error).message);
+  }
+
   app.listen(PORT, () => {
     console.log(`\n🚀 Shipping server running on http://localhost:${PORT}`);
     console.log('\nEndpoints:');
     console.log('  POST /api/labels/create     - Create shipping label');
     console.log('  POST /api/labels/rates      - Get shipping rates');
     console.log('  GET  /api/labels/:orderId   - Get label info');
+    console.log('  POST /api/labels/:id/void   - Void an unused label');
+    console.log('  POST /api/addresses/validate - Check and normalize an address');
     console.log('  GET  /api/tracking/:num     - Get tracking status');
     console.log('  POST /webhook/shippo        - Shippo webhook receiver');
+    console.log('  POST /api/mock/tracking/:num - Simulate tracking (mock provider)');
     console.log('  GET  /api/oracle/status/:id - Get on-chain status');
     console.log('  GET  /api/oracle/wallet     - Get backend wallet balance');
     console.log('');
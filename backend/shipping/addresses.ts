@@ -0,0 +1,250 @@
+import type { Address } from './types.ts';
+
+// Kept free of Node APIs, like packaging.ts, so forms can check as you type
+
+// ─────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────
+
+export type AddressField = keyof Address;
+
+export interface AddressIssue {
+  field: AddressField;
+  message: string;
+  suggestion?: string;       // a likely fix, not applied
+}
+
+// A change made while normalizing, so it can be shown before buying a label
+export interface AddressCorrection {
+  field: AddressField;
+  original: string;
+  corrected: string;
+}
+
+export interface AddressValidation {
+  valid: boolean;
+  address: Address;          // normalized, also when invalid
+  issues: AddressIssue[];
+  corrections: AddressCorrection[];
+}
+
+interface PostalFormat {
+  pattern: RegExp;           // matched against the code uppercased, without spaces or hyphens
+  format: (compact: string) => string;
+  example: string;
+}
+
+interface CountryRules {
+  name: string;
+  stateRequired: boolean;
+  states?: Record<string, string>;   // code -> name; free text when unset
+  postal: PostalFormat;
+}
+
+const US_STATES: Record<string, string> = {
+  AL: 'Alabama', AK: 'Alaska', AZ: 'Arizona', AR: 'Arkansas', CA: 'California',
+  CO: 'Colorado', CT: 'Connecticut', DE: 'Delaware', DC: 'District of Columbia', FL: 'Florida',
+  GA: 'Georgia', HI: 'Hawaii', ID: 'Idaho', IL: 'Illinois', IN: 'Indiana',
+  IA: 'Iowa', KS: 'Kansas', KY: 'Kentucky', LA: 'Louisiana', ME: 'Maine',
+  MD: 'Maryland', MA: 'Massachusetts', MI: 'Michigan', MN: 'Minnesota', MS: 'Mississippi',
+  MO: 'Missouri', MT: 'Montana', NE: 'Nebraska', NV: 'Nevada', NH: 'New Hampshire',
+  NJ: 'New Jersey', NM: 'New Mexico', NY: 'New York', NC: 'North Carolina', ND: 'North Dakota',
+  OH: 'Ohio', OK: 'Oklahoma', OR: 'Oregon', PA: 'Pennsylvania', RI: 'Rhode Island',
+  SC: 'South Carolina', SD: 'South Dakota', TN: 'Tennessee', TX: 'Texas', UT: 'Utah',
+  VT: 'Vermont', VA: 'Virginia', WA: 'Washington', WV: 'West Virginia', WI: 'Wisconsin',
+  WY: 'Wyoming', PR: 'Puerto Rico', GU: 'Guam', VI: 'Virgin Islands', AS: 'American Samoa',
+  MP: 'Northern Mariana Islands', AA: 'Armed Forces Americas', AE: 'Armed Forces Europe',
+  AP: 'Armed Forces Pacific',
+};
+
+const CA_PROVINCES: Record<string, string> = {
+  AB: 'Alberta', BC: 'British Columbia', MB: 'Manitoba', NB: 'New Brunswick',
+  NL: 'Newfoundland and Labrador', NS: 'Nova Scotia', NT: 'Northwest Territories',
+  NU: 'Nunavut', ON: 'Ontario', PE: 'Prince Edward Island', QC: 'Quebec',
+  SK: 'Saskatchewan', YT: 'Yukon',
+};
+
+const AU_STATES: Record<string, string> = {
+  ACT: 'Australian Capital Territory', NSW: 'New South Wales', NT: 'Northern Territory',
+  QLD: 'Queensland', SA: 'South Australia', TAS: 'Tasmania', VIC: 'Victoria',
+  WA: 'Western Australia',
+};
+
+const FIVE_DIGITS: PostalFormat = { pattern: /^\d{5}$/, format: c => c, example: '10115' };
+
+// Countries we ship to most; others get the basic checks only
+const COUNTRIES: Record<string, CountryRules> = {
+  US: {
+    name: 'United States',
+    stateRequired: true,
+    states: US_STATES,
+    postal: {
+      pattern: /^\d{5}(\d{4})?$/,
+      format: c => (c.length === 9 ? `${c.slice(0, 5)}-${c.slice(5)}` : c),
+      example: '90277 or 90277-1234',
+    },
+  },
+  CA: {
+    name: 'Canada',
+    stateRequired: true,
+    states: CA_PROVINCES,
+    postal: { pattern: /^[A-Z]\d[A-Z]\d[A-Z]\d$/, format: c => `${c.slice(0, 3)} ${c.slice(3)}`, example: 'K1A 0B1' },
+  },
+  MX: { name: 'Mexico', stateRequired: true, postal: FIVE_DIGITS },
+  GB: {
+    name: 'United Kingdom',
+    stateRequired: false,
+    postal: {
+      pattern: /^[A-Z]{1,2}\d[A-Z\d]?\d[A-Z]{2}$/,
+      format: c => `${c.slice(0, -3)} ${c.slice(-3)}`,
+      example: 'SW1A 1AA',
+    },
+  },
+  DE: { name: 'Germany', stateRequired: false, postal: FIVE_DIGITS },
+  FR: { name: 'France', stateRequired: false, postal: FIVE_DIGITS },
+  AU: {
+    name: 'Australia',
+    stateRequired: true,
+    states: AU_STATES,
+    postal: { pattern: /^\d{4}$/, format: c => c, example: '2000' },
+  },
+  JP: {
+    name: 'Japan',
+    stateRequired: true,
+    postal: { pattern: /^\d{7}$/, format: c => `${c.slice(0, 3)}-${c.slice(3)}`, example: '100-0001' },
+  },
+};
+
+// Country names people type instead of the ISO code
+const COUNTRY_ALIASES: Record<string, string> = {
+  USA: 'US', 'UNITED STATES': 'US', 'UNITED STATES OF AMERICA': 'US',
+  CANADA: 'CA', MEXICO: 'MX',
+  UK: 'GB', 'UNITED KINGDOM': 'GB', 'GREAT BRITAIN': 'GB', ENGLAND: 'GB', SCOTLAND: 'GB', WALES: 'GB',
+  GERMANY: 'DE', DEUTSCHLAND: 'DE', FRANCE: 'FR', AUSTRALIA: 'AU', JAPAN: 'JP',
+};
+
+const REQUIRED_FIELDS: AddressField[] = ['name', 'street1', 'city', 'country'];
+const TEXT_FIELDS: AddressField[] = ['name', 'street1', 'street2', 'city', 'state', 'zip', 'country', 'phone'];
+
+// ─────────────────────────────────────────────────────────────
+// Main API
+// ─────────────────────────────────────────────────────────────
+
+/**
+ * Check an address a carrier will be asked to ship to or from, and
+ * normalize it: ISO country code, state or province code, and the postal
+ * code in its country's usual form. Each change is listed in
+ * `corrections`; problems that need the sender's input are `issues`,
+ * sometimes with a suggestion.
+ */
+export function validateAddress(input: unknown): AddressValidation {
+  const raw = (input && typeof input === 'object' ? input : {}) as Record<string, unknown>;
+  const issues: AddressIssue[] = [];
+  const corrections: AddressCorrection[] = [];
+
+  // Collapse whitespace; anything that isn't text is missing
+  const text: Record<AddressField, string> = {} as Record<AddressField, string>;
+  for (const field of TEXT_FIELDS) {
+    const value = raw[field];
+    if (value !== undefined && value !== null && typeof value !== 'string') {
+      issues.push({ field, message: `${field} must be text` });
+    }
+    text[field] = typeof value === 'string' ? value.replace(/\s+/g, ' ').trim() : '';
+  }
+
+  const correct = (field: AddressField, corrected: string) => {
+    if (corrected !== text[field]) {
+      corrections.push({ field, original: text[field], corrected });
+      text[field] = corrected;
+    }
+  };
+
+  for (const field of REQUIRED_FIELDS) {
+    if (!text[field] && !issues.some(issue => issue.field === field)) {
+      issues.push({ field, message: `${field} is required` });
+    }
+  }
+
+  // Country
+  if (text.country) {
+    const upper = text.country.toUpperCase().replace(/\./g, '');
+    const code = COUNTRY_ALIASES[upper] ?? upper;
+    if (/^[A-Z]{2}$/.test(code)) {
+      correct('country', code);
+    } else {
+      issues.push({ field: 'country', message: 'country must be a two-letter ISO code, e.g. US' });
+    }
+  }
+  const rules = COUNTRIES[text.country];
+
+  // State, province or prefecture
+  if (rules?.stateRequired && !text.state) {
+    issues.push({ field: 'state', message: `state is required for ${rules.name}` });
+  } else if (rules?.states && text.state) {
+    const code = findStateCode(text.state, rules.states);
+    if (code) {
+      correct('state', code);
+    } else {
+      issues.push({
+        field: 'state',
+        message: `${text.state} is not a ${rules.name} state or province code`,
+        suggestion: closestStateCode(text.state, rules.states),
+      });
+    }
+  }
+
+  // Postal code
+  if (rules && !text.zip) {
+    issues.push({ field: 'zip', message: `zip is required for ${rules.name}` });
+  } else if (rules && text.zip) {
+    const compact = text.zip.toUpperCase().replace(/[\s-]/g, '');
+    if (rules.postal.pattern.test(compact)) {
+      correct('zip', rules.postal.format(compact));
+    } else {
+      issues.push({
+        field: 'zip',
+        message: `${text.zip} is not a ${rules.name} postal code, e.g. ${rules.postal.example}`,
+        // Spreadsheets drop the leading zero of New England ZIPs
+        suggestion: text.country === 'US' && /^\d{4}$/.test(compact) ? `0${compact}` : undefined,
+      });
+    }
+  }
+
+  const address: Address = {
+    name: text.name,
+    street1: text.street1,
+    city: text.city,
+    state: text.state,
+    zip: text.zip,
+    country: text.country,
+  };
+  if (text.street2) address.street2 = text.street2;
+  if (text.phone) address.phone = text.phone;
+
+  return { valid: issues.length === 0, address, issues, corrections };
+}
+
+// ─────────────────────────────────────────────────────────────
+// Helpers
+// ─────────────────────────────────────────────────────────────
+
+// "ca" and "California" both mean CA
+function findStateCode(state: string, states: Record<string, string>): string | null {
+  const key = comparable(state);
+  const codes = Object.keys(states);
+  return codes.find(code => code === key)
+    ?? codes.find(code => comparable(states[code]) === key)
+    ?? null;
+}
+
+// The one state whose name starts like the input, e.g. "Calif." -> CA
+function closestStateCode(state: string, states: Record<string, string>): string | undefined {
+  const key = comparable(state);
+  if (key.length < 3) return undefined;
+  const matches = Object.keys(states).filter(code => comparable(states[code]).startsWith(key));
+  return matches.length === 1 ? matches[0] : undefined;
+}
+
+function comparable(text: string): string {
+  return text.toUpperCase().replace(/[^A-Z]/g, '');
+}
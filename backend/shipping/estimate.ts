@@ -0,0 +1,141 @@
+import { createMockProvider } from './mock.ts';
+import { packParcel, type PackagingInput, type PackagingOptions } from './packaging.ts';
+import { selectRate, type RatePolicy } from './rates.ts';
+import { shippingZone, type ShippingRegion } from './zones.ts';
+import type { ShippingProvider } from './providers.ts';
+import type { Address, LabelRequest, Parcel } from './types.ts';
+
+export type { ShippingRegion } from './zones.ts';
+
+// ─────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────
+
+export interface ShippingEstimateOptions extends PackagingOptions {
+  provider?: ShippingProvider;   // default the mock's zone and rate table
+  policy?: RatePolicy;           // default cheapest
+  marginPercent?: number;        // added to table prices that stand in for a live carrier
+}
+
+export type ShippingEstimate =
+  | {
+      ok: true;
+      cost: number;                // USD, margin included
+      approximate: boolean;        // priced from the table, not the carrier that will ship it
+      marginPercent: number;       // 0 unless approximate
+      carrier: string;
+      service: string;
+      serviceToken: string;
+      estimatedDays: number | null;
+      zone: number;                // 1-8 within a country, 9 between countries
+      parcel: Parcel;
+      box: string;                 // key in the box catalog
+      boxName: string;
+      packedWeightGrams: number;
+    }
+  | { ok: false; reason: 'invalid-estimate' | 'no-box-fits' | 'no-rates'; message: string };
+
+// ─────────────────────────────────────────────────────────────
+// Main API
+// ─────────────────────────────────────────────────────────────
+
+// Zones and prices without a network; the same table the mock provider charges
+const tableProvider = createMockProvider();
+
+// Headroom on table prices when labels are bought from a live carrier
+export const DEFAULT_ESTIMATE_MARGIN_PERCENT = 20;
+
+/**
+ * Estimate what shipping a printed part will cost
+ *
+ * The part is boxed with packParcel() and the parcel priced for the zone
+ * between the two regions. Without a provider the mock's table is used,
+ * which is exactly what a mock label costs. When SHIPPING_PROVIDER names
+ * a live carrier the table only approximates its label, so the estimate
+ * is marked approximate and the margin added on top.
+ */
+export async function estimateShipping(
+  input: PackagingInput,
+  from: ShippingRegion,
+  to: ShippingRegion,
+  options: ShippingEstimateOptions = {}
+): Promise<ShippingEstimate> {
+  const packed = packParcel(input, options);
+  if (!packed.ok) return packed;
+
+  const provider = options.provider ?? tableProvider;
+  const approximate = !options.provider && configuredProviderKind() !== 'mock';
+  const marginPercent = approximate ? options.marginPercent ?? DEFAULT_ESTIMATE_MARGIN_PERCENT : 0;
+  const request: LabelRequest = {
+    fromAddress: regionAddress(from),
+    toAddress: regionAddress(to),
+    parcel: packed.parcel,
+  };
+
+  // Quotes are in USD
+  const rates = (await provider.getRates(request)).filter(rate => rate.currency === 'USD');
+  const choice = selectRate(rates, { policy: options.policy });
+  if (!choice.ok) {
+    return { ok: false, reason: 'no-rates', message: choice.message };
+  }
+
+  return {
+    ok: true,
+    cost: Math.round(parseFloat(choice.rate.amount) * (100 + marginPercent)) / 100,
+    approximate,
+    marginPercent,
+    carrier: choice.rate.carrier,
+    service: choice.rate.service,
+    serviceToken: choice.rate.serviceToken,
+    estimatedDays: choice.rate.estimatedDays,
+    zone: shippingZone(from, to),
+    parcel: packed.parcel,
+    box: packed.box.key,
+    boxName: packed.box.name,
+    packedWeightGrams: packed.packedWeightGrams,
+  };
+}
+
+/**
+ * Read a region from a request body, or say what's wrong with it
+ */
+export function parseShippingRegion(value: unknown): { ok: true; region: ShippingRegion } | { ok: false; message: string } {
+  const { country, zip } = (value ?? {}) as { country?: unknown; zip?: unknown };
+
+  if (typeof country !== 'string' || !/^[A-Za-z]{2}$/.test(country.trim())) {
+    return { ok: false, message: 'country must be a two-letter country code, e.g. US' };
+  }
+  if (zip !== undefined && (typeof zip !== 'string' || !/^[A-Za-z0-9][A-Za-z0-9 -]{0,9}$/.test(zip.trim()))) {
+    return { ok: false, message: 'zip must be a postal code of up to 10 letters and digits' };
+  }
+
+  return {
+    ok: true,
+    region: {
+      country: country.trim().toUpperCase(),
+      zip: typeof zip === 'string' ? zip.trim().toUpperCase() : undefined,
+    },
+  };
+}
+
+// ─────────────────────────────────────────────────────────────
+// Helpers
+// ─────────────────────────────────────────────────────────────
+
+// Same default as shippingProviderFromEnv(), which can't be imported here:
+// it loads the Shippo SDK, and this module runs in the Next app too
+function configuredProviderKind(): string {
+  return (process.env.SHIPPING_PROVIDER || 'shippo').toLowerCase();
+}
+
+// Just enough of an address for zone pricing
+function regionAddress(region: ShippingRegion): Address {
+  return {
+    name: '',
+    street1: '',
+    city: '',
+    state: '',
+    zip: region.zip ?? '',
+    country: region.country,
+  };
+}
@@ -1,22 +1,95 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import { fileURLToPath } from 'url';
-import { Shippo } from 'shippo';
-import { Address, Parcel, Label, LabelRequest } from './types.js';
+import { Label, LabelRequest } from './types.js';
+import { storageBackendFromEnv, type StorageBackend } from '../storage/index.ts';
+import {
+  shippingProviderFromEnv,
+  type ShippingProvider,
+  type ShippingProviderKind,
+  type ShippingRate,
+  type TrackingStatus,
+  type VoidStatus,
+} from './providers.ts';
+import { selectRate, type RateSelection } from './rates.ts';
+import {
+  packParcel,
+  parseBoxCatalog,
+  DEFAULT_BOXES,
+  type PackagingInput,
+  type PackagingResult,
+  type ShippingBox,
+} from './packaging.ts';
+
+export { shippingProviderFromEnv, SHIPPING_PROVIDERS } from './providers.ts';
+export type {
+  ShippingProvider,
+  ShippingProviderKind,
+  ShippingRate,
+  PurchasedLabel,
+  TrackingStatus,
+  VoidStatus,
+} from './providers.ts';
+export { createShippoProvider } from './shippo.ts';
+export { createMockProvider } from './mock.ts';
+export type { MockShippingProvider } from './mock.ts';
+export { selectRate, parseRateSelection, RATE_POLICIES } from './rates.ts';
+export type { RatePolicy, RateSelection, RateChoice } from './rates.ts';
+export { packParcel, parseBoxCatalog, DEFAULT_BOXES, DEFAULT_PADDING_MM, DEFAULT_FILL_GRAMS_PER_LITRE } from './packaging.ts';
+export type { ShippingBox, BoxCatalog, PackagingInput, PackagingOptions, PackagingResult } from './packaging.ts';
+export { estimateShipping, parseShippingRegion, DEFAULT_ESTIMATE_MARGIN_PERCENT } from './estimate.ts';
+export { shippingZone, INTERNATIONAL_ZONE, DEFAULT_DOMESTIC_ZONE } from './zones.ts';
+export { validateAddress } from './addresses.ts';
+export type { AddressField, AddressIssue, AddressCorrection, AddressValidation } from './addresses.ts';
+export type { ShippingRegion, ShippingEstimateOptions, ShippingEstimate } from './estimate.ts';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
-// Initialize Shippo client
-const shippo = new Shippo({ apiKeyHeader: process.env.SHIPPO_KEY || '' });
-
 // Paths
 const LABELS_DIR = path.join(__dirname, '..', 'labels');
 const TRACKING_FILE = path.join(__dirname, 'tracking.json');
 
-// Ensure labels directory exists
-if (!fs.existsSync(LABELS_DIR)) {
-  fs.mkdirSync(LABELS_DIR, { recursive: true });
+// Label PDFs go to the configured storage backend (LABELS_DIR when local).
+// Built on first use: imports run before server.ts loads .env.back
+let labelStorage: StorageBackend | null = null;
+
+function getLabelStorage(): StorageBackend {
+  if (!labelStorage) {
+    labelStorage = storageBackendFromEnv('labels', LABELS_DIR);
+  }
+  return labelStorage;
+}
+
+// The carrier API picked by SHIPPING_PROVIDER, built on first use likewise
+let shippingProvider: ShippingProvider | null = null;
+
+export function getShippingProvider(): ShippingProvider {
+  if (!shippingProvider) {
+    shippingProvider = shippingProviderFromEnv();
+  }
+  return shippingProvider;
+}
+
+// Boxes for parcels sized from a print estimate: boxes.json, or the file
+// named by BOX_CATALOG in the same format. Read on first use likewise
+let boxCatalog: ShippingBox[] | null = null;
+
+export function getBoxCatalog(): ShippingBox[] {
+  if (!boxCatalog) {
+    const file = process.env.BOX_CATALOG;
+    boxCatalog = file ? parseBoxCatalog(JSON.parse(fs.readFileSync(file, 'utf-8'))) : DEFAULT_BOXES;
+  }
+  return boxCatalog;
+}
+
+/**
+ * Size a parcel for a printed part from the configured box catalog
+ * @param estimate - The part's dimensions (mm) and weight (g) from its print estimate
+ * @returns The parcel in inches and ounces, and the box picked
+ */
+export function packForEstimate(estimate: PackagingInput): PackagingResult {
+  return packParcel(estimate, { boxes: getBoxCatalog() });
 }
 
 // Tracking record interface
@@ -25,9 +98,16 @@ export interface TrackingRecord {
   trackingNumber: string;
   carrier: string;
   service: string;
+  serviceToken: string;      // service level bought, e.g. "usps_priority"
+  estimatedDays: number | null;
+  rate: string;              // postage paid
+  currency: string;
+  provider: ShippingProviderKind | '';   // who sold the label; '' for records made by hand
+  transactionId: string;     // the provider's id for the purchase, used to void it
   labelUrl: string;
   localLabelPath: string;
   status: string;
+  voidStatus: VoidStatus | null;   // set once a void is requested
   shippedAt: number | null;
   deliveredAt: number | null;
   lastWebhook: string | null;
@@ -74,9 +154,16 @@ export function updateTracking(orderId: string, updates: Partial<TrackingRecord>
       trackingNumber: updates.trackingNumber || '',
       carrier: updates.carrier || 'usps',
       service: updates.service || '',
+      serviceToken: updates.serviceToken || '',
+      estimatedDays: updates.estimatedDays ?? null,
+      rate: updates.rate || '',
+      currency: updates.currency || '',
+      provider: updates.provider || '',
+      transactionId: updates.transactionId || '',
       labelUrl: updates.labelUrl || '',
       localLabelPath: updates.localLabelPath || '',
       status: updates.status || 'UNKNOWN',
+      voidStatus: null,
       shippedAt: null,
       deliveredAt: null,
       lastWebhook: null,
@@ -89,118 +176,90 @@ export function updateTracking(orderId: string, updates: Partial<TrackingRecord>
   return tracking[orderId];
 }
 
-// Convert Address to Shippo format
-function toShippoAddress(addr: Address) {
-  return {
-    name: addr.name,
-    street1: addr.street1,
-    street2: addr.street2 || '',
-    city: addr.city,
-    state: addr.state,
-    zip: addr.zip,
-    country: addr.country,
-    phone: addr.phone || '',
-  };
-}
-
-// Convert Parcel to Shippo format
-function toShippoParcel(parcel: Parcel) {
-  return {
-    length: String(parcel.length),
-    width: String(parcel.width),
-    height: String(parcel.height),
-    distanceUnit: 'in' as const,
-    weight: String(parcel.weight),
-    massUnit: 'oz' as const,
-  };
-}
+export type LabelResult =
+  | { ok: true; label: Label }
+  | { ok: false; reason: 'unknown-rate' | 'no-rates' | 'no-matching-rate'; message: string };
 
 /**
- * Create a shipping label using Shippo
+ * Buy a shipping label from the configured provider
  * @param orderId - The escrow order ID (bytes32 hex string)
  * @param labelRequest - From address (seller), to address (buyer), and parcel dimensions
- * @returns Label info including tracking number and label URL
+ * @param selection - The buyer's rate id, or a policy and carriers (default: cheapest of any carrier)
+ * @returns Label info including tracking number and label URL, or why no rate could be bought
  */
 export async function createLabel(
   orderId: string,
-  labelRequest: LabelRequest
-): Promise<Label> {
-  const { fromAddress, toAddress, parcel } = labelRequest;
-
-  // Create shipment using Shippo SDK
-  const shipment = await shippo.shipments.create({
-    addressFrom: toShippoAddress(fromAddress),
-    addressTo: toShippoAddress(toAddress),
-    parcels: [toShippoParcel(parcel)],
-    async: false,
-  });
-
-  if (!shipment.rates || shipment.rates.length === 0) {
-    throw new Error('No shipping rates available for this shipment');
-  }
+  labelRequest: LabelRequest,
+  selection: RateSelection = {}
+): Promise<LabelResult> {
+  const provider = getShippingProvider();
 
-  // Find cheapest USPS rate, fallback to cheapest overall
-  const uspsRates = shipment.rates.filter(r => 
-    r.provider?.toLowerCase().includes('usps')
-  );
-  
-  const sortedRates = (uspsRates.length > 0 ? uspsRates : shipment.rates)
-    .sort((a, b) => parseFloat(a.amount || '999') - parseFloat(b.amount || '999'));
-  
-  const selectedRate = sortedRates[0];
+  let selectedRate: ShippingRate;
+  if (selection.rateId) {
+    const rate = await provider.getRate(selection.rateId, labelRequest);
+    if (!rate) {
+      return {
+        ok: false,
+        reason: 'unknown-rate',
+        message: 'That rate is unknown or was quoted for a different shipment. Fetch fresh rates and choose again.',
+      };
+    }
+    selectedRate = rate;
+  } else {
+    const choice = selectRate(await provider.getRates(labelRequest), selection);
+    if (!choice.ok) return choice;
+    selectedRate = choice.rate;
+  }
 
-  if (!selectedRate.objectId) {
+  if (!selectedRate.rateId) {
     throw new Error('Selected rate has no object ID');
   }
 
   // Purchase the label
-  const transaction = await shippo.transactions.create({
-    rate: selectedRate.objectId,
-    labelFileType: 'PDF',
-    async: false,
-  });
-
-  if (transaction.status !== 'SUCCESS') {
-    throw new Error(`Label purchase failed: ${transaction.messages?.map(m => m.text).join(', ')}`);
-  }
+  const purchase = await provider.purchaseLabel(selectedRate.rateId, orderId);
 
-  if (!transaction.trackingNumber || !transaction.labelUrl) {
-    throw new Error('Transaction missing tracking number or label URL');
-  }
+  // Keep a copy of the label
+  const labelFileName = `${orderId.slice(0, 18)}-${purchase.trackingNumber}.pdf`;
+  const localLabelPath = `/labels/${labelFileName}`;
 
-  // Download and save label locally
-  const labelFileName = `${orderId.slice(0, 18)}-${transaction.trackingNumber}.pdf`;
-  const localLabelPath = path.join(LABELS_DIR, labelFileName);
-  
-  try {
-    const response = await fetch(transaction.labelUrl);
-    const buffer = Buffer.from(await response.arrayBuffer());
-    fs.writeFileSync(localLabelPath, buffer);
-  } catch (err) {
-    console.error('Failed to download label PDF:', err);
+  if (purchase.labelPdf) {
+    try {
+      await getLabelStorage().write(labelFileName, purchase.labelPdf);
+    } catch (err) {
+      console.error('Failed to save label PDF:', err);
+    }
   }
 
   // Create label result
   const label: Label = {
-    id: transaction.objectId || '',
-    tracking_code: transaction.trackingNumber,
-    tracking_url: `https://tools.usps.com/go/TrackConfirmAction?tLabels=${transaction.trackingNumber}`,
-    label_url: transaction.labelUrl,
-    carrier: selectedRate.provider || 'unknown',
-    service: selectedRate.servicelevel?.name || 'unknown',
-    rate: selectedRate.amount || '0',
+    id: purchase.transactionId,
+    tracking_code: purchase.trackingNumber,
+    tracking_url: purchase.trackingUrl,
+    label_url: purchase.labelUrl ?? localLabelPath,
+    carrier: selectedRate.carrier,
+    service: selectedRate.service,
+    service_token: selectedRate.serviceToken,
+    estimated_days: selectedRate.estimatedDays,
+    rate: selectedRate.amount,
   };
 
   // Save to tracking database
   const tracking = loadTracking();
   tracking[orderId] = {
     orderId,
-    trackingNumber: transaction.trackingNumber,
+    trackingNumber: purchase.trackingNumber,
     carrier: label.carrier,
     service: label.service,
-    labelUrl: transaction.labelUrl,
-    localLabelPath: `/labels/${labelFileName}`,
+    serviceToken: selectedRate.serviceToken,
+    estimatedDays: selectedRate.estimatedDays,
+    rate: selectedRate.amount,
+    currency: selectedRate.currency,
+    provider: provider.kind,
+    transactionId: purchase.transactionId,
+    labelUrl: label.label_url,
+    localLabelPath,
     status: 'PRE_TRANSIT',
+    voidStatus: null,
     shippedAt: null,
     deliveredAt: null,
     lastWebhook: null,
@@ -208,7 +267,7 @@ export async function createLabel(
   };
   saveTracking(tracking);
 
-  return label;
+  return { ok: true, label };
 }
 
 /**
@@ -216,62 +275,49 @@ export async function createLabel(
  * @param labelRequest - From/to addresses and parcel info
  * @returns Array of available rates
  */
-export async function getRates(labelRequest: LabelRequest): Promise<Array<{
-  carrier: string;
-  service: string;
-  amount: string;
-  estimatedDays: number | null;
-  rateId: string;
-}>> {
-  const { fromAddress, toAddress, parcel } = labelRequest;
-  
-  const shipment = await shippo.shipments.create({
-    addressFrom: toShippoAddress(fromAddress),
-    addressTo: toShippoAddress(toAddress),
-    parcels: [toShippoParcel(parcel)],
-    async: false,
-  });
-
-  if (!shipment.rates) {
-    return [];
-  }
-
-  return shipment.rates.map(rate => ({
-    carrier: rate.provider || 'unknown',
-    service: rate.servicelevel?.name || 'unknown',
-    amount: rate.amount || '0',
-    estimatedDays: rate.estimatedDays || null,
-    rateId: rate.objectId || '',
-  }));
+export async function getRates(labelRequest: LabelRequest): Promise<ShippingRate[]> {
+  return getShippingProvider().getRates(labelRequest);
 }
 
 /**
- * Get tracking info from Shippo
+ * Get tracking info from the configured provider
  * @param carrier - Carrier name (e.g., 'usps')
  * @param trackingNumber - The tracking number
  */
-export async function getTrackingStatus(carrier: string, trackingNumber: string) {
-  const tracking = await shippo.trackingStatus.get(carrier.toLowerCase(), trackingNumber);
-  return {
-    status: tracking.trackingStatus?.status || 'UNKNOWN',
-    statusDetails: tracking.trackingStatus?.statusDetails || '',
-    statusDate: tracking.trackingStatus?.statusDate || null,
-    location: tracking.trackingStatus?.location ? {
-      city: tracking.trackingStatus.location.city,
-      state: tracking.trackingStatus.location.state,
-      country: tracking.trackingStatus.location.country,
-    } : null,
-    eta: tracking.eta || null,
-    trackingHistory: tracking.trackingHistory?.map(h => ({
-      status: h.status,
-      statusDetails: h.statusDetails,
-      statusDate: h.statusDate,
-      location: h.location ? {
-        city: h.location.city,
-        state: h.location.state,
-      } : null,
-    })) || [],
-  };
+export async function getTrackingStatus(carrier: string, trackingNumber: string): Promise<TrackingStatus> {
+  return getShippingProvider().getTracking(carrier, trackingNumber);
+}
+
+/**
+ * Void an order's unused label so the postage is refunded
+ * @param orderId - The escrow order ID
+ * @returns The updated tracking record
+ */
+export async function voidLabel(orderId: string): Promise<TrackingRecord> {
+  const record = getTrackingByOrderId(orderId);
+  if (!record) {
+    throw new Error(`No label found for order ${orderId}`);
+  }
+
+  const provider = getShippingProvider();
+  if (!record.transactionId || record.provider !== provider.kind) {
+    throw new Error(`This label wasn't bought through the ${provider.kind} provider and can't be voided here`);
+  }
+  if (record.status !== 'PRE_TRANSIT' && record.status !== 'UNKNOWN') {
+    throw new Error(`The parcel is already ${record.status}; only unused labels can be voided`);
+  }
+
+  const voidStatus = await provider.voidLabel(record.transactionId);
+  return updateTracking(orderId, { voidStatus });
+}
+
+/**
+ * Read a saved label PDF from storage
+ * @param labelFileName - Bare file name, as in localLabelPath
+ * @returns The PDF bytes, or null if there is no such label
+ */
+export async function readLabel(labelFileName: string): Promise<Uint8Array | null> {
+  return getLabelStorage().read(labelFileName);
 }
 
 // Export for testing
@@ -0,0 +1,203 @@
+import { createHash } from 'crypto';
+import type { ShippoWebhookPayload } from './types.ts';
+import type { ShippingProvider, ShippingRate, TrackingStatus } from './providers.ts';
+import { shippingZone, INTERNATIONAL_ZONE } from './zones.ts';
+
+export interface MockShippingProvider extends ShippingProvider {
+  /**
+   * Move a mock parcel to `status` and return the webhook Shippo would
+   * send for it, for POST /webhook/shippo
+   */
+  simulateTracking(trackingNumber: string, status: string, details?: string): ShippoWebhookPayload;
+}
+
+interface MockService {
+  carrier: string;
+  token: string;
+  name: string;
+  base: number;              // USD for 1 lb in zone 1
+  perLb: number;             // each extra billable pound
+  perZone: number;           // each zone further away
+  days: number;              // zone 1 transit time
+}
+
+// Loosely based on 2024 retail prices
+const SERVICES: MockService[] = [
+  { carrier: 'USPS', token: 'usps_ground_advantage', name: 'Ground Advantage', base: 4.75, perLb: 0.65, perZone: 0.35, days: 4 },
+  { carrier: 'USPS', token: 'usps_priority', name: 'Priority Mail', base: 8.70, perLb: 0.95, perZone: 0.60, days: 2 },
+  { carrier: 'UPS', token: 'ups_ground', name: 'Ground', base: 10.20, perLb: 0.85, perZone: 0.50, days: 3 },
+  { carrier: 'FedEx', token: 'fedex_2_day', name: '2Day', base: 19.40, perLb: 1.60, perZone: 0.95, days: 2 },
+];
+
+const INTERNATIONAL_EXTRA_DAYS = 5;
+
+// Carriers bill the larger of actual weight and L×W×H / 166 (inches, pounds)
+const DIM_DIVISOR = 166;
+
+interface MockParcelState {
+  carrier: string;
+  events: Array<{ status: string; details: string; date: string }>;
+}
+
+/**
+ * An offline carrier with fixed, repeatable answers
+ *
+ * Rates follow from the parcel's billable weight and the zone between the
+ * addresses' ZIP regions (see zones.ts), so the same request always gets the same rates and
+ * rate ids. Rate ids carry everything needed to buy them, so they work
+ * across restarts; tracking state lives in memory.
+ */
+export function createMockProvider(): MockShippingProvider {
+  const parcels = new Map<string, MockParcelState>();
+
+  const addEvent = (trackingNumber: string, carrier: string, status: string, details: string): void => {
+    const parcel = parcels.get(trackingNumber) ?? { carrier, events: [] };
+    parcel.events.push({ status, details, date: new Date().toISOString() });
+    parcels.set(trackingNumber, parcel);
+  };
+
+  return {
+    kind: 'mock',
+
+    async getRates(request) {
+      const zone = shippingZone(request.fromAddress, request.toAddress);
+      const { length, width, height, weight } = request.parcel;
+      const billableLbs = Math.ceil(Math.max(weight / 16, (length * width * height) / DIM_DIVISOR, 0.1));
+      const shipmentDigest = digest(JSON.stringify(request)).slice(0, 12);
+
+      return SERVICES.map((service): ShippingRate => {
+        const cents = Math.round(
+          (service.base + service.perLb * (billableLbs - 1) + service.perZone * (zone - 1)) * 100
+        );
+        const days = service.days + (zone === INTERNATIONAL_ZONE ? INTERNATIONAL_EXTRA_DAYS : Math.floor(zone / 4));
+        return {
+          rateId: ['mock', service.token, cents, days, shipmentDigest].join('.'),
+          carrier: service.carrier,
+          service: service.name,
+          serviceToken: service.token,
+          amount: (cents / 100).toFixed(2),
+          currency: 'USD',
+          estimatedDays: days,
+        };
+      });
+    },
+
+    async getRate(rateId, request) {
+      // The id includes a digest of the request, so only this shipment matches
+      const rates = await this.getRates(request);
+      return rates.find(rate => rate.rateId === rateId) ?? null;
+    },
+
+    async purchaseLabel(rateId, reference) {
+      const rate = parseRateId(rateId);
+      if (!rate) {
+        throw new Error(`Unknown mock rate: ${rateId}`);
+      }
+
+      const id = digest(`${rateId}:${reference}`);
+      const trackingNumber = `MOCK${BigInt(`0x${id.slice(0, 16)}`).toString().padStart(20, '0').slice(0, 18)}`;
+      addEvent(trackingNumber, rate.service.carrier, 'PRE_TRANSIT', 'Label created');
+
+      return {
+        transactionId: `mock_tx_${id.slice(0, 24)}`,
+        trackingNumber,
+        trackingUrl: `https://example.com/track/${trackingNumber}`,
+        labelUrl: null,
+        labelPdf: buildLabelPdf([
+          'MOCK LABEL - NOT VALID FOR SHIPPING',
+          `${rate.service.carrier} ${rate.service.name}`,
+          `Tracking: ${trackingNumber}`,
+          `Postage: $${(rate.cents / 100).toFixed(2)}`,
+          `Order: ${reference.slice(0, 18)}`,
+        ]),
+      };
+    },
+
+    async getTracking(_carrier, trackingNumber): Promise<TrackingStatus> {
+      const parcel = parcels.get(trackingNumber);
+      const latest = parcel?.events[parcel.events.length - 1];
+      return {
+        status: latest?.status ?? 'UNKNOWN',
+        statusDetails: latest?.details ?? '',
+        statusDate: latest?.date ?? null,
+        location: null,
+        eta: null,
+        trackingHistory: (parcel?.events ?? []).map(event => ({
+          status: event.status,
+          statusDetails: event.details,
+          statusDate: event.date,
+          location: null,
+        })),
+      };
+    },
+
+    async voidLabel() {
+      return 'SUCCESS';
+    },
+
+    simulateTracking(trackingNumber, status, details = `Mock ${status.toLowerCase()} update`) {
+      const carrier = parcels.get(trackingNumber)?.carrier ?? 'USPS';
+      addEvent(trackingNumber, carrier, status, details);
+      return {
+        event: 'track_updated',
+        data: {
+          tracking_number: trackingNumber,
+          carrier: carrier.toLowerCase(),
+          tracking_status: {
+            status,
+            status_details: details,
+            status_date: new Date().toISOString(),
+          },
+        },
+      };
+    },
+  };
+}
+
+// ─────────────────────────────────────────────────────────────
+// Helpers
+// ─────────────────────────────────────────────────────────────
+
+function parseRateId(rateId: string): { service: MockService; cents: number; days: number } | null {
+  const [prefix, token, cents, days] = rateId.split('.');
+  const service = SERVICES.find(s => s.token === token);
+  if (prefix !== 'mock' || !service || !/^\d+$/.test(cents) || !/^\d+$/.test(days)) return null;
+  return { service, cents: Number(cents), days: Number(days) };
+}
+
+function digest(text: string): string {
+  return createHash('sha256').update(text).digest('hex');
+}
+
+/**
+ * A one-page PDF with a line of Helvetica per entry. Offsets in the xref
+ * table are byte offsets, so the text must stay ASCII.
+ */
+function buildLabelPdf(lines: string[]): Uint8Array {
+  const escape = (text: string) => text.replace(/[^\x20-\x7e]/g, '?').replace(/[\\()]/g, '\\$&');
+  const content = [
+    'BT /F1 12 Tf 24 400 Td 18 TL',
+    ...lines.map(line => `(${escape(line)}) '`),
+    'ET',
+  ].join('\n');
+
+  const objects = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    '<< /Type /Pages /Kids [3 0 R] /Count 1 >>',
+    '<< /Type /Page /Parent 2 0 R /MediaBox [0 0 288 432] /Contents 4 0 R /Resources << /Font << /F1 5 0 R >> >> >>',
+    `<< /Length ${content.length} >>\nstream\n${content}\nendstream`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>',
+  ];
+
+  let pdf = '%PDF-1.4\n';
+  const offsets: number[] = [];
+  objects.forEach((body, i) => {
+    offsets.push(pdf.length);
+    pdf += `${i + 1} 0 obj\n${body}\nendobj\n`;
+  });
+  const xref = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+  return new TextEncoder().encode(pdf);
+}
@@ -0,0 +1,137 @@
+import boxesJson from './boxes.json' with { type: 'json' };
+import type { Dimensions } from '../pricing/fit.ts';
+import type { PrintEstimate } from '../pricing/index.ts';
+import type { Parcel } from './types.ts';
+
+// Kept free of Node APIs so quotes can be sized in the browser too
+
+// ─────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────
+
+export interface ShippingBox {
+  key: string;
+  name: string;
+  innerMm: Dimensions;       // usable space inside
+  wallMm: number;            // board thickness, added to each side for the outside size
+  weightGrams: number;       // empty
+  maxWeightGrams?: number;   // contents and box together; unlimited when unset
+}
+
+export interface BoxCatalog {
+  boxes: Record<string, Omit<ShippingBox, 'key'>>;
+}
+
+export type PackagingInput = Pick<PrintEstimate, 'dimensions' | 'weightGrams'>;
+
+export interface PackagingOptions {
+  boxes?: ShippingBox[];     // default boxes.json
+  paddingMm?: number;        // cushioning on every side of the part, default 20
+  fillGramsPerLitre?: number;   // paper or air pillows in the empty space, default 8
+}
+
+export type PackagingResult =
+  | {
+      ok: true;
+      parcel: Parcel;              // outside size in inches, packed weight in ounces
+      box: ShippingBox;
+      packedWeightGrams: number;   // part, box and fill
+    }
+  | { ok: false; reason: 'invalid-estimate' | 'no-box-fits'; message: string };
+
+export const DEFAULT_PADDING_MM = 20;
+export const DEFAULT_FILL_GRAMS_PER_LITRE = 8;
+
+const MM_PER_INCH = 25.4;
+const GRAMS_PER_OUNCE = 28.3495;
+
+// ─────────────────────────────────────────────────────────────
+// Main API
+// ─────────────────────────────────────────────────────────────
+
+/**
+ * Read a catalog in the boxes.json format
+ */
+export function parseBoxCatalog(catalog: BoxCatalog): ShippingBox[] {
+  return Object.entries(catalog.boxes).map(([key, box]) => {
+    const dims = [box.innerMm?.x, box.innerMm?.y, box.innerMm?.z, box.wallMm, box.weightGrams];
+    if (!dims.every(n => typeof n === 'number' && Number.isFinite(n) && n >= 0)) {
+      throw new Error(`Box ${key} needs innerMm x/y/z, wallMm and weightGrams as non-negative numbers`);
+    }
+    return { key, ...box };
+  });
+}
+
+export const DEFAULT_BOXES: ShippingBox[] = parseBoxCatalog(boxesJson);
+
+/**
+ * Pick the smallest box that holds the printed part with padding all round,
+ * and work out the parcel a carrier will be quoted for
+ *
+ * The part may go in the box any way up. Weight is the part (supports are
+ * removed before shipping), the empty box and fill for the space left over.
+ */
+export function packParcel(input: PackagingInput, options: PackagingOptions = {}): PackagingResult {
+  const boxes = options.boxes ?? DEFAULT_BOXES;
+  const paddingMm = options.paddingMm ?? DEFAULT_PADDING_MM;
+  const fillGramsPerLitre = options.fillGramsPerLitre ?? DEFAULT_FILL_GRAMS_PER_LITRE;
+
+  const { dimensions, weightGrams } = input;
+  const partSizes = [dimensions.x, dimensions.y, dimensions.z];
+  if (!partSizes.every(n => Number.isFinite(n) && n > 0) || !Number.isFinite(weightGrams) || weightGrams < 0) {
+    return { ok: false, reason: 'invalid-estimate', message: 'The estimate needs positive dimensions and a weight' };
+  }
+
+  const needed = sortedDescending(partSizes.map(n => n + 2 * paddingMm));
+  const partVolumeMm3 = partSizes.reduce((a, b) => a * b, 1);
+
+  const candidates = boxes
+    .filter(box => {
+      const inner = sortedDescending([box.innerMm.x, box.innerMm.y, box.innerMm.z]);
+      return needed.every((n, i) => n <= inner[i]);
+    })
+    .map(box => {
+      const fillLitres = Math.max(0, volumeMm3(box.innerMm) - partVolumeMm3) / 1e6;
+      const packedWeightGrams = weightGrams + box.weightGrams + fillLitres * fillGramsPerLitre;
+      return { box, packedWeightGrams };
+    })
+    .filter(({ box, packedWeightGrams }) => box.maxWeightGrams === undefined || packedWeightGrams <= box.maxWeightGrams)
+    .sort((a, b) => volumeMm3(a.box.innerMm) - volumeMm3(b.box.innerMm) || a.packedWeightGrams - b.packedWeightGrams);
+
+  if (candidates.length === 0) {
+    const size = partSizes.map(n => Math.round(n)).join(' × ');
+    return {
+      ok: false,
+      reason: 'no-box-fits',
+      message: `No box holds a ${size} mm part (${Math.round(weightGrams)} g) with ${paddingMm} mm padding`,
+    };
+  }
+
+  const { box, packedWeightGrams } = candidates[0];
+  const [length, width, height] = sortedDescending([box.innerMm.x, box.innerMm.y, box.innerMm.z])
+    .map(n => roundUp((n + 2 * box.wallMm) / MM_PER_INCH));
+
+  return {
+    ok: true,
+    parcel: { length, width, height, weight: roundUp(packedWeightGrams / GRAMS_PER_OUNCE) },
+    box,
+    packedWeightGrams: Math.round(packedWeightGrams),
+  };
+}
+
+// ─────────────────────────────────────────────────────────────
+// Helpers
+// ─────────────────────────────────────────────────────────────
+
+function sortedDescending(values: number[]): number[] {
+  return [...values].sort((a, b) => b - a);
+}
+
+function volumeMm3(d: Dimensions): number {
+  return d.x * d.y * d.z;
+}
+
+// Carriers bill on the next tenth, so never round a parcel down
+function roundUp(value: number): number {
+  return Math.ceil(value * 10 - 1e-9) / 10;
+}
@@ -0,0 +1,96 @@
+import type { LabelRequest } from './types.ts';
+import { createShippoProvider } from './shippo.ts';
+import { createMockProvider } from './mock.ts';
+
+// ─────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────
+
+export type ShippingProviderKind = 'shippo' | 'mock';
+
+export interface ShippingRate {
+  rateId: string;            // what purchaseLabel() buys
+  carrier: string;           // e.g. "USPS"
+  service: string;           // e.g. "Ground Advantage"
+  serviceToken: string;      // stable service id, e.g. "usps_ground_advantage"
+  amount: string;            // decimal, as the carrier quotes it
+  currency: string;
+  estimatedDays: number | null;
+}
+
+export interface PurchasedLabel {
+  transactionId: string;     // what voidLabel() refunds
+  trackingNumber: string;
+  trackingUrl: string;
+  labelUrl: string | null;   // carrier-hosted PDF, if any
+  labelPdf: Uint8Array | null;   // null if the PDF couldn't be fetched
+}
+
+export interface TrackingLocation {
+  city?: string | null;
+  state?: string | null;
+  country?: string | null;
+}
+
+export interface TrackingStatus {
+  status: string;            // UNKNOWN, PRE_TRANSIT, TRANSIT, DELIVERED, RETURNED, FAILURE
+  statusDetails: string;
+  statusDate: Date | string | null;
+  location: TrackingLocation | null;
+  eta: Date | string | null;
+  trackingHistory: Array<{
+    status?: string;
+    statusDetails?: string;
+    statusDate?: Date | string;
+    location: TrackingLocation | null;
+  }>;
+}
+
+export type VoidStatus = 'QUEUED' | 'PENDING' | 'SUCCESS' | 'ERROR';
+
+/**
+ * A carrier API: quote rates, buy a label for one of them, follow the
+ * parcel, and void an unused label. Rates are quoted for one shipment;
+ * a rate id is only good with the provider that returned it.
+ */
+export interface ShippingProvider {
+  readonly kind: ShippingProviderKind;
+  getRates(request: LabelRequest): Promise<ShippingRate[]>;
+  getRate(rateId: string, request: LabelRequest): Promise<ShippingRate | null>;   // null unless quoted for this shipment
+  purchaseLabel(rateId: string, reference: string): Promise<PurchasedLabel>;
+  getTracking(carrier: string, trackingNumber: string): Promise<TrackingStatus>;
+  voidLabel(transactionId: string): Promise<VoidStatus>;
+}
+
+export const SHIPPING_PROVIDERS: ShippingProviderKind[] = ['shippo', 'mock'];
+
+// ─────────────────────────────────────────────────────────────
+// Main API
+// ─────────────────────────────────────────────────────────────
+
+/**
+ * Build the provider named by SHIPPING_PROVIDER (default shippo)
+ *
+ * Shippo needs SHIPPO_KEY; a test key buys free test labels. The mock
+ * quotes, buys and tracks deterministically without any network, so the
+ * label and webhook flows run offline.
+ */
+export function shippingProviderFromEnv(): ShippingProvider {
+  const kind = (process.env.SHIPPING_PROVIDER || 'shippo').toLowerCase();
+
+  switch (kind) {
+    case 'shippo': {
+      const apiKey = process.env.SHIPPO_KEY;
+      if (!apiKey) {
+        throw new Error('Shippo needs SHIPPO_KEY. Set SHIPPING_PROVIDER=mock to run without a carrier.');
+      }
+      return createShippoProvider({ apiKey });
+    }
+
+    case 'mock':
+      return createMockProvider();
+
+    default:
+      throw new Error(`Unknown SHIPPING_PROVIDER: ${kind}. Use one of: ${SHIPPING_PROVIDERS.join(', ')}`);
+  }
+}
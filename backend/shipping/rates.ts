@@ -0,0 +1,104 @@
+import type { ShippingRate } from './providers.ts';
+
+// ─────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────
+
+export type RatePolicy = 'cheapest' | 'fastest';
+
+/**
+ * Which rate to buy a label with. A `rateId` from /api/labels/rates wins;
+ * otherwise the policy picks among the carriers allowed.
+ */
+export interface RateSelection {
+  rateId?: string;
+  policy?: RatePolicy;       // default cheapest
+  carriers?: string[];       // e.g. ["usps", "ups"]; any carrier when unset
+}
+
+export type RateChoice =
+  | { ok: true; rate: ShippingRate }
+  | { ok: false; reason: 'no-rates' | 'no-matching-rate'; message: string };
+
+export const RATE_POLICIES: RatePolicy[] = ['cheapest', 'fastest'];
+
+// ─────────────────────────────────────────────────────────────
+// Main API
+// ─────────────────────────────────────────────────────────────
+
+/**
+ * Pick a rate by policy. Cheapest breaks ties on speed and fastest on
+ * price; rates without a delivery estimate count as slowest.
+ */
+export function selectRate(rates: ShippingRate[], selection: RateSelection = {}): RateChoice {
+  if (rates.length === 0) {
+    return { ok: false, reason: 'no-rates', message: 'No shipping rates available for this shipment' };
+  }
+
+  const allowed = selection.carriers?.map(normalizeCarrier);
+  const candidates = allowed
+    ? rates.filter(r => allowed.includes(normalizeCarrier(r.carrier)))
+    : rates;
+  if (candidates.length === 0) {
+    return {
+      ok: false,
+      reason: 'no-matching-rate',
+      message: `No rates from ${selection.carriers!.join(', ')}. Available: ${[...new Set(rates.map(r => r.carrier))].join(', ')}`,
+    };
+  }
+
+  const price = (rate: ShippingRate) => {
+    const amount = parseFloat(rate.amount);
+    return Number.isFinite(amount) ? amount : Infinity;   // "0.00" is free, not missing
+  };
+  const days = (rate: ShippingRate) => rate.estimatedDays ?? Infinity;
+  const byPolicy = (selection.policy ?? 'cheapest') === 'fastest'
+    ? (a: ShippingRate, b: ShippingRate) => days(a) - days(b) || price(a) - price(b)
+    : (a: ShippingRate, b: ShippingRate) => price(a) - price(b) || days(a) - days(b);
+
+  return { ok: true, rate: [...candidates].sort(byPolicy)[0] };
+}
+
+/**
+ * Read a selection from a request body, or say what's wrong with it
+ */
+export function parseRateSelection(body: {
+  rateId?: unknown;
+  policy?: unknown;
+  carriers?: unknown;
+}): { ok: true; selection: RateSelection } | { ok: false; message: string } {
+  const { rateId, policy, carriers } = body;
+
+  if (rateId !== undefined && (typeof rateId !== 'string' || !rateId)) {
+    return { ok: false, message: 'rateId must be a rate id from /api/labels/rates' };
+  }
+  if (policy !== undefined && !RATE_POLICIES.includes(policy as RatePolicy)) {
+    return { ok: false, message: `policy must be one of: ${RATE_POLICIES.join(', ')}` };
+  }
+  if (carriers !== undefined && (
+    !Array.isArray(carriers) || carriers.length === 0 || !carriers.every(c => typeof c === 'string' && c)
+  )) {
+    return { ok: false, message: 'carriers must be a non-empty list of carrier names' };
+  }
+  if (rateId !== undefined && (policy !== undefined || carriers !== undefined)) {
+    return { ok: false, message: 'Send either rateId or a policy and carriers, not both' };
+  }
+
+  return {
+    ok: true,
+    selection: {
+      rateId: rateId as string | undefined,
+      policy: policy as RatePolicy | undefined,
+      carriers: carriers as string[] | undefined,
+    },
+  };
+}
+
+// ─────────────────────────────────────────────────────────────
+// Helpers
+// ─────────────────────────────────────────────────────────────
+
+// "FedEx", "fedex" and "Fed Ex" are the same carrier
+function normalizeCarrier(carrier: string): string {
+  return carrier.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
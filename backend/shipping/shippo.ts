@@ -0,0 +1,175 @@
+import { Shippo } from 'shippo';
+import type { Rate, Address as ShippoAddress, Parcel as ShippoParcel } from 'shippo';
+import type { Address, Parcel } from './types.ts';
+import type { ShippingProvider, ShippingRate } from './providers.ts';
+
+export interface ShippoOptions {
+  apiKey: string;            // test keys (shippo_test_...) buy free test labels
+}
+
+/**
+ * Shippo's multi-carrier API, through its SDK
+ */
+export function createShippoProvider(options: ShippoOptions): ShippingProvider {
+  const shippo = new Shippo({ apiKeyHeader: options.apiKey });
+
+  return {
+    kind: 'shippo',
+
+    async getRates({ fromAddress, toAddress, parcel }) {
+      const shipment = await shippo.shipments.create({
+        addressFrom: toShippoAddress(fromAddress),
+        addressTo: toShippoAddress(toAddress),
+        parcels: [toShippoParcel(parcel)],
+        async: false,
+      });
+
+      return (shipment.rates ?? []).map(toShippingRate);
+    },
+
+    async getRate(rateId, { fromAddress, toAddress, parcel }) {
+      let rate: Rate;
+      try {
+        rate = await shippo.rates.get(rateId);
+      } catch (err) {
+        if ((err as { statusCode?: number }).statusCode === 404) return null;
+        throw err;
+      }
+
+      // A rate is bound to the shipment it was quoted for, addresses and parcel included
+      const shipment = await shippo.shipments.get(rate.shipment);
+      if (
+        !sameLocation(shipment.addressFrom, fromAddress)
+        || !sameLocation(shipment.addressTo, toAddress)
+        || shipment.parcels.length !== 1
+        || !sameParcel(shipment.parcels[0], parcel)
+      ) {
+        return null;
+      }
+      return toShippingRate(rate);
+    },
+
+    async purchaseLabel(rateId, reference) {
+      const transaction = await shippo.transactions.create({
+        rate: rateId,
+        labelFileType: 'PDF',
+        metadata: reference,
+        async: false,
+      });
+
+      if (transaction.status !== 'SUCCESS') {
+        throw new Error(`Label purchase failed: ${transaction.messages?.map(m => m.text).join(', ')}`);
+      }
+      if (!transaction.trackingNumber || !transaction.labelUrl) {
+        throw new Error('Transaction missing tracking number or label URL');
+      }
+
+      // Keep a copy: Shippo's label URLs aren't permanent
+      let labelPdf: Uint8Array | null = null;
+      try {
+        const response = await fetch(transaction.labelUrl);
+        labelPdf = new Uint8Array(await response.arrayBuffer());
+      } catch (err) {
+        console.error('Failed to download label PDF:', err);
+      }
+
+      return {
+        transactionId: transaction.objectId || '',
+        trackingNumber: transaction.trackingNumber,
+        trackingUrl: transaction.trackingUrlProvider
+          || `https://tools.usps.com/go/TrackConfirmAction?tLabels=${transaction.trackingNumber}`,
+        labelUrl: transaction.labelUrl,
+        labelPdf,
+      };
+    },
+
+    async getTracking(carrier, trackingNumber) {
+      const tracking = await shippo.trackingStatus.get(carrier.toLowerCase(), trackingNumber);
+      return {
+        status: tracking.trackingStatus?.status || 'UNKNOWN',
+        statusDetails: tracking.trackingStatus?.statusDetails || '',
+        statusDate: tracking.trackingStatus?.statusDate || null,
+        location: tracking.trackingStatus?.location ? {
+          city: tracking.trackingStatus.location.city,
+          state: tracking.trackingStatus.location.state,
+          country: tracking.trackingStatus.location.country,
+        } : null,
+        eta: tracking.eta || null,
+        trackingHistory: tracking.trackingHistory?.map(h => ({
+          status: h.status,
+          statusDetails: h.statusDetails,
+          statusDate: h.statusDate,
+          location: h.location ? {
+            city: h.location.city,
+            state: h.location.state,
+          } : null,
+        })) || [],
+      };
+    },
+
+    async voidLabel(transactionId) {
+      const refund = await shippo.refunds.create({ transaction: transactionId, async: false });
+      return refund.status ?? 'QUEUED';
+    },
+  };
+}
+
+// ─────────────────────────────────────────────────────────────
+// Helpers
+// ─────────────────────────────────────────────────────────────
+
+function toShippingRate(rate: Rate): ShippingRate {
+  return {
+    rateId: rate.objectId || '',
+    carrier: rate.provider || 'unknown',
+    service: rate.servicelevel?.name || 'unknown',
+    serviceToken: rate.servicelevel?.token || '',
+    amount: rate.amount || '0',
+    currency: rate.currency || 'USD',
+    estimatedDays: rate.estimatedDays || null,
+  };
+}
+
+// Shippo may reformat street lines, so compare what decides the price
+function sameLocation(shippoAddress: ShippoAddress, address: Address): boolean {
+  const zip = (value?: string) => (value ?? '').replace(/\s/g, '').toUpperCase().slice(0, 5);
+  return shippoAddress.country.toUpperCase() === address.country.toUpperCase()
+    && zip(shippoAddress.zip) === zip(address.zip);
+}
+
+// Shippo echoes the parcel back with its own number formatting ("10.0000")
+function sameParcel(shippoParcel: ShippoParcel, parcel: Parcel): boolean {
+  const expected = toShippoParcel(parcel);
+  const same = (a: string, b: string) => Math.abs(parseFloat(a) - parseFloat(b)) < 0.01;
+  return shippoParcel.distanceUnit === expected.distanceUnit
+    && shippoParcel.massUnit === expected.massUnit
+    && same(shippoParcel.length, expected.length)
+    && same(shippoParcel.width, expected.width)
+    && same(shippoParcel.height, expected.height)
+    && same(shippoParcel.weight, expected.weight);
+}
+
+function toShippoAddress(addr: Address) {
+  return {
+    name: addr.name,
+    street1: addr.street1,
+    street2: addr.street2 || '',
+    city: addr.city,
+    state: addr.state,
+    zip: addr.zip,
+    country: addr.country,
+    phone: addr.phone || '',
+  };
+}
+
+// Parcel is in inches and ounces
+function toShippoParcel(parcel: Parcel) {
+  return {
+    length: String(parcel.length),
+    width: String(parcel.width),
+    height: String(parcel.height),
+    distanceUnit: 'in' as const,
+    weight: String(parcel.weight),
+    massUnit: 'oz' as const,
+  };
+}
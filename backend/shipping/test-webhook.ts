@@ -6,9 +6,12 @@
  *   npx tsx shipping/test-webhook.ts
  * 
  * Prerequisites:
- *   - Backend server running on port 3001
- *   - Hardhat node running with deployed contracts
+ *   - Backend server running on port 3001 (SHIPPING_PROVIDER=mock runs it offline)
+ *   - Hardhat node running with deployed contracts, for the on-chain steps
  *   - ORACLE_ADDRESS and BACKEND_PRIVATE_KEY set in .env.back
+ *
+ * With the mock provider, updates go through /api/mock/tracking so the
+ * provider's tracking matches; otherwise Shippo payloads are posted directly.
  */
 
 import * as fs from 'fs';
@@ -24,7 +27,54 @@ const TRACKING_FILE = path.join(__dirname, 'tracking.json');
 // Generate unique IDs for each test run
 const timestamp = Date.now();
 const TEST_ORDER_ID = '0x' + timestamp.toString(16).padStart(64, '0');
-const TEST_TRACKING_NUMBER = `920019${timestamp.toString().slice(-13)}`;
+
+const mockData = JSON.parse(fs.readFileSync(path.join(__dirname, 'mockShippingData.json'), 'utf-8'));
+
+// Test sender address (Shippo's test address)
+const testSenderAddress = {
+  name: 'FilaMint Seller',
+  street1: '215 Clayton St',
+  city: 'San Francisco',
+  state: 'CA',
+  zip: '94117',
+  country: 'US',
+  phone: '4151234567',
+};
+
+interface TrackingUpdate {
+  status: string;
+  details: string;
+  location: { city: string; state: string; country: string };
+}
+
+// Through the mock provider when the server runs one, else as Shippo would
+async function sendTrackingUpdate(shippingProvider: string, trackingNumber: string, update: TrackingUpdate) {
+  if (shippingProvider === 'mock') {
+    return fetch(`${SERVER_URL}/api/mock/tracking/${trackingNumber}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ status: update.status, details: update.details }),
+    });
+  }
+
+  return fetch(`${SERVER_URL}/webhook/shippo`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      event: 'track_updated',
+      data: {
+        tracking_number: trackingNumber,
+        carrier: 'usps',
+        tracking_status: {
+          status: update.status,
+          status_details: update.details,
+          status_date: new Date().toISOString(),
+          location: update.location,
+        },
+      },
+    }),
+  });
+}
 
 async function main() {
   console.log('═══════════════════════════════════════════════════════════');
@@ -33,42 +83,36 @@ async function main() {
 
   // Step 1: Check if server is running
   console.log('1️⃣  Checking server health...');
+  let shippingProvider = '';
   try {
     const health = await fetch(`${SERVER_URL}/health`);
     const data = await health.json();
+    shippingProvider = data.shippingProvider ?? '';
     console.log(`   ✅ Server is running: ${JSON.stringify(data)}\n`);
   } catch (err) {
     console.error('   ❌ Server not running! Start it with: npm run dev');
     process.exit(1);
   }
 
-  // Step 2: Create a fake tracking record (simulating label creation)
-  console.log('2️⃣  Creating test tracking record...');
-  const testTrackingNumber = TEST_TRACKING_NUMBER;
-  
-  // Manually add to tracking.json
-  let tracking: Record<string, unknown> = {};
-  try {
-    if (fs.existsSync(TRACKING_FILE)) {
-      tracking = JSON.parse(fs.readFileSync(TRACKING_FILE, 'utf-8'));
-    }
-  } catch {}
-  
-  tracking[TEST_ORDER_ID] = {
-    orderId: TEST_ORDER_ID,
-    trackingNumber: testTrackingNumber,
-    carrier: 'usps',
-    service: 'Ground Advantage',
-    labelUrl: 'https://example.com/label.pdf',
-    localLabelPath: '/labels/test.pdf',
-    status: 'PRE_TRANSIT',
-    shippedAt: null,
-    deliveredAt: null,
-    lastWebhook: null,
-    createdAt: new Date().toISOString(),
-  };
-  fs.writeFileSync(TRACKING_FILE, JSON.stringify(tracking, null, 2));
-  console.log(`   ✅ Added tracking record for order: ${TEST_ORDER_ID.slice(0, 20)}...`);
+  // Step 2: Buy a label, which creates the tracking record
+  console.log('2️⃣  Creating test label...');
+  const labelRes = await fetch(`${SERVER_URL}/api/labels/create`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      orderId: TEST_ORDER_ID,
+      fromAddress: testSenderAddress,
+      toAddress: mockData.address,
+      parcel: mockData.parcel,
+    }),
+  });
+  const labelData = await labelRes.json();
+  if (!labelRes.ok) {
+    console.error(`   ❌ Label creation failed: ${JSON.stringify(labelData)}`);
+    process.exit(1);
+  }
+  const testTrackingNumber: string = labelData.label.trackingNumber;
+  console.log(`   ✅ Created ${labelData.label.carrier} ${labelData.label.service} label for order: ${TEST_ORDER_ID.slice(0, 20)}...`);
   console.log(`   📦 Tracking number: ${testTrackingNumber}\n`);
 
   // Step 3: Check oracle status BEFORE
@@ -83,29 +127,11 @@ async function main() {
 
   // Step 4: Simulate TRANSIT webhook
   console.log('4️⃣  Simulating TRANSIT webhook...');
-  const transitPayload = {
-    event: 'track_updated',
-    data: {
-      tracking_number: testTrackingNumber,
-      carrier: 'usps',
-      tracking_status: {
-        status: 'TRANSIT',
-        status_details: 'Package in transit',
-        status_date: new Date().toISOString(),
-        location: {
-          city: 'Los Angeles',
-          state: 'CA',
-          country: 'US',
-        },
-      },
-    },
-  };
-
   try {
-    const transitRes = await fetch(`${SERVER_URL}/webhook/shippo`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify(transitPayload),
+    const transitRes = await sendTrackingUpdate(shippingProvider, testTrackingNumber, {
+      status: 'TRANSIT',
+      details: 'Package in transit',
+      location: { city: 'Los Angeles', state: 'CA', country: 'US' },
     });
     const transitData = await transitRes.json();
     console.log(`   📬 Webhook response: ${JSON.stringify(transitData)}\n`);
@@ -123,29 +149,11 @@ async function main() {
 
   // Step 6: Simulate DELIVERED webhook
   console.log('6️⃣  Simulating DELIVERED webhook...');
-  const deliveredPayload = {
-    event: 'track_updated',
-    data: {
-      tracking_number: testTrackingNumber,
-      carrier: 'usps',
-      tracking_status: {
-        status: 'DELIVERED',
-        status_details: 'Delivered to mailbox',
-        status_date: new Date().toISOString(),
-        location: {
-          city: 'Redondo Beach',
-          state: 'CA',
-          country: 'US',
-        },
-      },
-    },
-  };
-
   try {
-    const deliveredRes = await fetch(`${SERVER_URL}/webhook/shippo`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify(deliveredPayload),
+    const deliveredRes = await sendTrackingUpdate(shippingProvider, testTrackingNumber, {
+      status: 'DELIVERED',
+      details: 'Delivered to mailbox',
+      location: { city: 'Redondo Beach', state: 'CA', country: 'US' },
     });
     const deliveredData = await deliveredRes.json();
     console.log(`   📬 Webhook response: ${JSON.stringify(deliveredData)}\n`);
@@ -23,6 +23,8 @@ export interface Label {
   label_url: string;
   carrier: string;
   service: string;
+  service_token: string;
+  estimated_days: number | null;
   rate: string;
 }
 
@@ -37,6 +39,34 @@ export interface LabelRequest {
   parcel: Parcel;
 }
 
+/**
+ * Shippo tracking status values:
+ * - UNKNOWN: Initial state
+ * - PRE_TRANSIT: Label created, not yet picked up
+ * - TRANSIT: In transit
+ * - DELIVERED: Delivered
+ * - RETURNED: Returned to sender
+ * - FAILURE: Delivery failed
+ */
+export interface ShippoWebhookPayload {
+  event: string;
+  data: {
+    tracking_number: string;
+    carrier: string;
+    tracking_status: {
+      status: string;
+      status_details: string;
+      status_date: string;
+      location?: {
+        city?: string;
+        state?: string;
+        country?: string;
+      };
+    };
+    eta?: string;
+  };
+}
+
 export interface PrintOrder {
   orderId: string;
   buyerWallet: string;
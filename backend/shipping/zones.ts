@@ -0,0 +1,97 @@
+// Kept free of Node APIs, like packaging.ts
+
+// ─────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────
+
+/**
+ * Roughly where a parcel starts or ends. A quote happens before anyone
+ * has typed a street address, and zones only need the country and ZIP.
+ */
+export interface ShippingRegion {
+  country: string;           // ISO 3166 alpha-2, e.g. "US"
+  zip?: string;              // postal code; a mid-distance zone without it
+}
+
+interface ZipRegion {
+  name: string;
+  lat: number;
+  lon: number;
+}
+
+// Zone 9 is any shipment between countries
+export const INTERNATIONAL_ZONE = 9;
+
+// When the distance can't be told: no ZIP, or outside the US
+export const DEFAULT_DOMESTIC_ZONE = 5;
+
+// Rough centre of each US ZIP region (the first digit of the ZIP)
+const ZIP_REGIONS: Record<string, ZipRegion> = {
+  '0': { name: 'New England, NJ, PR', lat: 42.0, lon: -72.5 },
+  '1': { name: 'NY, PA, DE', lat: 41.5, lon: -76.5 },
+  '2': { name: 'DC, MD, VA, WV, NC, SC', lat: 37.0, lon: -78.5 },
+  '3': { name: 'AL, FL, GA, MS, TN', lat: 32.5, lon: -84.5 },
+  '4': { name: 'IN, KY, MI, OH', lat: 40.5, lon: -84.5 },
+  '5': { name: 'IA, MN, MT, ND, SD, WI', lat: 45.0, lon: -95.0 },
+  '6': { name: 'IL, KS, MO, NE', lat: 40.0, lon: -92.5 },
+  '7': { name: 'AR, LA, OK, TX', lat: 32.0, lon: -95.5 },
+  '8': { name: 'AZ, CO, ID, NM, NV, UT, WY', lat: 38.5, lon: -110.0 },
+  '9': { name: 'CA, OR, WA, AK, HI', lat: 39.0, lon: -121.0 },
+};
+
+// Upper distance in miles for zones 1-7, as USPS bands them; further is zone 8
+const ZONE_MILES = [50, 150, 300, 600, 1000, 1400, 1800];
+
+const EARTH_RADIUS_MILES = 3959;
+
+// ─────────────────────────────────────────────────────────────
+// Main API
+// ─────────────────────────────────────────────────────────────
+
+/**
+ * Carrier zone between two places, 1 (local) to 8 (across the US), or 9
+ * between countries
+ *
+ * Within the US the distance is taken between ZIP regions, so it is coarse:
+ * the same 3-digit prefix is zone 1 and the same region zones 2-4. Other
+ * countries' postal codes say nothing about distance here.
+ */
+export function shippingZone(from: ShippingRegion, to: ShippingRegion): number {
+  if (from.country.toUpperCase() !== to.country.toUpperCase()) {
+    return INTERNATIONAL_ZONE;
+  }
+
+  const fromZip = usZip3(from);
+  const toZip = usZip3(to);
+  if (!fromZip || !toZip) return DEFAULT_DOMESTIC_ZONE;
+  if (fromZip === toZip) return 1;
+
+  if (fromZip[0] === toZip[0]) {
+    const apart = Math.abs(Number(fromZip) - Number(toZip));
+    return apart <= 10 ? 2 : apart <= 40 ? 3 : 4;
+  }
+
+  const miles = distanceMiles(ZIP_REGIONS[fromZip[0]], ZIP_REGIONS[toZip[0]]);
+  const band = ZONE_MILES.findIndex(limit => miles <= limit);
+  return band === -1 ? 8 : band + 1;
+}
+
+// ─────────────────────────────────────────────────────────────
+// Helpers
+// ─────────────────────────────────────────────────────────────
+
+// First three digits of a US ZIP, or null when there isn't one
+function usZip3(region: ShippingRegion): string | null {
+  if (region.country.toUpperCase() !== 'US') return null;
+  const digits = (region.zip ?? '').replace(/\D/g, '');
+  return digits.length >= 3 ? digits.slice(0, 3) : null;
+}
+
+// Great-circle distance
+function distanceMiles(a: ZipRegion, b: ZipRegion): number {
+  const rad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = rad(b.lat - a.lat);
+  const dLon = rad(b.lon - a.lon);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(rad(a.lat)) * Math.cos(rad(b.lat)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_MILES * Math.asin(Math.sqrt(h));
+}
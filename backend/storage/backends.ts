@@ -0,0 +1,86 @@
+import * as path from 'path';
+import { createLocalBackend } from './local.ts';
+import { createS3Backend } from './s3.ts';
+import { createIpfsBackend } from './ipfs.ts';
+
+// ─────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────
+
+export type StorageBackendKind = 'local' | 's3' | 'ipfs';
+
+/**
+ * Where stored files live. Keys are bare file names; each backend keeps
+ * one namespace (a directory, key prefix or MFS folder).
+ */
+export interface StorageBackend {
+  readonly kind: StorageBackendKind;
+  write(key: string, bytes: Uint8Array): Promise<void>;
+  read(key: string): Promise<Uint8Array | null>;   // null when missing
+  exists(key: string): Promise<boolean>;
+  remove(key: string): Promise<void>;              // missing keys are fine
+}
+
+export const STORAGE_BACKENDS: StorageBackendKind[] = ['local', 's3', 'ipfs'];
+
+// ─────────────────────────────────────────────────────────────
+// Main API
+// ─────────────────────────────────────────────────────────────
+
+/**
+ * Build the backend named by STORAGE_BACKEND (default local)
+ *
+ * `namespace` separates models from labels: an S3 key prefix, or a folder
+ * under IPFS_MFS_ROOT. The local backend writes to `localDir`.
+ *
+ * S3 (AWS, MinIO, R2...): S3_BUCKET, S3_ACCESS_KEY_ID, S3_SECRET_ACCESS_KEY,
+ * optional S3_REGION (us-east-1) and S3_ENDPOINT. A custom endpoint uses
+ * path-style URLs, which MinIO needs.
+ *
+ * IPFS (Kubo RPC API): IPFS_API_URL (http://127.0.0.1:5001) and
+ * IPFS_MFS_ROOT (/filamint).
+ */
+export function storageBackendFromEnv(namespace: string, localDir: string): StorageBackend {
+  const kind = (process.env.STORAGE_BACKEND || 'local').toLowerCase();
+
+  switch (kind) {
+    case 'local':
+      return createLocalBackend(localDir);
+
+    case 's3': {
+      const bucket = process.env.S3_BUCKET;
+      const accessKeyId = process.env.S3_ACCESS_KEY_ID;
+      const secretAccessKey = process.env.S3_SECRET_ACCESS_KEY;
+      if (!bucket || !accessKeyId || !secretAccessKey) {
+        throw new Error('S3 storage needs S3_BUCKET, S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY');
+      }
+      return createS3Backend({
+        bucket,
+        accessKeyId,
+        secretAccessKey,
+        region: process.env.S3_REGION || 'us-east-1',
+        endpoint: process.env.S3_ENDPOINT,
+        prefix: `${namespace}/`,
+      });
+    }
+
+    case 'ipfs':
+      return createIpfsBackend({
+        apiUrl: process.env.IPFS_API_URL || 'http://127.0.0.1:5001',
+        root: path.posix.join(process.env.IPFS_MFS_ROOT || '/filamint', namespace),
+      });
+
+    default:
+      throw new Error(`Unknown STORAGE_BACKEND: ${kind}. Use one of: ${STORAGE_BACKENDS.join(', ')}`);
+  }
+}
+
+/**
+ * Throw unless `key` is a bare file name, so no backend can be walked out
+ * of its namespace
+ */
+export function assertStorageKey(key: string): void {
+  if (!key || key !== path.posix.basename(key) || key.includes('\\') || key === '.' || key === '..') {
+    throw new Error(`Invalid storage key: ${key}`);
+  }
+}
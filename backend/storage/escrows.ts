@@ -0,0 +1,123 @@
+import { ethers } from 'ethers';
+import type { LiveHashLookup } from './index.ts';
+
+// Only what storage needs from PrintEscrowFactory and EscrowInstance
+const FACTORY_ABI = [
+  'event OrderCreated(bytes32 indexed orderId, address indexed escrow, address indexed buyer, uint256 amount, bytes32 fileHash)',
+];
+const ESCROW_ABI = [
+  'function status() view returns (uint8)',
+  'function seller() view returns (address)',
+  'function orderAmount() view returns (uint256)',
+  'function createdAt() view returns (uint256)',
+];
+
+// EscrowStatus Completed, Cancelled and Settled: nobody needs the model again
+export const ENDED_STATUSES = [4, 5, 8];
+
+// EscrowStatus Pending: no seller has claimed the order yet
+export const UNCLAIMED_STATUS = 0;
+
+export interface EscrowParties {
+  escrow: string;
+  buyer: string;
+  seller: string;            // zero address until claimed
+  status: number;            // EscrowStatus
+  fileHash: string;          // from OrderCreated
+  orderAmountWei: bigint;    // deposit less platform fee and gas cushion
+  createdAt: number;         // unix seconds
+}
+
+// Parties to an escrow the factory created, or null for any other address
+export type EscrowPartiesLookup = (escrowAddress: string) => Promise<EscrowParties | null>;
+
+export type DownloadAccess = { allowed: true } | { allowed: false; reason: string };
+
+/**
+ * Look up file hashes against the factory's OrderCreated events
+ *
+ * A hash is live while any escrow created with it hasn't ended. fileHash
+ * isn't an indexed topic, so every OrderCreated event is read.
+ */
+export function createEscrowLookup(rpcUrl: string, factoryAddress: string): LiveHashLookup {
+  const provider = new ethers.JsonRpcProvider(rpcUrl);
+  const factory = new ethers.Contract(factoryAddress, FACTORY_ABI, provider);
+
+  return async (hashes) => {
+    const wanted = new Set(hashes.map(h => h.toLowerCase()));
+    const live = new Set<string>();
+
+    const events = await factory.queryFilter(factory.filters.OrderCreated());
+    for (const event of events) {
+      if (!('args' in event)) continue;
+      const hash = String(event.args.fileHash).toLowerCase();
+      if (!wanted.has(hash) || live.has(hash)) continue;
+
+      const escrow = new ethers.Contract(event.args.escrow, ESCROW_ABI, provider);
+      const status = Number(await escrow.status());
+      if (!ENDED_STATUSES.includes(status)) {
+        live.add(hash);
+      }
+    }
+
+    return live;
+  };
+}
+
+/**
+ * Read an escrow's buyer, seller, status, fileHash, amount and creation time
+ *
+ * The escrow is looked up by its indexed OrderCreated topic, so a contract
+ * the factory didn't create (which could report any seller) is rejected.
+ */
+export function createEscrowPartiesLookup(rpcUrl: string, factoryAddress: string): EscrowPartiesLookup {
+  const provider = new ethers.JsonRpcProvider(rpcUrl);
+  const factory = new ethers.Contract(factoryAddress, FACTORY_ABI, provider);
+
+  return async (escrowAddress) => {
+    const events = await factory.queryFilter(factory.filters.OrderCreated(null, escrowAddress));
+    const event = events.find(e => 'args' in e);
+    if (!event || !('args' in event)) return null;
+
+    const escrow = new ethers.Contract(escrowAddress, ESCROW_ABI, provider);
+    const [status, seller, orderAmount, createdAt] = await Promise.all([
+      escrow.status(),
+      escrow.seller(),
+      escrow.orderAmount(),
+      escrow.createdAt(),
+    ]);
+    return {
+      escrow: event.args.escrow,
+      buyer: event.args.buyer,
+      seller,
+      status: Number(status),
+      fileHash: String(event.args.fileHash).toLowerCase(),
+      orderAmountWei: BigInt(orderAmount),
+      createdAt: Number(createdAt),
+    };
+  };
+}
+
+/**
+ * Whether `wallet` may download a model with `fileHash` for this escrow
+ *
+ * Only the buyer and the claiming seller qualify, and only while the order
+ * is claimed and hasn't ended.
+ */
+export function checkDownloadAccess(parties: EscrowParties, wallet: string, fileHash: string): DownloadAccess {
+  if (parties.fileHash !== fileHash.toLowerCase()) {
+    return { allowed: false, reason: 'This file does not belong to the escrow' };
+  }
+  if (parties.status === UNCLAIMED_STATUS) {
+    return { allowed: false, reason: 'Files unlock once a seller claims the order' };
+  }
+  if (ENDED_STATUSES.includes(parties.status)) {
+    return { allowed: false, reason: 'The order has ended' };
+  }
+
+  const signer = wallet.toLowerCase();
+  if (signer !== parties.buyer.toLowerCase() && signer !== parties.seller.toLowerCase()) {
+    return { allowed: false, reason: 'Only the buyer and the claiming seller can download this model' };
+  }
+  return { allowed: true };
+}
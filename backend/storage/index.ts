@@ -0,0 +1,291 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { ethers } from 'ethers';
+import type { StorageBackend } from './backends.ts';
+
+export {
+  createEscrowLookup,
+  createEscrowPartiesLookup,
+  checkDownloadAccess,
+  ENDED_STATUSES,
+  UNCLAIMED_STATUS,
+} from './escrows.ts';
+export type { EscrowParties, EscrowPartiesLookup, DownloadAccess } from './escrows.ts';
+export { storageBackendFromEnv, assertStorageKey, STORAGE_BACKENDS } from './backends.ts';
+export type { StorageBackend, StorageBackendKind } from './backends.ts';
+export { createLocalBackend } from './local.ts';
+export { createS3Backend } from './s3.ts';
+export type { S3Options } from './s3.ts';
+export { createIpfsBackend } from './ipfs.ts';
+export type { IpfsOptions } from './ipfs.ts';
+export {
+  checkModelUpload,
+  sanitizeFileName,
+  DEFAULT_MAX_TRIANGLES,
+  DEFAULT_MAX_UNPACKED_BYTES,
+  UPLOAD_ERROR_STATUS,
+} from './uploads.ts';
+export type { UploadCheck, UploadError, UploadErrorCode, UploadLimits } from './uploads.ts';
+export {
+  createUploadSessions,
+  DEFAULT_CHUNK_SIZE,
+  DEFAULT_MAX_STAGED_BYTES,
+  DEFAULT_MAX_CLIENT_STAGED_BYTES,
+  DEFAULT_SESSION_TTL_MS,
+} from './sessions.ts';
+export type {
+  UploadSession,
+  SessionOwner,
+  UploadSessionOptions,
+  UploadSessionStore,
+  SessionResult,
+  ChunkResult,
+  AssembleResult,
+} from './sessions.ts';
+
+// ─────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────
+
+export interface StoredModel {
+  hash: string;              // keccak256 of the bytes, the fileHash orders record
+  fileName: string;          // <hash>.<ext>, the name the model is served under
+  size: number;              // bytes of the model itself
+  storedBytes: number;       // model plus derived files
+  originalNames: string[];   // every name it was uploaded as
+  derivedFiles: string[];    // repaired/oriented STLs and thumbnails made from it
+  uploadedAt: number;        // ms, first upload
+  lastUsedAt: number;        // ms, last upload or sweep that found a live escrow
+}
+
+export interface StorageQuota {
+  maxFileBytes: number;      // largest single upload
+  maxTotalBytes: number;     // everything in the store, derived files included
+}
+
+export interface ModelStoreOptions {
+  backend: StorageBackend;   // where model and derived files live
+  indexFile: string;         // JSON index on local disk, whichever backend
+  quota?: Partial<StorageQuota>;
+  gracePeriodMs?: number;    // how long an unreferenced model is kept
+}
+
+export type PutResult =
+  | { ok: true; model: StoredModel; deduplicated: boolean }
+  | { ok: false; reason: 'too-large' | 'storage-full'; message: string };
+
+export interface SweepResult {
+  kept: number;
+  deleted: StoredModel[];
+  freedBytes: number;
+}
+
+// Which of these file hashes belong to an escrow that hasn't ended
+export type LiveHashLookup = (hashes: string[]) => Promise<Set<string>>;
+
+export interface ModelStore {
+  put(bytes: Uint8Array, originalName: string, extension: string): Promise<PutResult>;
+  addDerivedFile(modelFileName: string, name: string, bytes: Uint8Array): Promise<void>;
+  read(fileName: string): Promise<Uint8Array | null>;
+  get(fileName: string): StoredModel | null;
+  findByFile(name: string): StoredModel | null;    // the model a file is, or was derived from
+  usage(): { models: number; bytes: number };
+  sweep(isLive: LiveHashLookup, now?: number): Promise<SweepResult>;
+}
+
+export const DEFAULT_QUOTA: StorageQuota = {
+  maxFileBytes: 50 * 1024 * 1024,
+  maxTotalBytes: 2 * 1024 * 1024 * 1024,
+};
+
+// Long enough for a buyer to upload today and fund the escrow later
+export const DEFAULT_GRACE_PERIOD_MS = 72 * 60 * 60 * 1000;
+
+interface StoreIndex {
+  models: Record<string, StoredModel>;
+}
+
+// ─────────────────────────────────────────────────────────────
+// Main API
+// ─────────────────────────────────────────────────────────────
+
+/**
+ * Content-addressed model storage
+ *
+ * Models are named by the keccak256 of their bytes, so uploading the same
+ * file twice stores it once. Changes to the index run one at a time, so
+ * concurrent requests in one process can't interleave. Quotas are checked
+ * on every new model; `sweep()` deletes models that have been unused for
+ * the grace period and aren't tied to a live escrow.
+ */
+export function createModelStore(options: ModelStoreOptions): ModelStore {
+  const { backend, indexFile } = options;
+  const quota = { ...DEFAULT_QUOTA, ...options.quota };
+  const gracePeriodMs = options.gracePeriodMs ?? DEFAULT_GRACE_PERIOD_MS;
+
+  fs.mkdirSync(path.dirname(indexFile), { recursive: true });
+
+  // Queue index changes behind each other; a failure doesn't block the next
+  let queue: Promise<unknown> = Promise.resolve();
+  const exclusive = <T>(change: () => Promise<T>): Promise<T> => {
+    const result = queue.then(change, change);
+    queue = result.catch(() => undefined);
+    return result;
+  };
+
+  const load = (): StoreIndex => {
+    try {
+      if (fs.existsSync(indexFile)) {
+        return JSON.parse(fs.readFileSync(indexFile, 'utf-8'));
+      }
+    } catch (err) {
+      console.error('Error loading storage index:', err);
+    }
+    return { models: {} };
+  };
+
+  // Write then rename, so a crash never leaves half an index
+  const save = (index: StoreIndex): void => {
+    const temp = `${indexFile}.tmp`;
+    fs.writeFileSync(temp, JSON.stringify(index, null, 2));
+    fs.renameSync(temp, indexFile);
+  };
+
+  const totalBytes = (index: StoreIndex): number =>
+    Object.values(index.models).reduce((sum, m) => sum + m.storedBytes, 0);
+
+  return {
+    async put(bytes, originalName, extension) {
+      if (bytes.length > quota.maxFileBytes) {
+        return {
+          ok: false,
+          reason: 'too-large',
+          message: `File is ${formatMb(bytes.length)}; the limit is ${formatMb(quota.maxFileBytes)}`,
+        };
+      }
+
+      const hash = ethers.keccak256(bytes);
+      const fileName = `${hash.slice(2)}.${extension.toLowerCase()}`;
+
+      return exclusive<PutResult>(async () => {
+        const index = load();
+        const now = Date.now();
+
+        const existing = index.models[fileName];
+        if (existing && await backend.exists(fileName)) {
+          if (!existing.originalNames.includes(originalName)) {
+            existing.originalNames.push(originalName);
+          }
+          existing.lastUsedAt = now;
+          save(index);
+          return { ok: true, model: existing, deduplicated: true };
+        }
+
+        if (totalBytes(index) + bytes.length > quota.maxTotalBytes) {
+          return {
+            ok: false,
+            reason: 'storage-full',
+            message: 'Model storage is full. Please try again later.',
+          };
+        }
+
+        await backend.write(fileName, bytes);
+        const model: StoredModel = {
+          hash,
+          fileName,
+          size: bytes.length,
+          storedBytes: bytes.length,
+          originalNames: [originalName],
+          derivedFiles: [],
+          uploadedAt: now,
+          lastUsedAt: now,
+        };
+        index.models[fileName] = model;
+        save(index);
+        return { ok: true, model, deduplicated: false };
+      });
+    },
+
+    addDerivedFile(modelFileName, name, bytes) {
+      return exclusive(async () => {
+        const index = load();
+        const model = index.models[modelFileName];
+        if (!model) {
+          throw new Error(`Unknown model: ${modelFileName}`);
+        }
+
+        // Derived files follow from the model's bytes, so a repeat upload
+        // keeps the stored copy
+        if (model.derivedFiles.includes(name)) return;
+
+        await backend.write(name, bytes);
+        model.derivedFiles.push(name);
+        model.storedBytes += bytes.length;
+        save(index);
+      });
+    },
+
+    read(fileName) {
+      return backend.read(fileName);
+    },
+
+    get(fileName) {
+      return load().models[fileName] ?? null;
+    },
+
+    findByFile(name) {
+      const models = Object.values(load().models);
+      return models.find(m => m.fileName === name || m.derivedFiles.includes(name)) ?? null;
+    },
+
+    usage() {
+      const index = load();
+      return { models: Object.keys(index.models).length, bytes: totalBytes(index) };
+    },
+
+    async sweep(isLive, now = Date.now()) {
+      const models = Object.values(load().models);
+      const expired = models.filter(m => now - m.lastUsedAt >= gracePeriodMs);
+      if (expired.length === 0) {
+        return { kept: models.length, deleted: [], freedBytes: 0 };
+      }
+
+      // If the lookup throws, nothing is deleted
+      const live = await isLive([...new Set(expired.map(m => m.hash))]);
+
+      return exclusive(async () => {
+        // Reload: uploads may have landed while the chain was queried
+        const index = load();
+        const deleted: StoredModel[] = [];
+        for (const { fileName } of expired) {
+          const model = index.models[fileName];
+          if (!model || now - model.lastUsedAt < gracePeriodMs) continue;
+          if (live.has(model.hash.toLowerCase())) {
+            model.lastUsedAt = now;
+            continue;
+          }
+          for (const name of [model.fileName, ...model.derivedFiles]) {
+            await backend.remove(name);
+          }
+          delete index.models[fileName];
+          deleted.push(model);
+        }
+        save(index);
+
+        return {
+          kept: Object.keys(index.models).length,
+          deleted,
+          freedBytes: deleted.reduce((sum, m) => sum + m.storedBytes, 0),
+        };
+      });
+    },
+  };
+}
+
+// ─────────────────────────────────────────────────────────────
+// Helpers
+// ─────────────────────────────────────────────────────────────
+
+function formatMb(bytes: number): string {
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
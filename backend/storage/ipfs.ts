@@ -0,0 +1,87 @@
+import * as path from 'path';
+import { assertStorageKey, type StorageBackend } from './backends.ts';
+
+export interface IpfsOptions {
+  apiUrl: string;            // Kubo RPC API, e.g. http://127.0.0.1:5001
+  root: string;              // MFS folder, e.g. /filamint/models
+}
+
+/**
+ * Files in a Kubo node's MFS (the node's own file tree)
+ *
+ * MFS gives IPFS content stable names, and the node never garbage
+ * collects what MFS references, so nothing needs pinning by hand. Reading
+ * goes through the RPC API too, so no public gateway is involved.
+ */
+export function createIpfsBackend(options: IpfsOptions): StorageBackend {
+  const api = options.apiUrl.replace(/\/+$/, '');
+
+  // Every RPC call is a POST; arguments go in the query string
+  const call = (command: string, params: Record<string, string>, body?: FormData): Promise<Response> => {
+    const query = new URLSearchParams(params).toString();
+    return fetch(`${api}/api/v0/${command}?${query}`, { method: 'POST', body });
+  };
+
+  const mfsPath = (key: string): string => {
+    assertStorageKey(key);
+    return path.posix.join(options.root, key);
+  };
+
+  // Kubo reports a missing file as a 500 with this message
+  const isMissing = (message: string): boolean => /does not exist|not found/i.test(message);
+
+  const errorMessage = async (response: Response): Promise<string> => {
+    const text = await response.text();
+    try {
+      return JSON.parse(text).Message ?? text;
+    } catch {
+      return text || response.statusText;
+    }
+  };
+
+  return {
+    kind: 'ipfs',
+
+    async write(key, bytes) {
+      const form = new FormData();
+      form.append('file', new Blob([new Uint8Array(bytes)]));
+      const response = await call('files/write', {
+        arg: mfsPath(key),
+        create: 'true',
+        parents: 'true',
+        truncate: 'true',
+      }, form);
+      if (!response.ok) {
+        throw new Error(`IPFS write ${key} failed: ${await errorMessage(response)}`);
+      }
+    },
+
+    async read(key) {
+      const response = await call('files/read', { arg: mfsPath(key) });
+      if (!response.ok) {
+        const message = await errorMessage(response);
+        if (isMissing(message)) return null;
+        throw new Error(`IPFS read ${key} failed: ${message}`);
+      }
+      return new Uint8Array(await response.arrayBuffer());
+    },
+
+    async exists(key) {
+      const response = await call('files/stat', { arg: mfsPath(key) });
+      if (response.ok) return true;
+      const message = await errorMessage(response);
+      if (isMissing(message)) return false;
+      throw new Error(`IPFS stat ${key} failed: ${message}`);
+    },
+
+    async remove(key) {
+      const response = await call('files/rm', { arg: mfsPath(key), force: 'true' });
+      if (!response.ok) {
+        const message = await errorMessage(response);
+        if (!isMissing(message)) {
+          throw new Error(`IPFS remove ${key} failed: ${message}`);
+        }
+      }
+    },
+  };
+}
@@ -0,0 +1,45 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { assertStorageKey, type StorageBackend } from './backends.ts';
+
+/**
+ * Files in one directory on this machine
+ */
+export function createLocalBackend(dir: string): StorageBackend {
+  const fileFor = (key: string): string => {
+    assertStorageKey(key);
+    return path.join(dir, key);
+  };
+
+  return {
+    kind: 'local',
+
+    async write(key, bytes) {
+      const file = fileFor(key);
+      await fs.mkdir(dir, { recursive: true });
+      await fs.writeFile(file, bytes);
+    },
+
+    async read(key) {
+      try {
+        return new Uint8Array(await fs.readFile(fileFor(key)));
+      } catch (err) {
+        if ((err as NodeJS.ErrnoException).code === 'ENOENT') return null;
+        throw err;
+      }
+    },
+
+    async exists(key) {
+      try {
+        await fs.access(fileFor(key));
+        return true;
+      } catch {
+        return false;
+      }
+    },
+
+    async remove(key) {
+      await fs.rm(fileFor(key), { force: true });
+    },
+  };
+}
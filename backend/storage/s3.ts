@@ -0,0 +1,139 @@
+import { createHash, createHmac } from 'crypto';
+import { assertStorageKey, type StorageBackend } from './backends.ts';
+
+export interface S3Options {
+  bucket: string;
+  region: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  endpoint?: string;         // e.g. http://127.0.0.1:9000 for MinIO; AWS when unset
+  prefix?: string;           // prepended to every key, e.g. "models/"
+}
+
+// SHA-256 of an empty body, sent with reads and deletes
+const EMPTY_PAYLOAD_HASH = createHash('sha256').update('').digest('hex');
+
+/**
+ * Objects in an S3-compatible bucket, over plain fetch
+ *
+ * Requests are signed with AWS Signature Version 4. With a custom endpoint
+ * the bucket goes in the path (http://host/bucket/key), which MinIO and
+ * most S3 clones expect; on AWS it goes in the host name.
+ */
+export function createS3Backend(options: S3Options): StorageBackend {
+  const { bucket, region, prefix = '' } = options;
+  const base = options.endpoint
+    ? `${options.endpoint.replace(/\/+$/, '')}/${bucket}`
+    : `https://${bucket}.s3.${region}.amazonaws.com`;
+
+  const request = async (method: string, key: string, body?: Uint8Array): Promise<Response> => {
+    assertStorageKey(key);
+    const url = new URL(`${base}/${encodeKey(prefix + key)}`);
+    const payloadHash = body ? createHash('sha256').update(body).digest('hex') : EMPTY_PAYLOAD_HASH;
+    const headers = signRequest(method, url, payloadHash, options);
+    // Copied so the body is backed by a plain ArrayBuffer, as fetch's types require
+    return fetch(url, { method, headers, body: body && new Uint8Array(body) });
+  };
+
+  const fail = async (method: string, key: string, response: Response): Promise<never> => {
+    const detail = (await response.text()).match(/<Message>(.*?)<\/Message>/)?.[1] ?? response.statusText;
+    throw new Error(`S3 ${method} ${prefix}${key} failed (${response.status}): ${detail}`);
+  };
+
+  return {
+    kind: 's3',
+
+    async write(key, bytes) {
+      const response = await request('PUT', key, bytes);
+      if (!response.ok) await fail('PUT', key, response);
+    },
+
+    async read(key) {
+      const response = await request('GET', key);
+      if (response.status === 404) return null;
+      if (!response.ok) await fail('GET', key, response);
+      return new Uint8Array(await response.arrayBuffer());
+    },
+
+    async exists(key) {
+      const response = await request('HEAD', key);
+      if (response.status === 404) return false;
+      if (!response.ok) await fail('HEAD', key, response);
+      return true;
+    },
+
+    async remove(key) {
+      const response = await request('DELETE', key);
+      if (!response.ok && response.status !== 404) await fail('DELETE', key, response);
+    },
+  };
+}
+
+// ─────────────────────────────────────────────────────────────
+// Signature Version 4
+// ─────────────────────────────────────────────────────────────
+
+/**
+ * Headers for a signed request with no query string. `host` is signed
+ * but left for fetch to send.
+ */
+function signRequest(
+  method: string,
+  url: URL,
+  payloadHash: string,
+  credentials: { region: string; accessKeyId: string; secretAccessKey: string },
+  now: Date = new Date()
+): Record<string, string> {
+  const amzDate = now.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+  const day = amzDate.slice(0, 8);
+  const scope = `${day}/${credentials.region}/s3/aws4_request`;
+
+  const signed: Record<string, string> = {
+    host: url.host,
+    'x-amz-content-sha256': payloadHash,
+    'x-amz-date': amzDate,
+  };
+  const names = Object.keys(signed).sort();
+  const canonicalRequest = [
+    method,
+    url.pathname,
+    '',
+    ...names.map(name => `${name}:${signed[name]}`),
+    '',
+    names.join(';'),
+    payloadHash,
+  ].join('\n');
+
+  const stringToSign = [
+    'AWS4-HMAC-SHA256',
+    amzDate,
+    scope,
+    createHash('sha256').update(canonicalRequest).digest('hex'),
+  ].join('\n');
+
+  let key: Buffer = hmac(`AWS4${credentials.secretAccessKey}`, day);
+  for (const part of [credentials.region, 's3', 'aws4_request']) {
+    key = hmac(key, part);
+  }
+  const signature = createHmac('sha256', key).update(stringToSign).digest('hex');
+
+  return {
+    'x-amz-content-sha256': payloadHash,
+    'x-amz-date': amzDate,
+    authorization:
+      `AWS4-HMAC-SHA256 Credential=${credentials.accessKeyId}/${scope}, ` +
+      `SignedHeaders=${names.join(';')}, Signature=${signature}`,
+  };
+}
+
+function hmac(key: string | Buffer, data: string): Buffer {
+  return createHmac('sha256', key).update(data).digest();
+}
+
+// S3 wants RFC 3986 encoding, with "/" kept between key segments
+function encodeKey(key: string): string {
+  return key
+    .split('/')
+    .map(part => encodeURIComponent(part).replace(/[!'()*]/g, c => `%${c.charCodeAt(0).toString(16).toUpperCase()}`))
+    .join('/');
+}
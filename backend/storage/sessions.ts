@@ -0,0 +1,336 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import { ethers } from 'ethers';
+import { getModelFormat, type ModelFormat } from '../pricing/model.ts';
+import { sanitizeFileName, type UploadError, type UploadLimits } from './uploads.ts';
+
+// ─────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────
+
+export interface UploadSession {
+  id: string;
+  fileName: string;          // sanitized upload name
+  format: ModelFormat;
+  size: number;              // bytes the client will send
+  hash: string;              // keccak256 the client computed; checked on completion
+  received: number;          // bytes stored so far, always from the start
+  chunkSize: number;         // largest chunk accepted
+  createdAt: number;         // ms
+  updatedAt: number;         // ms, last chunk
+  client: string;            // who opened it, for the per-client limit
+  secretHash: string;        // sha256 of the secret only the opener was given
+}
+
+// Who is asking: the client's address, and the session secret it was
+// given, if it has one
+export interface SessionOwner {
+  client: string;
+  secret?: string;
+}
+
+export interface UploadSessionOptions {
+  dir: string;               // local staging directory, whichever backend stores models
+  limits: UploadLimits;
+  chunkSize?: number;
+  maxStagedBytes?: number;   // declared size of every open session together
+  maxClientStagedBytes?: number;   // the same for one client's sessions
+  ttlMs?: number;            // how long an idle session is kept
+}
+
+export type SessionResult =
+  | { ok: true; session: UploadSession; secret: string; resumed: boolean }
+  | ({ ok: false } & UploadError);
+
+export type ChunkResult =
+  | { ok: true; session: UploadSession }
+  | ({ ok: false; received?: number } & UploadError);
+
+export type AssembleResult =
+  | { ok: true; session: UploadSession; bytes: Buffer }
+  | ({ ok: false } & UploadError);
+
+// Everything but create() needs the session's secret; a wrong one is
+// treated like an unknown id
+export interface UploadSessionStore {
+  create(name: string, size: number, hash: string, owner: SessionOwner): Promise<SessionResult>;
+  get(id: string, secret: string): UploadSession | null;
+  append(id: string, secret: string, offset: number, bytes: Uint8Array): Promise<ChunkResult>;
+  assemble(id: string, secret: string): Promise<AssembleResult>;
+  remove(id: string, secret: string): Promise<void>;
+  sweep(now?: number): Promise<number>;
+}
+
+export const DEFAULT_CHUNK_SIZE = 1024 * 1024;
+
+export const DEFAULT_MAX_STAGED_BYTES = 1024 * 1024 * 1024;
+
+// A few files at the default size limit, so one client can't fill staging
+export const DEFAULT_MAX_CLIENT_STAGED_BYTES = 200 * 1024 * 1024;
+
+// Long enough to pick an interrupted upload back up the next day
+export const DEFAULT_SESSION_TTL_MS = 24 * 60 * 60 * 1000;
+
+const SESSION_ID = /^[0-9a-f]{32}$/;
+
+// ─────────────────────────────────────────────────────────────
+// Main API
+// ─────────────────────────────────────────────────────────────
+
+/**
+ * Resumable uploads, staged in chunks on local disk
+ *
+ * The client declares the size and keccak256 of the whole file up front.
+ * Chunks must arrive in order at the offset the session has reached, so a
+ * client that loses track asks `get()` where to carry on. Each session
+ * has a secret, returned only by `create()`, that every later call must
+ * present. Creating a session for a hash and size with the secret of an
+ * open one resumes it, so the same file picks up where it stopped even
+ * after a reload; without the secret a new session is opened. `assemble()`
+ * checks the bytes hash to what was declared before they go to the model
+ * store.
+ */
+export function createUploadSessions(options: UploadSessionOptions): UploadSessionStore {
+  const { dir, limits } = options;
+  const chunkSize = options.chunkSize ?? DEFAULT_CHUNK_SIZE;
+  const maxStagedBytes = options.maxStagedBytes ?? DEFAULT_MAX_STAGED_BYTES;
+  const maxClientStagedBytes = options.maxClientStagedBytes ?? DEFAULT_MAX_CLIENT_STAGED_BYTES;
+  const ttlMs = options.ttlMs ?? DEFAULT_SESSION_TTL_MS;
+
+  fs.mkdirSync(dir, { recursive: true });
+
+  // Same queue as the model store: one session change at a time
+  let queue: Promise<unknown> = Promise.resolve();
+  const exclusive = <T>(change: () => Promise<T>): Promise<T> => {
+    const result = queue.then(change, change);
+    queue = result.catch(() => undefined);
+    return result;
+  };
+
+  const metaFile = (id: string): string => path.join(dir, `${id}.json`);
+  const partFile = (id: string): string => path.join(dir, `${id}.part`);
+
+  const load = (id: string): UploadSession | null => {
+    if (!SESSION_ID.test(id)) return null;
+    try {
+      return JSON.parse(fs.readFileSync(metaFile(id), 'utf-8'));
+    } catch {
+      return null;
+    }
+  };
+
+  // The session, if `secret` is the one it was opened with
+  const loadOwned = (id: string, secret: string): UploadSession | null => {
+    const session = load(id);
+    return session && ownsSession(session, secret) ? session : null;
+  };
+
+  const save = (session: UploadSession): void => {
+    const temp = `${metaFile(session.id)}.tmp`;
+    fs.writeFileSync(temp, JSON.stringify(session, null, 2));
+    fs.renameSync(temp, metaFile(session.id));
+  };
+
+  const all = (): UploadSession[] =>
+    fs.readdirSync(dir)
+      .filter(name => name.endsWith('.json'))
+      .map(name => load(path.basename(name, '.json')))
+      .filter((session): session is UploadSession => session !== null);
+
+  const discard = async (id: string): Promise<void> => {
+    await fs.promises.rm(metaFile(id), { force: true });
+    await fs.promises.rm(partFile(id), { force: true });
+  };
+
+  const sweep = (now = Date.now()): Promise<number> =>
+    exclusive(async () => {
+      const stale = all().filter(s => now - s.updatedAt >= ttlMs);
+      for (const { id } of stale) {
+        await discard(id);
+      }
+      return stale.length;
+    });
+
+  const notFound = (): { ok: false } & UploadError => ({
+    ok: false,
+    code: 'upload-not-found',
+    message: 'This upload has expired or was cancelled. Start it again.',
+  });
+
+  return {
+    async create(name, size, hash, owner) {
+      const fileName = sanitizeFileName(name);
+      if (!fileName) {
+        return { ok: false, code: 'invalid-name', message: 'The file name is empty or invalid' };
+      }
+      const format = getModelFormat(fileName);
+      if (!format) {
+        return {
+          ok: false,
+          code: 'unsupported-type',
+          message: 'Invalid file type. Only STL, OBJ, and 3MF files are allowed.',
+        };
+      }
+      if (size === 0) {
+        return { ok: false, code: 'empty-file', message: 'The file is empty' };
+      }
+      if (!Number.isSafeInteger(size) || size < 0 || !/^0x[0-9a-fA-F]{64}$/.test(hash)) {
+        return { ok: false, code: 'invalid-upload', message: 'An upload needs the file size and its keccak256' };
+      }
+      if (size > limits.maxFileBytes) {
+        return {
+          ok: false,
+          code: 'too-large',
+          message: `File is ${formatMb(size)}; the limit is ${formatMb(limits.maxFileBytes)}`,
+        };
+      }
+
+      await sweep();
+
+      return exclusive<SessionResult>(async () => {
+        const sessions = all();
+        const { secret } = owner;
+        const existing = secret
+          ? sessions.find(s => s.hash === hash.toLowerCase() && s.size === size && ownsSession(s, secret))
+          : undefined;
+        if (existing && secret) {
+          return { ok: true, session: existing, secret, resumed: true };
+        }
+
+        const clientStaged = sessions
+          .filter(s => s.client === owner.client)
+          .reduce((sum, s) => sum + s.size, 0);
+        if (clientStaged + size > maxClientStagedBytes) {
+          return {
+            ok: false,
+            code: 'too-many-uploads',
+            message: 'You have too many uploads in progress. Finish or cancel one first.',
+          };
+        }
+
+        const staged = sessions.reduce((sum, s) => sum + s.size, 0);
+        if (staged + size > maxStagedBytes) {
+          return {
+            ok: false,
+            code: 'storage-full',
+            message: 'Too many uploads are in progress. Please try again later.',
+          };
+        }
+
+        const newSecret = randomBytes(32).toString('hex');
+
+        const now = Date.now();
+        const session: UploadSession = {
+          id: randomBytes(16).toString('hex'),
+          fileName,
+          format,
+          size,
+          hash: hash.toLowerCase(),
+          received: 0,
+          chunkSize,
+          createdAt: now,
+          updatedAt: now,
+          client: owner.client,
+          secretHash: hashSecret(newSecret),
+        };
+        fs.writeFileSync(partFile(session.id), new Uint8Array(0));
+        save(session);
+        return { ok: true, session, secret: newSecret, resumed: false };
+      });
+    },
+
+    get(id, secret) {
+      return loadOwned(id, secret);
+    },
+
+    append(id, secret, offset, bytes) {
+      return exclusive<ChunkResult>(async () => {
+        const session = loadOwned(id, secret);
+        if (!session) return notFound();
+
+        // A retried chunk that already landed, or one sent past a gap
+        if (offset !== session.received) {
+          return {
+            ok: false,
+            code: 'offset-mismatch',
+            message: `Expected the chunk at byte ${session.received}`,
+            received: session.received,
+          };
+        }
+        if (bytes.length === 0 || bytes.length > session.chunkSize || offset + bytes.length > session.size) {
+          return {
+            ok: false,
+            code: 'invalid-chunk',
+            message: `Chunks must be 1 to ${session.chunkSize} bytes and end by byte ${session.size}`,
+          };
+        }
+
+        // Written at its offset, so a crash before the session is saved
+        // just means the chunk is written again
+        const handle = await fs.promises.open(partFile(id), 'r+');
+        try {
+          await handle.write(bytes, 0, bytes.length, offset);
+        } finally {
+          await handle.close();
+        }
+
+        session.received += bytes.length;
+        session.updatedAt = Date.now();
+        save(session);
+        return { ok: true, session };
+      });
+    },
+
+    async assemble(id, secret) {
+      const session = loadOwned(id, secret);
+      if (!session) return notFound();
+      if (session.received < session.size) {
+        return {
+          ok: false,
+          code: 'incomplete-upload',
+          message: `Only ${session.received} of ${session.size} bytes have arrived`,
+        };
+      }
+
+      const bytes = (await fs.promises.readFile(partFile(id))).subarray(0, session.size);
+      if (ethers.keccak256(bytes) !== session.hash) {
+        await exclusive(() => discard(id));
+        return {
+          ok: false,
+          code: 'hash-mismatch',
+          message: 'The uploaded bytes don\'t match the file hash. Upload the file again.',
+        };
+      }
+      return { ok: true, session, bytes };
+    },
+
+    remove(id, secret) {
+      return exclusive(async () => {
+        if (loadOwned(id, secret)) await discard(id);
+      });
+    },
+
+    sweep,
+  };
+}
+
+// ─────────────────────────────────────────────────────────────
+// Helpers
+// ─────────────────────────────────────────────────────────────
+
+function hashSecret(secret: string): string {
+  return createHash('sha256').update(secret).digest('hex');
+}
+
+// Metadata is read back from disk, so a corrupt file may lack the hash
+function ownsSession(session: UploadSession, secret: string): boolean {
+  if (typeof session.secretHash !== 'string' || !secret) return false;
+  const expected = Buffer.from(session.secretHash, 'hex');
+  const given = Buffer.from(hashSecret(secret), 'hex');
+  return expected.length === given.length && timingSafeEqual(expected, given);
+}
+
+function formatMb(bytes: number): string {
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
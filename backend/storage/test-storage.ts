@@ -0,0 +1,81 @@
+/**
+ * Storage Backend Test Script
+ *
+ * Writes, reads, checks and removes a file through the backend named by
+ * STORAGE_BACKEND, so a config can be tried before the app uses it.
+ *
+ * Usage: npm run test:storage
+ *
+ * Local stand-ins:
+ *   MinIO: docker run -p 9000:9000 minio/minio server /data
+ *          then create a bucket and set STORAGE_BACKEND=s3,
+ *          S3_ENDPOINT=http://127.0.0.1:9000, S3_BUCKET and the keys
+ *   IPFS:  docker run -p 5001:5001 ipfs/kubo
+ *          then set STORAGE_BACKEND=ipfs
+ */
+
+import * as dotenv from 'dotenv';
+import * as path from 'path';
+import * as os from 'os';
+import { fileURLToPath } from 'url';
+import { randomBytes } from 'crypto';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+dotenv.config({ path: path.join(__dirname, '..', '.env.back') });
+
+const { storageBackendFromEnv } = await import('./index.ts');
+
+console.log('🧪 Testing storage backend...');
+
+const backend = storageBackendFromEnv('test', path.join(os.tmpdir(), 'filamint-storage-test'));
+const key = `roundtrip-${Date.now()}.bin`;
+const bytes = new Uint8Array(randomBytes(64 * 1024));
+
+console.log(`   Backend: ${backend.kind}`);
+console.log(`   Key: ${key} (${bytes.length} bytes)`);
+
+async function testStorage() {
+  try {
+    console.log('\n📤 Writing...');
+    await backend.write(key, bytes);
+    console.log('✅ Written');
+
+    console.log('\n📥 Reading back...');
+    const read = await backend.read(key);
+    if (!read || Buffer.compare(Buffer.from(read), Buffer.from(bytes)) !== 0) {
+      console.error(`❌ Read ${read ? `${read.length} different bytes` : 'nothing'}`);
+      process.exitCode = 1;
+      return;
+    }
+    console.log('✅ Bytes match');
+
+    console.log('\n🔍 Checking exists...');
+    if (!await backend.exists(key)) {
+      console.error('❌ exists() returned false for a written key');
+      process.exitCode = 1;
+      return;
+    }
+    console.log('✅ Found');
+
+    console.log('\n🗑️  Removing...');
+    await backend.remove(key);
+    if (await backend.exists(key) || await backend.read(key) !== null) {
+      console.error('❌ Key still present after remove()');
+      process.exitCode = 1;
+      return;
+    }
+    await backend.remove(key);
+    console.log('✅ Removed (and removing again is fine)');
+
+    console.log('\n════════════════════════════════════════');
+    console.log(`  ${backend.kind.toUpperCase()} STORAGE OK`);
+    console.log('════════════════════════════════════════\n');
+
+  } catch (err) {
+    console.error('\n❌ Error:', (err as Error).message || err);
+    process.exitCode = 1;
+  }
+}
+
+testStorage();
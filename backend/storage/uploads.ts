@@ -0,0 +1,186 @@
+import { getModelFormat, sniffModelFormat, parseModel, type ModelFormat } from '../pricing/model.ts';
+import { ModelLimitError, type Mesh } from '../pricing/mesh.ts';
+
+// ─────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────
+
+export type UploadErrorCode =
+  | 'no-file'                // request had no file field
+  | 'invalid-name'           // nothing usable left after sanitizing
+  | 'unsupported-type'       // extension isn't .stl, .obj or .3mf
+  | 'empty-file'
+  | 'too-large'              // over maxFileBytes, or a 3MF over maxUnpackedBytes
+  | 'content-mismatch'       // bytes aren't the format the name says
+  | 'unreadable-model'       // right format, but the parser rejected it
+  | 'too-many-triangles'     // over maxTriangles
+  | 'storage-full'
+  | 'invalid-upload'         // chunked upload without a usable size or hash
+  | 'too-many-uploads'       // over one client's share of staging
+  | 'upload-not-found'       // chunked upload expired or was cancelled
+  | 'offset-mismatch'        // chunk isn't where the upload has got to
+  | 'invalid-chunk'          // chunk empty, too big or past the end
+  | 'incomplete-upload'      // completed before every byte arrived
+  | 'hash-mismatch'          // assembled bytes don't hash to what was declared
+  | 'upload-failed';         // anything unexpected
+
+export interface UploadError {
+  code: UploadErrorCode;
+  message: string;
+}
+
+export interface UploadLimits {
+  maxFileBytes: number;
+  maxTriangles: number;
+  maxUnpackedBytes: number;  // a 3MF's model parts, decompressed
+}
+
+export type UploadCheck =
+  | { valid: true; fileName: string; format: ModelFormat; mesh: Mesh }
+  | ({ valid: false } & UploadError);
+
+// Enough for detailed prints; far past this the estimate takes too long
+export const DEFAULT_MAX_TRIANGLES = 2_000_000;
+
+// 3MF XML takes 50-100 bytes a triangle, so about a million triangles;
+// checked against declared sizes before anything is inflated
+export const DEFAULT_MAX_UNPACKED_BYTES = 128 * 1024 * 1024;
+
+// HTTP status the upload route answers each code with
+export const UPLOAD_ERROR_STATUS: Record<UploadErrorCode, number> = {
+  'no-file': 400,
+  'invalid-name': 400,
+  'unsupported-type': 415,
+  'empty-file': 400,
+  'too-large': 413,
+  'content-mismatch': 415,
+  'unreadable-model': 422,
+  'too-many-triangles': 422,
+  'storage-full': 507,
+  'invalid-upload': 400,
+  'too-many-uploads': 429,
+  'upload-not-found': 404,
+  'offset-mismatch': 409,
+  'invalid-chunk': 400,
+  'incomplete-upload': 409,
+  'hash-mismatch': 422,
+  'upload-failed': 500,
+};
+
+const MAX_NAME_LENGTH = 200;
+
+const FORMAT_LABELS: Record<ModelFormat, string> = {
+  stl: 'an STL',
+  obj: 'an OBJ',
+  '3mf': 'a 3MF',
+};
+
+// ─────────────────────────────────────────────────────────────
+// Main API
+// ─────────────────────────────────────────────────────────────
+
+/**
+ * Validate an uploaded model before it is stored
+ *
+ * Checks run cheapest first: name, extension, size, then the content is
+ * sniffed against the extension and parsed. The parser stops as soon as
+ * the triangle or unpacked size limit is passed, so an oversized model is
+ * never held in full. The parsed mesh is returned so the caller doesn't
+ * parse it again.
+ */
+export function checkModelUpload(name: string, bytes: Buffer, limits: UploadLimits): UploadCheck {
+  const fileName = sanitizeFileName(name);
+  if (!fileName) {
+    return { valid: false, code: 'invalid-name', message: 'The file name is empty or invalid' };
+  }
+
+  const format = getModelFormat(fileName);
+  if (!format) {
+    return {
+      valid: false,
+      code: 'unsupported-type',
+      message: 'Invalid file type. Only STL, OBJ, and 3MF files are allowed.',
+    };
+  }
+
+  if (bytes.length === 0) {
+    return { valid: false, code: 'empty-file', message: 'The file is empty' };
+  }
+  if (bytes.length > limits.maxFileBytes) {
+    return {
+      valid: false,
+      code: 'too-large',
+      message: `File is ${formatMb(bytes.length)}; the limit is ${formatMb(limits.maxFileBytes)}`,
+    };
+  }
+
+  const sniffed = sniffModelFormat(bytes);
+  if (sniffed !== format) {
+    return {
+      valid: false,
+      code: 'content-mismatch',
+      message: sniffed
+        ? `The file is named .${format} but contains ${FORMAT_LABELS[sniffed]} model`
+        : `The file is named .${format} but isn't ${FORMAT_LABELS[format]} model`,
+    };
+  }
+
+  let mesh: Mesh;
+  try {
+    mesh = parseModel(bytes, format, {
+      maxTriangles: limits.maxTriangles,
+      maxUnpackedBytes: limits.maxUnpackedBytes,
+    });
+  } catch (err) {
+    if (err instanceof ModelLimitError) {
+      return {
+        valid: false,
+        code: err.limit === 'maxTriangles' ? 'too-many-triangles' : 'too-large',
+        message: err.message,
+      };
+    }
+    return {
+      valid: false,
+      code: 'unreadable-model',
+      message: `Could not read the ${format.toUpperCase()} file: ${err instanceof Error ? err.message : err}`,
+    };
+  }
+
+  if (mesh.triangles.length === 0) {
+    return { valid: false, code: 'unreadable-model', message: 'The model has no triangles' };
+  }
+
+  return { valid: true, fileName, format, mesh };
+}
+
+/**
+ * Make an uploaded name safe to store and show
+ *
+ * Drops any directory part, normalizes to NFC, removes control and
+ * reserved characters, collapses whitespace, trims leading and trailing
+ * dots, lowercases the extension and caps the length. Returns null if
+ * nothing is left.
+ */
+export function sanitizeFileName(name: string): string | null {
+  const base = name.normalize('NFC').split(/[\\/]/).pop() ?? '';
+  const cleaned = base
+    .replace(/[\u0000-\u001f\u007f<>:"|?*]/g, '')
+    .replace(/\s+/g, ' ')
+    .replace(/^[\s.]+|[\s.]+$/g, '');
+  if (!cleaned) return null;
+
+  const dot = cleaned.lastIndexOf('.');
+  const extension = dot > 0 ? cleaned.slice(dot).toLowerCase() : '';
+  const stem = (dot > 0 ? cleaned.slice(0, dot) : cleaned)
+    .slice(0, MAX_NAME_LENGTH - extension.length)
+    .replace(/[\s.]+$/, '');
+  return stem ? stem + extension : null;
+}
+
+// ─────────────────────────────────────────────────────────────
+// Helpers
+// ─────────────────────────────────────────────────────────────
+
+function formatMb(bytes: number): string {
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from 'next/server';
+import path from 'path';
+import { modelStore, verifyDownloadGrant, checkEscrowDownload } from '../../../lib/modelStore';
+import { parseGrant } from '../../../lib/downloadAccess';
+import { hashModelFile } from '../../../lib/fileHash';
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.stl': 'model/stl',
+  '.obj': 'model/obj',
+  '.3mf': 'model/3mf',
+  '.png': 'image/png',
+};
+
+// Serves stored files from the configured storage backend. Models and
+// derived STLs need a signed download grant from the order's buyer or
+// claiming seller.
+//
+// Thumbnails are public on purpose: sellers choose which pending order to
+// claim by its thumbnails, and before claiming they have no grant to sign.
+// A small render shows the shape, not printable geometry. Anyone who knows
+// a model's hash (it is on-chain) can fetch its thumbnails.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ name: string }> }
+) {
+  try {
+    const { name } = await params;
+
+    const extension = path.extname(name).toLowerCase();
+    const contentType = CONTENT_TYPES[extension];
+    if (path.basename(name) !== name || !contentType) {
+      return NextResponse.json(
+        { error: 'Invalid file name' },
+        { status: 400 }
+      );
+    }
+
+    const isThumbnail = extension === '.png';
+    const grant = isThumbnail ? null : parseGrant(request.nextUrl.searchParams);
+    const signer = grant && verifyDownloadGrant(grant);
+    if (!isThumbnail && !signer) {
+      return NextResponse.json(
+        { error: 'Sign a download challenge for this order to get the file' },
+        { status: 401 }
+      );
+    }
+
+    const bytes = await modelStore.read(name);
+    if (!bytes) {
+      return NextResponse.json(
+        { error: 'File not found' },
+        { status: 404 }
+      );
+    }
+
+    if (grant && signer) {
+      // Uploads from before content addressing are indexed under their old
+      // names once imported; anything else unindexed is checked by its own
+      // hash, which is what the order recorded
+      const fileHash = modelStore.findByFile(name)?.hash ?? hashModelFile(bytes);
+      const access = await checkEscrowDownload(grant.escrow, signer, fileHash);
+      if (!access.allowed) {
+        return NextResponse.json(
+          { error: access.reason },
+          { status: 403 }
+        );
+      }
+    }
+
+    return new NextResponse(new Uint8Array(bytes), {
+      headers: {
+        'Content-Type': contentType,
+        'Content-Length': String(bytes.length),
+        // Names are content hashes, so a thumbnail name always means the same
+        // image, but a day's cache lets a deleted model's thumbnails go soon
+        // after; models are checked on every request
+        'Cache-Control': isThumbnail ? 'public, max-age=86400' : 'private, no-store',
+      },
+    });
+
+  } catch (error) {
+    console.error('File read error:', error);
+    return NextResponse.json(
+      { error: 'Failed to read file' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ethers } from 'ethers';
+import { issueDownloadChallenge } from '../../../lib/modelStore';
+import { buildChallengeMessage } from '../../../lib/downloadAccess';
+
+// A challenge to sign before downloading an order's model files
+export async function POST(request: NextRequest) {
+  try {
+    const { escrowAddress } = await request.json();
+
+    if (typeof escrowAddress !== 'string' || !ethers.isAddress(escrowAddress)) {
+      return NextResponse.json(
+        { error: 'A valid escrowAddress is required' },
+        { status: 400 }
+      );
+    }
+
+    const challenge = issueDownloadChallenge(escrowAddress);
+    return NextResponse.json({
+      challenge,
+      message: buildChallengeMessage(challenge),
+    });
+
+  } catch (error) {
+    console.error('Challenge error:', error);
+    return NextResponse.json(
+      { error: 'Failed to create download challenge' },
+      { status: 500 }
+    );
+  }
+}
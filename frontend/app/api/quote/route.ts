@@ -0,0 +1,236 @@
+import { NextRequest, NextResponse } from 'next/server';
+import path from 'path';
+import {
+  getEstimateFromBuffer,
+  getModelFormat,
+  getMaterials,
+  getColors,
+  buildQuote,
+  MIN_SELLER_MARGIN,
+} from '../../../../backend/pricing/index.ts';
+import {
+  estimateShipping,
+  parseShippingRegion,
+  type ShippingRegion,
+} from '../../../../backend/shipping/estimate.ts';
+import {
+  signQuoteMessage,
+  usdCentsToWei,
+  type SignedQuote,
+} from '../../lib/signedQuote';
+import { hashModelFile } from '../../lib/fileHash';
+import { modelStore } from '../../lib/modelStore';
+
+interface QuoteRequest {
+  fileName?: string;
+  material?: string;
+  color?: string;
+  infillPercent?: number;
+  supportsEnabled?: boolean;
+  sellerMarginPercent?: number;
+  shipTo?: ShippingRegion;   // the origin country, mid-distance, when unset
+}
+
+// How long a buyer has to fund the escrow at the quoted ETH amount
+const QUOTE_TTL_SECONDS = 15 * 60;
+const ETH_PRICE_TTL_MS = 60 * 1000;
+const ETH_PRICE_TIMEOUT_MS = 5 * 1000;
+
+let cachedEthUsd: { rate: number; fetchedAt: number } | null = null;
+
+/**
+ * Reprice an uploaded model for the buyer's chosen settings
+ *
+ * This is the only place buyer-facing prices are computed, so every
+ * number comes from backend/pricing and materials.json. When a signing
+ * key is configured the deposit is also converted to wei and signed
+ * (EIP-712), so sellers can check an escrow was funded from this quote.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body: QuoteRequest = await request.json();
+    const {
+      fileName,
+      material = 'PLA',
+      color = 'White',
+      infillPercent = 20,
+      supportsEnabled = true,
+      sellerMarginPercent,
+      shipTo,
+    } = body;
+
+    // Only files the upload route wrote are accepted, by bare name
+    if (typeof fileName !== 'string' || !fileName || path.basename(fileName) !== fileName) {
+      return NextResponse.json(
+        { error: 'A valid uploaded fileName is required' },
+        { status: 400 }
+      );
+    }
+
+    const format = getModelFormat(fileName);
+    if (!format) {
+      return NextResponse.json(
+        { error: 'Invalid file type. Only STL, OBJ, and 3MF files are allowed.' },
+        { status: 400 }
+      );
+    }
+
+    // The body is whatever the client sent, whatever QuoteRequest says
+    if (typeof material !== 'string' || typeof color !== 'string') {
+      return NextResponse.json({ error: 'Material and color must be text' }, { status: 400 });
+    }
+    if (!getMaterials().includes(material.toUpperCase().replace(/\s+/g, '_'))) {
+      return NextResponse.json({ error: `Unknown material: ${material}` }, { status: 400 });
+    }
+    if (!getColors().includes(color)) {
+      return NextResponse.json({ error: `Unknown color: ${color}` }, { status: 400 });
+    }
+    // Whole percents only: the signed quote's infill is a uint8, and the
+    // price must be for exactly the infill it states
+    if (!Number.isInteger(infillPercent) || infillPercent < 0 || infillPercent > 100) {
+      return NextResponse.json({ error: 'Infill must be a whole number from 0 to 100' }, { status: 400 });
+    }
+    // BuyerView enforces the same minimum, but a signed quote must not rely on it
+    if (
+      sellerMarginPercent !== undefined &&
+      (typeof sellerMarginPercent !== 'number' || !Number.isFinite(sellerMarginPercent) || sellerMarginPercent < MIN_SELLER_MARGIN)
+    ) {
+      return NextResponse.json(
+        { error: `Minimum seller margin is ${MIN_SELLER_MARGIN}%` },
+        { status: 400 }
+      );
+    }
+
+    const origin = getShippingOrigin();
+    const destination = shipTo === undefined
+      ? { ok: true as const, region: { country: origin.country } }
+      : parseShippingRegion(shipTo);
+    if (!destination.ok) {
+      return NextResponse.json({ error: destination.message }, { status: 400 });
+    }
+
+    const stored = await modelStore.read(fileName);
+    if (!stored) {
+      return NextResponse.json(
+        { error: 'Uploaded file not found. Please upload it again.' },
+        { status: 404 }
+      );
+    }
+
+    const buffer = Buffer.from(stored);
+    const estimate = getEstimateFromBuffer(buffer, material, color, infillPercent, format, {
+      supports: supportsEnabled,
+    });
+
+    const shipping = await estimateShipping(estimate, origin, destination.region);
+    if (!shipping.ok) {
+      return NextResponse.json({ error: `Can't ship this part: ${shipping.message}` }, { status: 422 });
+    }
+
+    const quote = buildQuote(estimate, {
+      sellerMarginPercent,
+      shippingCost: shipping.cost,
+      shippingService: shipping.approximate
+        ? `${shipping.carrier} ${shipping.service}, estimated`
+        : `${shipping.carrier} ${shipping.service}`,
+    });
+
+    const ethUsdRate = await getEthUsdRate();
+    if (!ethUsdRate) {
+      return NextResponse.json(
+        { error: 'ETH price is unavailable. Please try again shortly.' },
+        { status: 503 }
+      );
+    }
+
+    const signedQuote = await signQuote({
+      fileHash: hashModelFile(buffer),
+      material,
+      color,
+      infillPercent,
+      depositUsd: quote.deposit,
+      ethUsdRate,
+    });
+
+    return NextResponse.json({ estimate, quote, shipping, ethUsdRate, signedQuote });
+
+  } catch (error) {
+    console.error('Quote error:', error);
+    return NextResponse.json(
+      { error: 'Failed to price file' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * ETH/USD rate from CoinGecko, cached for a minute. ETH_USD_RATE pins it
+ * for local chains and tests. A request that fails or takes over five
+ * seconds falls back to the last rate fetched.
+ */
+async function getEthUsdRate(): Promise<number | null> {
+  const pinned = Number(process.env.ETH_USD_RATE);
+  if (pinned > 0) return pinned;
+
+  if (cachedEthUsd && Date.now() - cachedEthUsd.fetchedAt < ETH_PRICE_TTL_MS) {
+    return cachedEthUsd.rate;
+  }
+
+  try {
+    const response = await fetch(
+      'https://api.coingecko.com/api/v3/simple/price?ids=ethereum&vs_currencies=usd',
+      { signal: AbortSignal.timeout(ETH_PRICE_TIMEOUT_MS) }
+    );
+    const data = await response.json();
+    const rate = Number(data?.ethereum?.usd);
+    if (!(rate > 0)) throw new Error('Unexpected price response');
+    cachedEthUsd = { rate, fetchedAt: Date.now() };
+    return rate;
+  } catch (err) {
+    console.error('Failed to fetch ETH price:', err);
+    // A slightly stale rate beats refusing to quote
+    return cachedEthUsd?.rate ?? null;
+  }
+}
+
+/**
+ * Where sellers ship from, for zone pricing: SHIP_FROM_COUNTRY (default US)
+ * and SHIP_FROM_ZIP
+ */
+function getShippingOrigin(): ShippingRegion {
+  return {
+    country: (process.env.SHIP_FROM_COUNTRY || 'US').toUpperCase(),
+    zip: process.env.SHIP_FROM_ZIP || undefined,
+  };
+}
+
+/**
+ * Sign the deposit with QUOTE_SIGNER_PRIVATE_KEY, or return null when
+ * quote signing isn't configured
+ */
+async function signQuote(input: {
+  fileHash: string;
+  material: string;
+  color: string;
+  infillPercent: number;
+  depositUsd: number;
+  ethUsdRate: number;
+}): Promise<SignedQuote | null> {
+  const privateKey = process.env.QUOTE_SIGNER_PRIVATE_KEY;
+  if (!privateKey) return null;
+
+  const usdTotalCents = BigInt(Math.round(input.depositUsd * 100));
+  const ethUsdCents = BigInt(Math.round(input.ethUsdRate * 100));
+  const message = {
+    fileHash: input.fileHash,
+    material: input.material,
+    color: input.color,
+    infillPercent: input.infillPercent,
+    usdTotalCents: usdTotalCents.toString(),
+    ethUsdCents: ethUsdCents.toString(),
+    amountWei: usdCentsToWei(usdTotalCents, ethUsdCents).toString(),
+    expiry: Math.floor(Date.now() / 1000) + QUOTE_TTL_SECONDS,
+  };
+
+  return signQuoteMessage(message, privateKey);
+}
@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ethers } from 'ethers';
+import { readStoredQuote, storeQuote } from '../../../lib/modelStore';
+import type { SignedQuote } from '../../../lib/signedQuote';
+
+// The signed quote an order's escrow was funded from. The buyer stores it
+// after funding; sellers read it to check the deposit.
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ escrow: string }> }
+) {
+  const { escrow } = await params;
+  if (!ethers.isAddress(escrow)) {
+    return NextResponse.json({ error: 'Invalid escrow address' }, { status: 400 });
+  }
+
+  const quote = readStoredQuote(escrow);
+  if (!quote) {
+    return NextResponse.json({ error: 'No quote stored for this escrow' }, { status: 404 });
+  }
+  return NextResponse.json({ quote });
+}
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ escrow: string }> }
+) {
+  try {
+    const { escrow } = await params;
+    if (!ethers.isAddress(escrow)) {
+      return NextResponse.json({ error: 'Invalid escrow address' }, { status: 400 });
+    }
+
+    const { quote } = (await request.json()) as { quote?: SignedQuote };
+    if (!quote || typeof quote !== 'object' || !quote.message || typeof quote.signature !== 'string') {
+      return NextResponse.json({ error: 'A signed quote is required' }, { status: 400 });
+    }
+
+    const result = await storeQuote(escrow, quote);
+    if (!result.saved) {
+      return NextResponse.json({ error: result.reason }, { status: result.status });
+    }
+    return NextResponse.json({ saved: true });
+
+  } catch (error) {
+    console.error('Quote store error:', error);
+    return NextResponse.json(
+      { error: 'Failed to store quote' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,28 @@
+import { NextRequest } from 'next/server';
+import { uploadSessions } from '../../../../../lib/modelStore';
+import { storeModelUpload, uploadError } from '../../../../../lib/modelUpload';
+
+// Finish a chunked upload: check the bytes hash to what the session
+// declared, then validate, store and price them like /api/upload
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params;
+    const secret = request.headers.get('upload-secret') ?? '';
+    const assembled = await uploadSessions.assemble(id, secret);
+    if (!assembled.ok) {
+      return uploadError(assembled.code, assembled.message);
+    }
+
+    // Keep the staged bytes if storing failed on our side, so completing
+    // can be retried without sending them again
+    const response = await storeModelUpload(assembled.session.fileName, assembled.bytes);
+    if (response.status < 500) {
+      await uploadSessions.remove(id, secret);
+    }
+    return response;
+
+  } catch (error) {
+    console.error('Upload completion error:', error);
+    return uploadError('upload-failed', 'Failed to finish the upload');
+  }
+}
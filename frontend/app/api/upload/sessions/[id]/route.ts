@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { uploadSessions } from '../../../../lib/modelStore';
+import { uploadError } from '../../../../lib/modelUpload';
+
+type Params = { params: Promise<{ id: string }> };
+
+// Every request names the session's secret in Upload-Secret; a wrong one
+// gets the same 404 as an unknown upload
+
+// How far a chunked upload has got
+export async function GET(request: NextRequest, { params }: Params) {
+  const { id } = await params;
+  const session = uploadSessions.get(id, request.headers.get('upload-secret') ?? '');
+  if (!session) {
+    return uploadError('upload-not-found', 'This upload has expired or was cancelled. Start it again.');
+  }
+
+  return NextResponse.json({
+    uploadId: session.id,
+    fileName: session.fileName,
+    size: session.size,
+    received: session.received,
+    chunkSize: session.chunkSize,
+  });
+}
+
+// One chunk as the raw request body, at the byte offset in Upload-Offset
+export async function PUT(request: NextRequest, { params }: Params) {
+  try {
+    const { id } = await params;
+    const secret = request.headers.get('upload-secret') ?? '';
+    const session = uploadSessions.get(id, secret);
+    if (!session) {
+      return uploadError('upload-not-found', 'This upload has expired or was cancelled. Start it again.');
+    }
+
+    const offset = Number(request.headers.get('upload-offset'));
+    if (!Number.isSafeInteger(offset) || offset < 0) {
+      return uploadError('invalid-chunk', 'Upload-Offset must be the byte offset of the chunk');
+    }
+
+    // Refuse oversized chunks before reading them
+    const contentLength = Number(request.headers.get('content-length'));
+    if (contentLength > session.chunkSize) {
+      return uploadError('invalid-chunk', `Chunks can be at most ${session.chunkSize} bytes`);
+    }
+
+    const bytes = new Uint8Array(await request.arrayBuffer());
+    const result = await uploadSessions.append(id, secret, offset, bytes);
+    if (!result.ok) {
+      // The client carries on from `received` after a mismatch
+      return uploadError(result.code, result.message, { received: result.received });
+    }
+
+    return NextResponse.json({
+      uploadId: id,
+      size: result.session.size,
+      received: result.session.received,
+    });
+
+  } catch (error) {
+    console.error('Upload chunk error:', error);
+    return uploadError('upload-failed', 'Failed to store the chunk');
+  }
+}
+
+// Cancel an upload and drop what has been staged
+export async function DELETE(request: NextRequest, { params }: Params) {
+  const { id } = await params;
+  await uploadSessions.remove(id, request.headers.get('upload-secret') ?? '');
+  return new NextResponse(null, { status: 204 });
+}
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { uploadSessions } from '../../../lib/modelStore';
+import { uploadClient, uploadError } from '../../../lib/modelUpload';
+
+// Start a chunked upload, or pick up the open one for the same file. The
+// client sends the name, size and keccak256 of the whole file, plus the
+// session's secret to resume, and gets back where to carry on from and the
+// secret for every later request.
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => null);
+    const { fileName, size, hash, secret } = body ?? {};
+
+    if (typeof fileName !== 'string') {
+      return uploadError('no-file', 'No file name provided');
+    }
+    if (typeof size !== 'number' || typeof hash !== 'string') {
+      return uploadError('invalid-upload', 'An upload needs the file size and its keccak256');
+    }
+
+    const result = await uploadSessions.create(fileName, size, hash, {
+      client: uploadClient(request),
+      secret: typeof secret === 'string' ? secret : undefined,
+    });
+    if (!result.ok) {
+      return uploadError(result.code, result.message);
+    }
+
+    const { session, resumed } = result;
+    return NextResponse.json(
+      {
+        uploadId: session.id,
+        secret: result.secret,
+        fileName: session.fileName,
+        size: session.size,
+        received: session.received,
+        chunkSize: session.chunkSize,
+        resumed,
+      },
+      { status: resumed ? 200 : 201 }
+    );
+
+  } catch (error) {
+    console.error('Upload session error:', error);
+    return uploadError('upload-failed', 'Failed to start the upload');
+  }
+}
@@ -1,7 +1,9 @@
 'use client';
 
 import { useState, useEffect, useCallback } from 'react';
+import Image from 'next/image';
 import FileUpload from './FileUpload';
+import ModelViewer from './ModelViewer';
 import { useWalletContext } from '../context/WalletContext';
 import { 
   useCreateOrder, 
@@ -18,74 +20,53 @@ import {
   CONTRACT_ADDRESSES,
   formatTimeRemaining,
 } from '../hooks/useContract';
-
-interface PrintEstimate {
-  dimensions: { x: number; y: number; z: number };
-  volumeCm3: number;
-  weightGrams: number;
-  isWatertight: boolean;
-  material: string;
-  color: string;
-  infillPercent: number;
-  materialCost: number;
-  availableMaterials: string[];
-  availableColors: string[];
-}
+import { MIN_SELLER_MARGIN } from '../../../backend/pricing/quote.ts';
+import type { PrintEstimate, PrintQuote, RepairReport } from '../../../backend/pricing/index.ts';
+import type { UploadError } from '../../../backend/storage/index.ts';
+import type { ShippingEstimate } from '../../../backend/shipping/estimate.ts';
+import { isQuoteExpired, saveOrderQuote, type SignedQuote } from '../lib/signedQuote';
+import { uploadInChunks, type UploadProgress } from '../lib/chunkedUpload';
+import type { OrderMetadata } from '../types/order';
 
 interface UploadResponse {
   success: boolean;
   fileName: string;
+  fileHash: string;               // keccak256 of the file bytes
   originalName: string;
   size: number;
   path: string;
+  deduplicated: boolean;          // same bytes were already stored
+  repair: RepairReport | null;
+  repairedFileName: string | null;
+  orientedFileName: string | null;
+  thumbnails: string[];
   estimate: PrintEstimate | null;
 }
 
-// Order metadata stored in localStorage (not on-chain)
-interface OrderMetadata {
-  escrowAddress: string;
-  fileName: string;
-  originalName: string;
-  material: string;
-  color: string;
-  infillPercent: number;
-  dimensions: { x: number; y: number; z: number };
-  totalCostUsd: number;
-  totalCostEth: string;
-  createdAt: number;
-}
+type ShippingQuote = Extract<ShippingEstimate, { ok: true }>;
 
-// Material densities (g/cm³) and prices ($/kg)
-const MATERIAL_DATA: Record<string, { density: number; pricePerKg: number; wasteFactor: number }> = {
-  PLA: { density: 1.24, pricePerKg: 20, wasteFactor: 1.05 },
-  ABS: { density: 1.04, pricePerKg: 22, wasteFactor: 1.08 },
-  PETG: { density: 1.27, pricePerKg: 25, wasteFactor: 1.06 },
-  TPU: { density: 1.21, pricePerKg: 35, wasteFactor: 1.10 },
-  NYLON: { density: 1.14, pricePerKg: 45, wasteFactor: 1.08 },
-  ASA: { density: 1.07, pricePerKg: 30, wasteFactor: 1.07 },
-  PC: { density: 1.20, pricePerKg: 40, wasteFactor: 1.10 },
-  HIPS: { density: 1.04, pricePerKg: 22, wasteFactor: 1.06 },
-  PVA: { density: 1.23, pricePerKg: 60, wasteFactor: 1.12 },
-  CF_PLA: { density: 1.30, pricePerKg: 50, wasteFactor: 1.08 },
-  WOOD_PLA: { density: 1.15, pricePerKg: 35, wasteFactor: 1.10 },
-  RESIN_STANDARD: { density: 1.10, pricePerKg: 35, wasteFactor: 1.15 },
-};
+interface QuoteResponse {
+  estimate: PrintEstimate;
+  quote: PrintQuote;
+  shipping: ShippingQuote;
+  ethUsdRate: number;
+  signedQuote: SignedQuote | null;
+}
 
-// Color modifiers
-const COLOR_MODIFIERS: Record<string, number> = {
-  White: 1.0, Black: 1.0, Gray: 1.0, Red: 1.0, Blue: 1.0, Green: 1.0, Yellow: 1.0, Orange: 1.0,
-  'Ocean Blue': 1.0, 'Forest Green': 1.0, 'Crimson Red': 1.0,
-  Silver: 1.15, Gold: 1.15, Bronze: 1.15, Copper: 1.15, Chrome: 1.15,
-  'Silk White': 1.20, 'Silk Blue': 1.20, 'Silk Red': 1.20, 'Silk Green': 1.20, 'Silk Gold': 1.20, 'Silk Silver': 1.20,
-  'Glow Green': 1.25, 'Glow Blue': 1.25, 'Glow White': 1.25, 'Glow Orange': 1.25,
-  Clear: 1.10, 'Transparent Blue': 1.10, 'Transparent Red': 1.10, 'Transparent Green': 1.10,
-  'Matte Black': 1.05, 'Matte White': 1.05, 'Matte Gray': 1.05,
-  Rainbow: 1.30, Galaxy: 1.30, Marble: 1.30,
-};
+// Wait for the buyer to stop dragging sliders before repricing
+const QUOTE_DEBOUNCE_MS = 300;
 
-const SHIPPING_COST = 5.00;
-const MIN_COST = 0.50;
-const DEPOSIT_MULTIPLIER = 1.025; // 2% gas cushion + 0.5% platform fee
+// Destinations offered for the shipping estimate; anywhere else is priced as international
+const SHIP_TO_COUNTRIES = [
+  { code: 'US', name: 'United States' },
+  { code: 'CA', name: 'Canada' },
+  { code: 'MX', name: 'Mexico' },
+  { code: 'GB', name: 'United Kingdom' },
+  { code: 'DE', name: 'Germany' },
+  { code: 'FR', name: 'France' },
+  { code: 'AU', name: 'Australia' },
+  { code: 'JP', name: 'Japan' },
+];
 
 // LocalStorage helpers for order metadata
 const ORDERS_STORAGE_KEY = 'filamint_buyer_orders';
@@ -142,22 +123,33 @@ export default function BuyerView() {
   
   const [isUploading, setIsUploading] = useState(false);
   const [uploadData, setUploadData] = useState<UploadResponse | null>(null);
+  // The buyer's own copy of the upload; stored models need a signed grant
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
+  // Upload rejections are shown by FileUpload, with their code
+  const [uploadError, setUploadError] = useState<UploadError | null>(null);
+  const [uploadProgress, setUploadProgress] = useState<UploadProgress | null>(null);
+  // Kept after a dropped connection so the upload can carry on
+  const [interruptedFile, setInterruptedFile] = useState<File | null>(null);
   const [successMessage, setSuccessMessage] = useState<string | null>(null);
   
-  // Base volume from initial upload (doesn't change)
-  const [baseVolumeCm3, setBaseVolumeCm3] = useState<number>(0);
-  
   // Configurable settings
   const [material, setMaterial] = useState('PLA');
   const [color, setColor] = useState('White');
   const [infillPercent, setInfillPercent] = useState(20);
+  const [supportsEnabled, setSupportsEnabled] = useState(true);
   const [sellerMargin, setSellerMargin] = useState(15);
+  const [shipCountry, setShipCountry] = useState('US');
+  const [shipZip, setShipZip] = useState('');
   
-  // Calculated values
+  // Calculated values (always from /api/quote)
   const [estimate, setEstimate] = useState<PrintEstimate | null>(null);
+  const [quote, setQuote] = useState<PrintQuote | null>(null);
+  const [shipping, setShipping] = useState<ShippingQuote | null>(null);
+  const [isQuoting, setIsQuoting] = useState(false);
   
-  // ETH price from CoinGecko
+  // Signed deposit and the ETH price it was converted at
+  const [signedQuote, setSignedQuote] = useState<SignedQuote | null>(null);
   const [ethPrice, setEthPrice] = useState<number | null>(null);
   
   // My Orders state
@@ -169,26 +161,6 @@ export default function BuyerView() {
   const [offerPercent, setOfferPercent] = useState(50);
   const [actionInProgress, setActionInProgress] = useState<string | null>(null);
 
-  // Fetch ETH price on mount
-  useEffect(() => {
-    const fetchEthPrice = async () => {
-      try {
-        const response = await fetch(
-          'https://api.coingecko.com/api/v3/simple/price?ids=ethereum&vs_currencies=usd'
-        );
-        const data = await response.json();
-        setEthPrice(data.ethereum.usd);
-      } catch (err) {
-        console.error('Failed to fetch ETH price:', err);
-        setEthPrice(3500); // Fallback
-      }
-    };
-    fetchEthPrice();
-    // Refresh every 60 seconds
-    const interval = setInterval(fetchEthPrice, 60000);
-    return () => clearInterval(interval);
-  }, []);
-
   // Load my orders when wallet connects
   const loadMyOrders = useCallback(async () => {
     if (!walletAddress || !CONTRACT_ADDRESSES.factory) return;
@@ -219,75 +191,114 @@ export default function BuyerView() {
     loadMyOrders();
   }, [loadMyOrders]);
 
-  // Recalculate when settings change
+  // Price the current settings on the server and keep the signed quote
+  const requestQuote = useCallback(async (fileName: string, signal?: AbortSignal) => {
+    const response = await fetch('/api/quote', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        fileName,
+        material,
+        color,
+        infillPercent,
+        supportsEnabled,
+        sellerMarginPercent: sellerMargin,
+        shipTo: { country: shipCountry, zip: shipZip.trim() || undefined },
+      }),
+      signal,
+    });
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new Error(data.error || 'Failed to price file');
+    }
+
+    const priced = data as QuoteResponse;
+    setEstimate(priced.estimate);
+    setQuote(priced.quote);
+    setShipping(priced.shipping);
+    setEthPrice(priced.ethUsdRate);
+    setSignedQuote(priced.signedQuote);
+    return priced;
+  }, [material, color, infillPercent, supportsEnabled, sellerMargin, shipCountry, shipZip]);
+
+  // Reprice on the server when settings change
+  const uploadedFileName = uploadData?.estimate ? uploadData.fileName : null;
   useEffect(() => {
-    if (!estimate || baseVolumeCm3 === 0) return;
-    
-    const matKey = material.toUpperCase().replace(/\s+/g, '_');
-    const matData = MATERIAL_DATA[matKey] || MATERIAL_DATA.PLA;
-    const colorMod = COLOR_MODIFIERS[color] ?? 1.0;
-    
-    const shellRatio = 0.15;
-    const effectiveVolume = baseVolumeCm3 * (shellRatio + (1 - shellRatio) * (infillPercent / 100));
-    const weightGrams = effectiveVolume * matData.density;
-    const pricePerGram = matData.pricePerKg / 1000;
-    const rawCost = weightGrams * pricePerGram * colorMod * matData.wasteFactor;
-    const materialCost = Math.max(rawCost, MIN_COST);
-    
-    setEstimate(prev => prev ? {
-      ...prev,
-      material,
-      color,
-      infillPercent,
-      weightGrams: Math.round(weightGrams * 100) / 100,
-      materialCost: Math.round(materialCost * 100) / 100,
-    } : null);
-  }, [material, color, infillPercent, baseVolumeCm3, estimate]);
+    if (!uploadedFileName) return;
+
+    const controller = new AbortController();
+    setIsQuoting(true);
+
+    const timer = setTimeout(async () => {
+      try {
+        await requestQuote(uploadedFileName, controller.signal);
+        setError(null);
+      } catch (err) {
+        if (controller.signal.aborted) return;
+        console.error('Quote error:', err);
+        setError(err instanceof Error ? err.message : 'Failed to price file');
+      } finally {
+        if (!controller.signal.aborted) setIsQuoting(false);
+      }
+    }, QUOTE_DEBOUNCE_MS);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [uploadedFileName, requestQuote]);
 
   const handleFileSelect = async (file: File) => {
     setIsUploading(true);
     setError(null);
+    setUploadError(null);
+    setUploadProgress(null);
+    setInterruptedFile(null);
     setSuccessMessage(null);
     setUploadData(null);
     setEstimate(null);
-    setBaseVolumeCm3(0);
+    setQuote(null);
+    setShipping(null);
+    setSignedQuote(null);
+    if (previewUrl) URL.revokeObjectURL(previewUrl);
+    setPreviewUrl(URL.createObjectURL(file));
 
     try {
-      const formData = new FormData();
-      formData.append('file', file);
+      // Chunked, so a dropped connection resumes instead of starting over
+      const result = await uploadInChunks<UploadResponse>(file, setUploadProgress);
 
-      const response = await fetch('/api/upload', {
-        method: 'POST',
-        body: formData,
-      });
-
-      const data: UploadResponse = await response.json();
-
-      if (!response.ok) {
-        throw new Error((data as { error?: string }).error || 'Upload failed');
+      if (!result.ok) {
+        setUploadError(result.error);
+        if (result.resumable) setInterruptedFile(file);
+        return;
       }
 
+      const data = result.data;
       setUploadData(data);
       if (data.estimate) {
         setEstimate(data.estimate);
-        setBaseVolumeCm3(data.estimate.volumeCm3);
         setMaterial(data.estimate.material);
         setColor(data.estimate.color);
         setInfillPercent(data.estimate.infillPercent);
+        setSupportsEnabled(data.estimate.supportsEnabled);
       }
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Upload failed');
+      setUploadError({
+        code: 'upload-failed',
+        message: err instanceof Error ? err.message : 'Upload failed',
+      });
       console.error('Upload error:', err);
     } finally {
       setIsUploading(false);
+      setUploadProgress(null);
     }
   };
 
   // Calculate totals
-  const materialCost = estimate?.materialCost ?? 0;
-  const marginAmount = (materialCost + SHIPPING_COST) * (sellerMargin / 100);
-  const totalCost = materialCost + SHIPPING_COST + marginAmount;
-  const depositAmount = totalCost * DEPOSIT_MULTIPLIER;
+  const totalCost = quote?.total ?? 0;
+  const depositAmount = quote?.deposit ?? 0;
+  const escrowFees = quote ? quote.platformFee + quote.gasCushion : 0;
 
   // Convert USD to ETH
   const toEth = (usd: number): string => {
@@ -295,11 +306,6 @@ export default function BuyerView() {
     return (usd / ethPrice).toFixed(6);
   };
 
-  const toEthNumber = (usd: number): number => {
-    if (!ethPrice) return 0;
-    return usd / ethPrice;
-  };
-
   // Handle margin slider
   const handleMarginChange = (value: number) => {
     setSellerMargin(value);
@@ -312,8 +318,8 @@ export default function BuyerView() {
       return;
     }
     
-    if (sellerMargin < 10) {
-      setError('Minimum seller margin is 10%');
+    if (sellerMargin < MIN_SELLER_MARGIN) {
+      setError(`Minimum seller margin is ${MIN_SELLER_MARGIN}%`);
       return;
     }
     
@@ -321,41 +327,77 @@ export default function BuyerView() {
       setError('Please upload a file first');
       return;
     }
+    
+    if (!quote || isQuoting) {
+      setError('Please wait for the price to update');
+      return;
+    }
 
     setError(null);
     setSuccessMessage(null);
 
+    // The buyer must see the price they pay, so a stale quote is
+    // refreshed for review rather than silently replaced
+    if (signedQuote && isQuoteExpired(signedQuote)) {
+      try {
+        await requestQuote(uploadData.fileName);
+        setError('Your quote expired and has been refreshed. Please review the price and submit again.');
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to price file');
+      }
+      return;
+    }
+
+    if (!signedQuote) {
+      setError('Quotes cannot be signed right now. Please try again later.');
+      return;
+    }
+
+    // The escrow records the quote's fileHash, so it must be this upload's
+    if (signedQuote.message.fileHash.toLowerCase() !== uploadData.fileHash.toLowerCase()) {
+      setError('This quote is for a different file. Please wait for the price to update.');
+      return;
+    }
+
     try {
-      // Calculate deposit in ETH (total cost * 1.025 for fees)
-      const depositEth = toEthNumber(depositAmount).toFixed(8);
-      
-      // Use file name as hash identifier
-      const fileHash = uploadData.fileName;
-      
-      const result = await createOrder(fileHash, depositEth);
+      // Deposit exactly the signed amount (total plus platform fee and gas cushion)
+      const result = await createOrder(signedQuote);
       
       // Store order metadata locally
       const metadata: OrderMetadata = {
         escrowAddress: result.escrowAddress,
         fileName: uploadData.fileName,
+        fileHash: uploadData.fileHash,
         originalName: uploadData.originalName,
+        repairedFileName: uploadData.repairedFileName ?? undefined,
+        orientedFileName: uploadData.orientedFileName ?? undefined,
+        thumbnails: uploadData.thumbnails,
         material,
         color,
         infillPercent,
+        supportsEnabled,
+        printTimeHours: estimate.printTimeHours,
         dimensions: estimate.dimensions,
         totalCostUsd: totalCost,
         totalCostEth: toEth(totalCost),
+        quote: signedQuote,
         createdAt: Date.now(),
       };
       
       storeOrder(walletAddress, metadata);
+
+      // Sellers check the deposit against this; the order stands without it
+      saveOrderQuote(result.escrowAddress, signedQuote)
+        .catch(err => console.error('Failed to store the signed quote:', err));
       
       setSuccessMessage(`Order created! Escrow: ${result.escrowAddress.slice(0, 10)}...`);
       
       // Reset form
       setUploadData(null);
       setEstimate(null);
-      setBaseVolumeCm3(0);
+      setQuote(null);
+      setShipping(null);
+      setSignedQuote(null);
       
       // Reload orders
       loadMyOrders();
@@ -679,7 +721,13 @@ export default function BuyerView() {
         <h2 className="text-xl font-semibold text-gray-900 dark:text-white mb-4">
           Upload Your 3D Model
         </h2>
-        <FileUpload onFileSelect={handleFileSelect} isUploading={isUploading} />
+        <FileUpload
+          onFileSelect={handleFileSelect}
+          isUploading={isUploading}
+          error={uploadError}
+          progress={uploadProgress}
+          onResume={interruptedFile ? () => handleFileSelect(interruptedFile) : undefined}
+        />
       </section>
 
       {/* Model Analysis & Configuration */}
@@ -695,6 +743,22 @@ export default function BuyerView() {
             </p>
           </div>
 
+          {/* 3D Preview - the file as it will be printed */}
+          {previewUrl && (
+            <div className="mb-8">
+              <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">
+                3D Preview
+              </h3>
+              <ModelViewer
+                src={previewUrl}
+                fileName={uploadData.originalName}
+                rotation={uploadData.estimate?.orientation.rotated ? uploadData.estimate.orientation.rotation : undefined}
+                overhangAngle={estimate.overhangAngle}
+                nozzleMm={estimate.printability.nozzleMm}
+              />
+            </div>
+          )}
+
           <div className="grid md:grid-cols-2 gap-8">
             {/* Left Column - Model Info */}
             <div>
@@ -708,10 +772,21 @@ export default function BuyerView() {
                     {estimate.dimensions.x} × {estimate.dimensions.y} × {estimate.dimensions.z} mm
                   </span>
                 </div>
+                <div className="flex justify-between py-2 border-b border-gray-100 dark:border-gray-800">
+                  <span className="text-gray-600 dark:text-gray-400">Orientation</span>
+                  <span className="font-medium text-gray-900 dark:text-white text-right">
+                    {estimate.orientation.label}
+                    {estimate.orientation.rotated && (
+                      <span className="block text-xs font-normal text-gray-500 dark:text-gray-400">
+                        was {estimate.orientation.uploadedHeightMm} mm tall, {estimate.orientation.uploadedSupportVolumeCm3} cm³ support
+                      </span>
+                    )}
+                  </span>
+                </div>
                 <div className="flex justify-between py-2 border-b border-gray-100 dark:border-gray-800">
                   <span className="text-gray-600 dark:text-gray-400">Volume</span>
                   <span className="font-medium text-gray-900 dark:text-white">
-                    {baseVolumeCm3} cm³
+                    {estimate.volumeCm3} cm³
                   </span>
                 </div>
                 <div className="flex justify-between py-2 border-b border-gray-100 dark:border-gray-800">
@@ -720,12 +795,61 @@ export default function BuyerView() {
                     {estimate.weightGrams}g
                   </span>
                 </div>
-                <div className="flex justify-between py-2">
+                <div className="flex justify-between py-2 border-b border-gray-100 dark:border-gray-800">
+                  <span className="text-gray-600 dark:text-gray-400">Est. Print Time</span>
+                  <span className="font-medium text-gray-900 dark:text-white">
+                    {estimate.printTimeHours}h
+                    <span className="ml-1 text-xs text-gray-500 dark:text-gray-400">
+                      ({estimate.layerHeightMm} mm layers)
+                    </span>
+                  </span>
+                </div>
+                <div className="flex justify-between py-2 border-b border-gray-100 dark:border-gray-800">
+                  <span className="text-gray-600 dark:text-gray-400">Support Needed</span>
+                  <span className="font-medium text-gray-900 dark:text-white">
+                    {estimate.supportVolumeCm3 > 0
+                      ? `${estimate.supportWeightGrams}g (overhangs past ${estimate.overhangAngle}°)`
+                      : 'None'}
+                  </span>
+                </div>
+                <div className="flex justify-between py-2 border-b border-gray-100 dark:border-gray-800">
                   <span className="text-gray-600 dark:text-gray-400">Watertight</span>
                   <span className={`font-medium ${estimate.isWatertight ? 'text-emerald-600 dark:text-emerald-400' : 'text-amber-600 dark:text-amber-400'}`}>
                     {estimate.isWatertight ? 'Yes ✓' : 'No ⚠'}
                   </span>
                 </div>
+                {estimate.repair?.changed && (
+                  <div className="flex justify-between py-2 border-b border-gray-100 dark:border-gray-800">
+                    <span className="text-gray-600 dark:text-gray-400">Mesh Repaired</span>
+                    <span className="font-medium text-gray-900 dark:text-white text-right">
+                      {[
+                        estimate.repair.holesFilled > 0 && `${estimate.repair.holesFilled} hole${estimate.repair.holesFilled === 1 ? '' : 's'} filled`,
+                        estimate.repair.flippedTriangles + estimate.repair.invertedShells > 0 && 'normals fixed',
+                        estimate.repair.degenerateRemoved + estimate.repair.duplicatesRemoved > 0 &&
+                          `${estimate.repair.degenerateRemoved + estimate.repair.duplicatesRemoved} bad triangles removed`,
+                      ].filter(Boolean).join(', ')}
+                    </span>
+                  </div>
+                )}
+                <div className="py-2">
+                  <span className="text-gray-600 dark:text-gray-400">Printable On</span>
+                  {estimate.printerFits.some(f => f.fits) ? (
+                    <ul className="mt-1 space-y-0.5 text-sm">
+                      {estimate.printerFits.filter(f => f.fits).map(f => (
+                        <li key={f.printer} className="flex justify-between">
+                          <span className="text-gray-900 dark:text-white">{f.name}</span>
+                          <span className="text-xs text-gray-500 dark:text-gray-400">
+                            {f.orientations.map(o => `${o[0].toUpperCase()} up`).join(', ')}
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+                  ) : (
+                    <p className="mt-1 text-sm text-amber-600 dark:text-amber-400">
+                      No common printer can print this part in {material}. Try another material or scale the model down.
+                    </p>
+                  )}
+                </div>
               </div>
             </div>
 
@@ -781,6 +905,53 @@ export default function BuyerView() {
                     <span>Solid (100%)</span>
                   </div>
                 </div>
+                <div>
+                  <label className="flex items-center gap-2 text-sm font-medium text-gray-700 dark:text-gray-300">
+                    <input
+                      type="checkbox"
+                      checked={supportsEnabled}
+                      onChange={(e) => setSupportsEnabled(e.target.checked)}
+                      className="rounded accent-violet-600"
+                    />
+                    Print with supports
+                  </label>
+                  {!supportsEnabled && estimate.supportVolumeCm3 > 0 && (
+                    <p className="mt-1 text-xs text-amber-600 dark:text-amber-400">
+                      This model has overhangs that may sag or fail without support.
+                    </p>
+                  )}
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                    Ship To
+                  </label>
+                  <div className="flex gap-2">
+                    <select
+                      value={shipCountry}
+                      onChange={(e) => setShipCountry(e.target.value)}
+                      className="flex-1 rounded-lg border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-800 px-3 py-2 text-sm text-gray-900 dark:text-white"
+                    >
+                      {SHIP_TO_COUNTRIES.map(c => (
+                        <option key={c.code} value={c.code}>{c.name}</option>
+                      ))}
+                    </select>
+                    <input
+                      type="text"
+                      value={shipZip}
+                      onChange={(e) => setShipZip(e.target.value)}
+                      placeholder="ZIP / postal code"
+                      maxLength={10}
+                      className="w-40 rounded-lg border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-800 px-3 py-2 text-sm text-gray-900 dark:text-white"
+                    />
+                  </div>
+                  {shipping && (
+                    <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                      {shipping.boxName}, {(shipping.packedWeightGrams / 1000).toFixed(2)} kg packed
+                      {shipping.estimatedDays !== null && <> · about {shipping.estimatedDays} days in transit</>}
+                      {shipping.approximate && <> · estimated, with {shipping.marginPercent}% added in case the carrier charges more</>}
+                    </p>
+                  )}
+                </div>
               </div>
             </div>
           </div>
@@ -798,50 +969,31 @@ export default function BuyerView() {
               )}
             </div>
             <div className="space-y-3">
-              <div className="flex justify-between py-2 border-b border-gray-100 dark:border-gray-800">
-                <span className="text-gray-600 dark:text-gray-400">Material Cost</span>
-                <div className="text-right">
-                  <span className="font-medium text-gray-900 dark:text-white">
-                    ${materialCost.toFixed(2)}
-                  </span>
-                  <span className="ml-2 text-xs text-gray-500 dark:text-gray-400">
-                    ({toEth(materialCost)} ETH)
-                  </span>
-                </div>
-              </div>
-              <div className="flex justify-between py-2 border-b border-gray-100 dark:border-gray-800">
-                <span className="text-gray-600 dark:text-gray-400">Shipping</span>
-                <div className="text-right">
-                  <span className="font-medium text-gray-900 dark:text-white">
-                    ${SHIPPING_COST.toFixed(2)}
-                  </span>
-                  <span className="ml-2 text-xs text-gray-500 dark:text-gray-400">
-                    ({toEth(SHIPPING_COST)} ETH)
-                  </span>
-                </div>
-              </div>
-              <div className="flex justify-between py-2 border-b border-gray-100 dark:border-gray-800">
-                <span className="text-gray-600 dark:text-gray-400">
-                  Seller Margin ({sellerMargin}%)
-                </span>
-                <div className="text-right">
-                  <span className="font-medium text-gray-900 dark:text-white">
-                    ${marginAmount.toFixed(2)}
-                  </span>
-                  <span className="ml-2 text-xs text-gray-500 dark:text-gray-400">
-                    ({toEth(marginAmount)} ETH)
-                  </span>
-                </div>
-              </div>
+              {quote?.lineItems
+                .filter(item => item.key !== 'platformFee' && item.key !== 'gasCushion')
+                .filter(item => item.key !== 'support' || item.amount > 0)
+                .map(item => (
+                  <div key={item.key} className="flex justify-between py-2 border-b border-gray-100 dark:border-gray-800">
+                    <span className="text-gray-600 dark:text-gray-400">{item.label}</span>
+                    <div className="text-right">
+                      <span className="font-medium text-gray-900 dark:text-white">
+                        ${item.amount.toFixed(2)}
+                      </span>
+                      <span className="ml-2 text-xs text-gray-500 dark:text-gray-400">
+                        ({toEth(item.amount)} ETH)
+                      </span>
+                    </div>
+                  </div>
+                ))}
             </div>
 
             {/* Seller Margin Slider */}
             <div className="mt-6">
               <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
                 Seller Margin: {sellerMargin}%
-                {sellerMargin < 10 && (
+                {sellerMargin < MIN_SELLER_MARGIN && (
                   <span className="ml-2 text-amber-600 dark:text-amber-400 text-xs">
-                    (min 10% required)
+                    (min {MIN_SELLER_MARGIN}% required)
                   </span>
                 )}
               </label>
@@ -879,7 +1031,7 @@ export default function BuyerView() {
             {/* Deposit Info */}
             <div className="mt-3 flex justify-between items-center py-2 px-4 bg-gray-50 dark:bg-gray-800/50 rounded-lg text-sm">
               <span className="text-gray-600 dark:text-gray-400">
-                Deposit (incl. 2.5% escrow fees)
+                Deposit (incl. ${escrowFees.toFixed(2)} platform fee + gas cushion)
               </span>
               <div className="text-right">
                 <span className="font-medium text-gray-900 dark:text-white">
@@ -889,11 +1041,28 @@ export default function BuyerView() {
             </div>
           </div>
 
+          {/* Printability Warnings */}
+          {estimate.printability.warnings.length > 0 && (
+            <div className="mt-8 rounded-lg bg-amber-50 border border-amber-200 p-4 dark:bg-amber-900/20 dark:border-amber-800">
+              <p className="text-sm font-medium text-amber-800 dark:text-amber-300">
+                This model may not print cleanly
+              </p>
+              <ul className="mt-2 space-y-1 text-sm text-amber-700 dark:text-amber-400 list-disc list-inside">
+                {estimate.printability.warnings.map(w => (
+                  <li key={w.issue}>{w.message}</li>
+                ))}
+              </ul>
+              <p className="mt-2 text-xs text-amber-600 dark:text-amber-500">
+                Sellers see the same model. Consider fixing it before you deposit.
+              </p>
+            </div>
+          )}
+
           {/* Submit Button */}
           <button
             className="mt-8 w-full rounded-lg bg-gradient-to-r from-violet-600 to-indigo-600 px-6 py-3 text-base font-semibold text-white shadow-lg transition-all hover:from-violet-700 hover:to-indigo-700 hover:shadow-xl disabled:opacity-50 disabled:cursor-not-allowed"
             onClick={handleSubmitOrder}
-            disabled={sellerMargin < 10 || isCreating || !isConnected}
+            disabled={sellerMargin < MIN_SELLER_MARGIN || isCreating || isQuoting || !isConnected}
           >
             {!isConnected ? (
               'Connect Wallet to Submit'
@@ -905,8 +1074,8 @@ export default function BuyerView() {
                 </svg>
                 Creating Order...
               </span>
-            ) : sellerMargin < 10 ? (
-              'Set margin to at least 10%'
+            ) : sellerMargin < MIN_SELLER_MARGIN ? (
+              `Set margin to at least ${MIN_SELLER_MARGIN}%`
             ) : (
               `Submit Print Request (${toEth(depositAmount)} ETH)`
             )}
@@ -965,6 +1134,16 @@ export default function BuyerView() {
                 }`}
               >
                 <div className="flex items-start justify-between">
+                  {order.metadata?.thumbnails?.[0] && (
+                    <Image
+                      src={`/api/files/${order.metadata.thumbnails[0]}`}
+                      alt={order.metadata.originalName}
+                      width={80}
+                      height={80}
+                      unoptimized
+                      className="mr-4 rounded-lg bg-gray-50 dark:bg-gray-800/50"
+                    />
+                  )}
                   <div className="flex-1">
                     <div className="flex items-center gap-3 mb-2">
                       <span className={`px-2 py-1 rounded-full text-xs font-medium ${getStatusColor(order.status)}`}>
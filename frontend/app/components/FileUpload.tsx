@@ -1,15 +1,64 @@
 'use client';
 
 import { useState, useRef, DragEvent, ChangeEvent } from 'react';
+import type { UploadError, UploadErrorCode } from '../../../backend/storage/index.ts';
+import type { UploadProgress } from '../lib/chunkedUpload';
 
 interface FileUploadProps {
   onFileSelect: (file: File) => void;
   isUploading: boolean;
+  error?: UploadError | null;         // rejection from the upload API
+  progress?: UploadProgress | null;   // the upload in flight
+  onResume?: () => void;              // set when an interrupted upload can carry on
 }
 
-export default function FileUpload({ onFileSelect, isUploading }: FileUploadProps) {
+const ERROR_TITLES: Record<UploadErrorCode, string> = {
+  'no-file': 'No file received',
+  'invalid-name': 'Invalid file name',
+  'unsupported-type': 'Unsupported file type',
+  'empty-file': 'Empty file',
+  'too-large': 'File too large',
+  'content-mismatch': 'File contents don\'t match its type',
+  'unreadable-model': 'Model could not be read',
+  'too-many-triangles': 'Model too detailed',
+  'storage-full': 'Storage full',
+  'invalid-upload': 'Upload could not start',
+  'too-many-uploads': 'Too many uploads in progress',
+  'upload-not-found': 'Upload expired',
+  'offset-mismatch': 'Upload out of sync',
+  'invalid-chunk': 'Upload out of sync',
+  'incomplete-upload': 'Upload incomplete',
+  'hash-mismatch': 'File changed during upload',
+  'upload-failed': 'Upload failed',
+};
+
+const ERROR_HINTS: Partial<Record<UploadErrorCode, string>> = {
+  'invalid-name': 'Rename the file and try again.',
+  'unsupported-type': 'Export the model as STL, OBJ or 3MF.',
+  'too-large': 'Simplify the mesh or export it as binary STL or 3MF.',
+  'content-mismatch': 'Check the file extension matches how the model was exported.',
+  'unreadable-model': 'Re-export the model from your CAD tool or slicer.',
+  'too-many-triangles': 'Decimate the mesh in your CAD tool or slicer and try again.',
+  'storage-full': 'Please try again later.',
+  'too-many-uploads': 'Wait for your other uploads to finish, or try again tomorrow.',
+  'upload-not-found': 'Select the file again to start over.',
+  'hash-mismatch': 'Select the file again to start over.',
+};
+
+const VALID_EXTENSIONS = ['.stl', '.obj', '.3mf'];
+
+export default function FileUpload({
+  onFileSelect,
+  isUploading,
+  error = null,
+  progress = null,
+  onResume,
+}: FileUploadProps) {
   const [isDragging, setIsDragging] = useState(false);
+  // Problems caught before uploading; shown instead of the server's
+  const [localError, setLocalError] = useState<UploadError | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const shownError = localError ?? error;
 
   const handleDragEnter = (e: DragEvent<HTMLDivElement>) => {
     e.preventDefault();
@@ -35,27 +84,37 @@ export default function FileUpload({ onFileSelect, isUploading }: FileUploadProp
 
     const files = e.dataTransfer.files;
     if (files && files.length > 0) {
-      const file = files[0];
-      if (isValidFile(file)) {
-        onFileSelect(file);
-      }
+      selectFile(files[0]);
     }
   };
 
   const handleFileInput = (e: ChangeEvent<HTMLInputElement>) => {
     const files = e.target.files;
     if (files && files.length > 0) {
-      const file = files[0];
-      if (isValidFile(file)) {
-        onFileSelect(file);
-      }
+      selectFile(files[0]);
+    }
+    // Picking the same file again after fixing it should still fire
+    e.target.value = '';
+  };
+
+  const selectFile = (file: File) => {
+    const check = checkFile(file);
+    setLocalError(check);
+    if (!check) {
+      onFileSelect(file);
     }
   };
 
-  const isValidFile = (file: File): boolean => {
-    const validExtensions = ['.stl', '.obj', '.3mf'];
+  // The server checks everything again; these just save a round trip
+  const checkFile = (file: File): UploadError | null => {
     const fileName = file.name.toLowerCase();
-    return validExtensions.some(ext => fileName.endsWith(ext));
+    if (!VALID_EXTENSIONS.some(ext => fileName.endsWith(ext))) {
+      return { code: 'unsupported-type', message: `${file.name} is not an STL, OBJ or 3MF file.` };
+    }
+    if (file.size === 0) {
+      return { code: 'empty-file', message: `${file.name} is empty.` };
+    }
+    return null;
   };
 
   const handleClick = () => {
@@ -63,61 +122,129 @@ export default function FileUpload({ onFileSelect, isUploading }: FileUploadProp
   };
 
   return (
-    <div
-      onClick={handleClick}
-      onDragEnter={handleDragEnter}
-      onDragOver={handleDragOver}
-      onDragLeave={handleDragLeave}
-      onDrop={handleDrop}
-      className={`
-        relative cursor-pointer rounded-lg border-2 border-dashed p-12 text-center transition-all
-        ${isDragging 
-          ? 'border-blue-500 bg-blue-50 dark:bg-blue-950/20' 
-          : 'border-gray-300 hover:border-gray-400 dark:border-gray-700 dark:hover:border-gray-600'
-        }
-        ${isUploading ? 'opacity-50 cursor-not-allowed' : ''}
-      `}
-      role="button"
-      aria-label="Upload 3D model file"
-      tabIndex={0}
-    >
-      <input
-        ref={fileInputRef}
-        type="file"
-        accept=".stl,.obj,.3mf"
-        onChange={handleFileInput}
-        className="hidden"
-        disabled={isUploading}
-      />
+    <div>
+      <div
+        onClick={handleClick}
+        onDragEnter={handleDragEnter}
+        onDragOver={handleDragOver}
+        onDragLeave={handleDragLeave}
+        onDrop={handleDrop}
+        className={`
+          relative cursor-pointer rounded-lg border-2 border-dashed p-12 text-center transition-all
+          ${isDragging 
+            ? 'border-blue-500 bg-blue-50 dark:bg-blue-950/20' 
+            : 'border-gray-300 hover:border-gray-400 dark:border-gray-700 dark:hover:border-gray-600'
+          }
+          ${isUploading ? 'opacity-50 cursor-not-allowed' : ''}
+        `}
+        role="button"
+        aria-label="Upload 3D model file"
+        tabIndex={0}
+      >
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".stl,.obj,.3mf"
+          onChange={handleFileInput}
+          className="hidden"
+          disabled={isUploading}
+        />
       
-      <div className="flex flex-col items-center gap-4">
-        <svg 
-          className="w-16 h-16 text-gray-400 dark:text-gray-600" 
-          fill="none" 
-          stroke="currentColor" 
-          viewBox="0 0 24 24"
-        >
-          <path 
-            strokeLinecap="round" 
-            strokeLinejoin="round" 
-            strokeWidth={2} 
-            d="M7 16a4 4 0 01-.88-7.903A5 5 0 1115.9 6L16 6a5 5 0 011 9.9M15 13l-3-3m0 0l-3 3m3-3v12" 
-          />
-        </svg>
+        <div className="flex flex-col items-center gap-4">
+          <svg 
+            className="w-16 h-16 text-gray-400 dark:text-gray-600" 
+            fill="none" 
+            stroke="currentColor" 
+            viewBox="0 0 24 24"
+          >
+            <path 
+              strokeLinecap="round" 
+              strokeLinejoin="round" 
+              strokeWidth={2} 
+              d="M7 16a4 4 0 01-.88-7.903A5 5 0 1115.9 6L16 6a5 5 0 011 9.9M15 13l-3-3m0 0l-3 3m3-3v12" 
+            />
+          </svg>
         
-        <div>
-          <p className="text-lg font-medium text-gray-900 dark:text-gray-100">
-            {isUploading ? 'Uploading...' : 'Drop your 3D model here'}
-          </p>
-          <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
-            or click to browse
-          </p>
-        </div>
+          <div>
+            <p className="text-lg font-medium text-gray-900 dark:text-gray-100">
+              {isUploading ? uploadingLabel(progress) : 'Drop your 3D model here'}
+            </p>
+            <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+              or click to browse
+            </p>
+          </div>
         
-        <p className="text-xs text-gray-400 dark:text-gray-500">
-          Supports STL, OBJ, 3MF files
-        </p>
+          {isUploading && progress ? (
+            <div className="w-full max-w-sm">
+              <div
+                role="progressbar"
+                aria-valuemin={0}
+                aria-valuemax={100}
+                aria-valuenow={percentSent(progress)}
+                className="h-2 rounded-full bg-gray-200 dark:bg-gray-800 overflow-hidden"
+              >
+                <div
+                  className={`h-full bg-blue-500 transition-all ${progress.phase === 'uploading' ? '' : 'animate-pulse'}`}
+                  style={{ width: `${progress.phase === 'hashing' ? 100 : percentSent(progress)}%` }}
+                />
+              </div>
+              <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+                {formatMb(progress.sentBytes)} of {formatMb(progress.totalBytes)}
+                {progress.resumedFrom > 0 && ` · resumed from ${formatMb(progress.resumedFrom)}`}
+              </p>
+            </div>
+          ) : (
+            <p className="text-xs text-gray-400 dark:text-gray-500">
+              Supports STL, OBJ, 3MF files
+            </p>
+          )}
+        </div>
       </div>
+
+      {shownError && !isUploading && (
+        <div
+          role="alert"
+          className="mt-3 p-3 rounded-lg bg-red-50 border border-red-200 dark:bg-red-950/20 dark:border-red-800 text-sm"
+        >
+          <p className="font-medium text-red-800 dark:text-red-300">
+            {ERROR_TITLES[shownError.code] ?? ERROR_TITLES['upload-failed']}
+          </p>
+          <p className="mt-1 text-red-700 dark:text-red-400">{shownError.message}</p>
+          {ERROR_HINTS[shownError.code] && (
+            <p className="mt-1 text-xs text-red-600 dark:text-red-400">{ERROR_HINTS[shownError.code]}</p>
+          )}
+          {onResume && !localError && (
+            <button
+              type="button"
+              onClick={onResume}
+              className="mt-2 px-3 py-1.5 rounded-md bg-red-600 text-white text-xs font-medium hover:bg-red-700"
+            >
+              Resume upload
+            </button>
+          )}
+        </div>
+      )}
     </div>
   );
 }
+
+function uploadingLabel(progress: UploadProgress | null): string {
+  switch (progress?.phase) {
+    case 'hashing':
+      return 'Preparing upload...';
+    case 'uploading':
+      return `Uploading... ${percentSent(progress)}%`;
+    case 'processing':
+      return 'Analyzing model...';
+    default:
+      return 'Uploading...';
+  }
+}
+
+function percentSent(progress: UploadProgress): number {
+  return progress.totalBytes > 0 ? Math.floor((progress.sentBytes / progress.totalBytes) * 100) : 0;
+}
+
+function formatMb(bytes: number): string {
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
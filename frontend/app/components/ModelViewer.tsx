@@ -0,0 +1,381 @@
+'use client';
+
+import { useState, useEffect, useRef, useCallback, PointerEvent } from 'react';
+import { parseStl } from '../../../backend/pricing/stl.ts';
+import { parseObj } from '../../../backend/pricing/obj.ts';
+import { getBoundingBox, triangleNormal, type BoundingBox, type Mesh } from '../../../backend/pricing/mesh.ts';
+import { estimateSupport, DEFAULT_OVERHANG_ANGLE } from '../../../backend/pricing/supports.ts';
+import { findThinWalls, DEFAULT_NOZZLE_MM } from '../../../backend/pricing/printability.ts';
+import { getPrinterProfile, DEFAULT_PRINTER } from '../../../backend/pricing/printTime.ts';
+import { rotateMesh, type Rotation } from '../../../backend/pricing/orientation.ts';
+import {
+  createMeshRenderer,
+  clampElevation,
+  projectToCanvas,
+  type MeshRenderer,
+  type OrbitCamera,
+  type Vec3,
+} from '../lib/meshRenderer';
+
+interface ModelViewerProps {
+  src: string;              // URL of an STL or OBJ file
+  fileName?: string;        // gives the format when src has no extension (blob: URLs)
+  rotation?: Rotation;      // applied before display, e.g. the estimate's orientation
+  overhangAngle?: number;   // match the estimate so highlights agree with it
+  nozzleMm?: number;
+  printer?: string;         // build plate to draw, key in printers.json
+  className?: string;
+}
+
+interface Scene {
+  mesh: Mesh;
+  box: BoundingBox;
+  radius: number;
+  overhangFaces: number[];
+  thinWallFaces: number[];
+}
+
+type Axis = 'x' | 'y' | 'z';
+
+const PART_COLOR: Vec3 = [0.58, 0.45, 0.96];
+const OVERHANG_COLOR: Vec3 = [0.96, 0.62, 0.04];
+const THIN_WALL_COLOR: Vec3 = [0.94, 0.27, 0.27];
+const GRID_COLOR: Vec3 = [0.72, 0.72, 0.76];
+const PLATE_EDGE_COLOR: Vec3 = [0.42, 0.42, 0.48];
+const BOX_COLOR: Vec3 = [0.05, 0.6, 0.85];
+
+const GRID_SPACING_MM = 10;
+const ROTATE_SPEED = 0.01;   // radians per pixel dragged
+const ZOOM_SPEED = 0.001;    // per wheel delta unit
+
+export default function ModelViewer({
+  src,
+  fileName,
+  rotation,
+  overhangAngle = DEFAULT_OVERHANG_ANGLE,
+  nozzleMm = DEFAULT_NOZZLE_MM,
+  printer = DEFAULT_PRINTER,
+  className = '',
+}: ModelViewerProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const rendererRef = useRef<MeshRenderer | null>(null);
+  const sceneRef = useRef<Scene | null>(null);
+  const cameraRef = useRef<OrbitCamera | null>(null);
+  const dragRef = useRef<{ x: number; y: number } | null>(null);
+  const frameRef = useRef<number | null>(null);
+  const labelRefs = useRef<Record<Axis, HTMLSpanElement | null>>({ x: null, y: null, z: null });
+
+  const [status, setStatus] = useState<'loading' | 'ready' | 'error'>('loading');
+  const [error, setError] = useState<string | null>(null);
+  const [analysis, setAnalysis] = useState<{ overhangs: number; thinWalls: number } | null>(null);
+  const [showOverhangs, setShowOverhangs] = useState(true);
+  const [showThinWalls, setShowThinWalls] = useState(true);
+  const [showDimensions, setShowDimensions] = useState(true);
+
+  // Draw once per animation frame, however many changes asked for it
+  const requestDraw = useCallback(() => {
+    if (frameRef.current !== null) return;
+    frameRef.current = requestAnimationFrame(() => {
+      frameRef.current = null;
+      const renderer = rendererRef.current;
+      const scene = sceneRef.current;
+      const camera = cameraRef.current;
+      const canvas = canvasRef.current;
+      if (!renderer || !scene || !camera || !canvas) return;
+
+      const viewProjection = renderer.render(camera, scene.radius);
+
+      // Keep the dimension labels on the middle of their bounding-box edges
+      const { min, max } = scene.box;
+      const anchors: Record<Axis, Vec3> = {
+        x: [(min[0] + max[0]) / 2, min[1], min[2]],
+        y: [max[0], (min[1] + max[1]) / 2, min[2]],
+        z: [max[0], min[1], (min[2] + max[2]) / 2],
+      };
+      for (const axis of ['x', 'y', 'z'] as Axis[]) {
+        const label = labelRefs.current[axis];
+        if (!label) continue;
+        const point = projectToCanvas(viewProjection, anchors[axis], canvas.clientWidth, canvas.clientHeight);
+        label.style.visibility = point ? 'visible' : 'hidden';
+        if (point) label.style.transform = `translate(${point.x}px, ${point.y}px) translate(-50%, -50%)`;
+      }
+    });
+  }, []);
+
+  // One WebGL context for the life of the component
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    try {
+      rendererRef.current = createMeshRenderer(canvas);
+    } catch (err) {
+      setStatus('error');
+      setError(err instanceof Error ? err.message : 'WebGL is not available');
+    }
+
+    const observer = new ResizeObserver(() => requestDraw());
+    observer.observe(canvas);
+
+    return () => {
+      observer.disconnect();
+      if (frameRef.current !== null) cancelAnimationFrame(frameRef.current);
+      rendererRef.current?.dispose();
+      rendererRef.current = null;
+    };
+  }, [requestDraw]);
+
+  // Load and show the model, then analyze it for highlights
+  useEffect(() => {
+    let cancelled = false;
+    let analysisTimer: ReturnType<typeof setTimeout> | undefined;
+
+    const load = async () => {
+      setStatus('loading');
+      setAnalysis(null);
+      try {
+        const extension = (fileName ?? src.split('?')[0]).toLowerCase().split('.').pop();
+        if (extension !== 'stl' && extension !== 'obj') {
+          throw new Error('3D preview supports STL and OBJ files. Download the model to view it.');
+        }
+
+        const response = await fetch(src);
+        if (!response.ok) {
+          throw new Error(`Could not load model (${response.status})`);
+        }
+        const bytes = new Uint8Array(await response.arrayBuffer());
+        if (cancelled) return;
+
+        const parsed = extension === 'stl' ? parseStl(bytes) : parseObj(bytes);
+        const mesh = rotation ? rotateMesh(parsed, rotation) : parsed;
+        if (mesh.triangles.length === 0) {
+          throw new Error('The model has no triangles');
+        }
+
+        const box = getBoundingBox(mesh);
+        const radius = Math.max(1, Math.hypot(...box.size) / 2);
+        sceneRef.current = { mesh, box, radius, overhangFaces: [], thinWallFaces: [] };
+        cameraRef.current = {
+          target: [
+            (box.min[0] + box.max[0]) / 2,
+            (box.min[1] + box.max[1]) / 2,
+            (box.min[2] + box.max[2]) / 2,
+          ],
+          azimuth: -Math.PI / 4,
+          elevation: Math.PI / 6,
+          distance: radius * 3,
+        };
+
+        const renderer = rendererRef.current;
+        if (!renderer) return;
+        renderer.setMesh(buildGeometry(mesh));
+        renderer.setLines(buildPlate(box, getPrinterProfile(printer).buildVolumeMm));
+        setStatus('ready');
+        requestDraw();
+
+        // Analysis can take a moment on big meshes; show the model first
+        analysisTimer = setTimeout(() => {
+          if (cancelled || !sceneRef.current) return;
+          const overhangFaces = estimateSupport(mesh, { overhangAngle }).overhangFaces;
+          const thinWallFaces = findThinWalls(mesh, nozzleMm).faces;
+          sceneRef.current = { ...sceneRef.current, overhangFaces, thinWallFaces };
+          setAnalysis({ overhangs: overhangFaces.length, thinWalls: thinWallFaces.length });
+        }, 0);
+      } catch (err) {
+        if (cancelled) return;
+        console.error('Failed to load model preview:', err);
+        setStatus('error');
+        setError(err instanceof Error ? err.message : 'Could not load model');
+      }
+    };
+
+    load();
+
+    return () => {
+      cancelled = true;
+      clearTimeout(analysisTimer);
+    };
+  }, [src, fileName, rotation, overhangAngle, nozzleMm, printer, requestDraw]);
+
+  // Recolor when the analysis lands or a highlight is toggled
+  useEffect(() => {
+    const scene = sceneRef.current;
+    const renderer = rendererRef.current;
+    if (!scene || !renderer || !analysis) return;
+    renderer.setColors(buildColors(
+      scene.mesh,
+      showOverhangs ? scene.overhangFaces : [],
+      showThinWalls ? scene.thinWallFaces : []
+    ));
+    requestDraw();
+  }, [analysis, showOverhangs, showThinWalls, requestDraw]);
+
+  // Freshly mounted labels need placing
+  useEffect(() => {
+    if (showDimensions) requestDraw();
+  }, [showDimensions, requestDraw]);
+
+  // Wheel zoom needs a non-passive listener to keep the page from scrolling
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const onWheel = (e: WheelEvent) => {
+      const camera = cameraRef.current;
+      const scene = sceneRef.current;
+      if (!camera || !scene) return;
+      e.preventDefault();
+      camera.distance = Math.min(
+        scene.radius * 20,
+        Math.max(scene.radius * 0.5, camera.distance * Math.exp(e.deltaY * ZOOM_SPEED))
+      );
+      requestDraw();
+    };
+    canvas.addEventListener('wheel', onWheel, { passive: false });
+    return () => canvas.removeEventListener('wheel', onWheel);
+  }, [requestDraw]);
+
+  const handlePointerDown = (e: PointerEvent<HTMLCanvasElement>) => {
+    dragRef.current = { x: e.clientX, y: e.clientY };
+    e.currentTarget.setPointerCapture(e.pointerId);
+  };
+
+  const handlePointerMove = (e: PointerEvent<HTMLCanvasElement>) => {
+    const drag = dragRef.current;
+    const camera = cameraRef.current;
+    if (!drag || !camera) return;
+    camera.azimuth -= (e.clientX - drag.x) * ROTATE_SPEED;
+    camera.elevation = clampElevation(camera.elevation + (e.clientY - drag.y) * ROTATE_SPEED);
+    dragRef.current = { x: e.clientX, y: e.clientY };
+    requestDraw();
+  };
+
+  const handlePointerUp = (e: PointerEvent<HTMLCanvasElement>) => {
+    dragRef.current = null;
+    e.currentTarget.releasePointerCapture(e.pointerId);
+  };
+
+  const size = status === 'ready' ? sceneRef.current?.box.size : undefined;
+
+  return (
+    <div className={className}>
+      <div className="relative h-72 rounded-lg overflow-hidden border border-gray-200 bg-gray-50 dark:border-gray-800 dark:bg-gray-800/50">
+        <canvas
+          ref={canvasRef}
+          className="w-full h-full cursor-grab active:cursor-grabbing touch-none"
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+        />
+
+        {/* Bounding-box dimensions, positioned on every draw */}
+        {size && showDimensions && (['x', 'y', 'z'] as Axis[]).map((axis, k) => (
+          <span
+            key={axis}
+            ref={el => { labelRefs.current[axis] = el; }}
+            className="absolute left-0 top-0 pointer-events-none px-1.5 py-0.5 rounded bg-white/90 text-xs font-medium text-sky-700 shadow-sm dark:bg-gray-900/90 dark:text-sky-300"
+          >
+            {axis.toUpperCase()} {size[k].toFixed(1)} mm
+          </span>
+        ))}
+
+        {status !== 'ready' && (
+          <div className="absolute inset-0 flex items-center justify-center p-4 text-center text-sm text-gray-500 dark:text-gray-400">
+            {status === 'loading' ? 'Loading 3D preview...' : error}
+          </div>
+        )}
+      </div>
+
+      {status === 'ready' && (
+        <div className="mt-2 flex flex-wrap items-center gap-x-4 gap-y-1 text-xs text-gray-600 dark:text-gray-400">
+          <label className="flex items-center gap-1.5">
+            <input type="checkbox" checked={showOverhangs} onChange={e => setShowOverhangs(e.target.checked)} />
+            <span className="inline-block w-2.5 h-2.5 rounded-sm bg-amber-500" />
+            Overhangs{analysis && ` (${analysis.overhangs})`}
+          </label>
+          <label className="flex items-center gap-1.5">
+            <input type="checkbox" checked={showThinWalls} onChange={e => setShowThinWalls(e.target.checked)} />
+            <span className="inline-block w-2.5 h-2.5 rounded-sm bg-red-500" />
+            Thin walls{analysis && ` (${analysis.thinWalls})`}
+          </label>
+          <label className="flex items-center gap-1.5">
+            <input type="checkbox" checked={showDimensions} onChange={e => setShowDimensions(e.target.checked)} />
+            Dimensions
+          </label>
+          <span className="ml-auto text-gray-400 dark:text-gray-500">
+            {analysis ? 'Drag to orbit, scroll to zoom' : 'Analyzing...'}
+          </span>
+        </div>
+      )}
+    </div>
+  );
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// GEOMETRY
+// ═══════════════════════════════════════════════════════════════════════════
+
+function buildGeometry(mesh: Mesh) {
+  const t = mesh.triangles;
+  const normals = new Float32Array(t.length);
+  for (let i = 0; i < t.length; i += 9) {
+    const [nx, ny, nz] = triangleNormal(t, i);
+    const length = Math.sqrt(nx * nx + ny * ny + nz * nz) || 1;
+    for (let k = 0; k < 9; k += 3) {
+      normals[i + k] = nx / length;
+      normals[i + k + 1] = ny / length;
+      normals[i + k + 2] = nz / length;
+    }
+  }
+  return { positions: t, normals, colors: buildColors(mesh, [], []) };
+}
+
+// Thin walls win where a face is both
+function buildColors(mesh: Mesh, overhangFaces: number[], thinWallFaces: number[]): Float32Array {
+  const colors = new Float32Array(mesh.triangles.length);
+  const paint = (face: number, color: Vec3) => {
+    for (let v = 0; v < 3; v++) colors.set(color, face * 9 + v * 3);
+  };
+  for (let face = 0; face < mesh.triangles.length / 9; face++) paint(face, PART_COLOR);
+  for (const face of overhangFaces) paint(face, OVERHANG_COLOR);
+  for (const face of thinWallFaces) paint(face, THIN_WALL_COLOR);
+  return colors;
+}
+
+/**
+ * Build-plate grid centred under the part at its lowest point, plus the
+ * part's bounding box
+ */
+function buildPlate(box: BoundingBox, plate: { x: number; y: number }) {
+  const positions: number[] = [];
+  const colors: number[] = [];
+  const line = (a: Vec3, b: Vec3, color: Vec3) => {
+    positions.push(...a, ...b);
+    colors.push(...color, ...color);
+  };
+
+  const z = box.min[2];
+  const x0 = (box.min[0] + box.max[0]) / 2 - plate.x / 2;
+  const y0 = (box.min[1] + box.max[1]) / 2 - plate.y / 2;
+  const x1 = x0 + plate.x;
+  const y1 = y0 + plate.y;
+  for (let x = GRID_SPACING_MM; x < plate.x; x += GRID_SPACING_MM) {
+    line([x0 + x, y0, z], [x0 + x, y1, z], GRID_COLOR);
+  }
+  for (let y = GRID_SPACING_MM; y < plate.y; y += GRID_SPACING_MM) {
+    line([x0, y0 + y, z], [x1, y0 + y, z], GRID_COLOR);
+  }
+  line([x0, y0, z], [x1, y0, z], PLATE_EDGE_COLOR);
+  line([x1, y0, z], [x1, y1, z], PLATE_EDGE_COLOR);
+  line([x1, y1, z], [x0, y1, z], PLATE_EDGE_COLOR);
+  line([x0, y1, z], [x0, y0, z], PLATE_EDGE_COLOR);
+
+  const { min, max } = box;
+  const corner = (i: number): Vec3 => [i & 1 ? max[0] : min[0], i & 2 ? max[1] : min[1], i & 4 ? max[2] : min[2]];
+  for (let i = 0; i < 8; i++) {
+    for (const bit of [1, 2, 4]) {
+      if (!(i & bit)) line(corner(i), corner(i | bit), BOX_COLOR);
+    }
+  }
+
+  return { positions: new Float32Array(positions), colors: new Float32Array(colors) };
+}
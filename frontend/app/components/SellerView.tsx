@@ -1,6 +1,9 @@
 'use client';
 
 import { useState, useEffect, useCallback } from 'react';
+import Image from 'next/image';
+import ModelViewer from './ModelViewer';
+import { ethers } from 'ethers';
 import { useWalletContext } from '../context/WalletContext';
 import { 
   useGetAllEscrows,
@@ -10,6 +13,8 @@ import {
   useClaimDelivery,
   useSubmitCounterOffer,
   useAcceptBuyerOffer,
+  useGetOrderFileHash,
+  useDownloadGrant,
   EscrowStatus, 
   STATUS_LABELS,
   EscrowData,
@@ -17,22 +22,36 @@ import {
   formatTimeRemaining,
 } from '../hooks/useContract';
 import { getOrderMetadata } from './BuyerView';
+import type { OrderMetadata } from '../types/order';
+import { checkQuote, fetchOrderQuote, type QuoteCheck } from '../lib/signedQuote';
+import { verifyModelFile, type FileCheck } from '../lib/fileHash';
+import { modelFileUrl, type DownloadGrant } from '../lib/downloadAccess';
+import { fitsAnyPrinter } from '../../../backend/pricing/fit.ts';
+import { getPrinters, getPrinterProfile } from '../../../backend/pricing/printTime.ts';
 
-type SortOption = 'escrow-high' | 'escrow-low' | 'newest' | 'oldest';
+type SortOption = 'escrow-high' | 'escrow-low' | 'newest' | 'oldest' | 'print-time-short' | 'print-time-long';
 type FilterStatus = 'pending' | 'my-jobs' | 'disputes' | 'all';
 
-// Order metadata stored in localStorage (from BuyerView)
-interface OrderMetadata {
-  escrowAddress: string;
-  fileName: string;
-  originalName: string;
-  material: string;
-  color: string;
-  infillPercent: number;
-  dimensions: { x: number; y: number; z: number };
-  totalCostUsd: number;
-  totalCostEth: string;
-  createdAt: number;
+const PRINTER_OPTIONS = getPrinters().map(key => ({ key, name: getPrinterProfile(key).name }));
+
+// LocalStorage helpers for the seller's registered printers
+const PRINTERS_STORAGE_KEY = 'filamint_seller_printers';
+
+function getStoredPrinters(walletAddress: string): string[] {
+  if (typeof window === 'undefined') return [];
+  try {
+    const stored = localStorage.getItem(`${PRINTERS_STORAGE_KEY}_${walletAddress.toLowerCase()}`);
+    const printers: string[] = stored ? JSON.parse(stored) : [];
+    // Drop profiles that no longer exist in printers.json
+    return printers.filter(p => PRINTER_OPTIONS.some(o => o.key === p));
+  } catch {
+    return [];
+  }
+}
+
+function storePrinters(walletAddress: string, printers: string[]) {
+  if (typeof window === 'undefined') return;
+  localStorage.setItem(`${PRINTERS_STORAGE_KEY}_${walletAddress.toLowerCase()}`, JSON.stringify(printers));
 }
 
 export default function SellerView() {
@@ -44,15 +63,24 @@ export default function SellerView() {
   const { claimDelivery, isLoading: isClaimingDelivery } = useClaimDelivery();
   const { submitCounterOffer, isLoading: isSubmittingCounterOffer } = useSubmitCounterOffer();
   const { acceptBuyerOffer, isLoading: isAcceptingBuyerOffer } = useAcceptBuyerOffer();
+  const { getOrderFileHash } = useGetOrderFileHash();
+  const { requestGrant, isLoading: isUnlocking } = useDownloadGrant();
   
   const [sortBy, setSortBy] = useState<SortOption>('escrow-high');
   const [filterStatus, setFilterStatus] = useState<FilterStatus>('pending');
+  const [myPrinters, setMyPrinters] = useState<string[]>([]);
   
-  const [allOrders, setAllOrders] = useState<(EscrowData & { metadata?: OrderMetadata | null })[]>([]);
+  const [allOrders, setAllOrders] = useState<(EscrowData & { metadata?: OrderMetadata | null; fileHash?: string | null; quoteCheck?: QuoteCheck })[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [successMessage, setSuccessMessage] = useState<string | null>(null);
   const [actionInProgress, setActionInProgress] = useState<string | null>(null);
+  // One 3D preview open at a time, each holds a WebGL context
+  const [previewOrder, setPreviewOrder] = useState<string | null>(null);
+  // Download checks against the on-chain file hash, by escrow address
+  const [fileChecks, setFileChecks] = useState<Record<string, FileCheck | 'checking'>>({});
+  // Signed download challenges, by escrow address, dropped when they expire
+  const [downloadGrants, setDownloadGrants] = useState<Record<string, DownloadGrant>>({});
   
   // Counter-offer modal state
   const [counterOfferOrder, setCounterOfferOrder] = useState<(EscrowData & { metadata?: OrderMetadata | null }) | null>(null);
@@ -70,14 +98,35 @@ export default function SellerView() {
     
     try {
       const escrowAddresses = await getAllEscrows();
-      const ordersWithData: (EscrowData & { metadata?: OrderMetadata | null })[] = [];
+      const ordersWithData: (EscrowData & { metadata?: OrderMetadata | null; fileHash?: string | null; quoteCheck?: QuoteCheck })[] = [];
       
       // Read each escrow's data
       for (const address of escrowAddresses) {
         try {
           const escrowData = await readEscrow(address);
           const metadata = getOrderMetadata(address);
-          ordersWithData.push({ ...escrowData, metadata });
+          const fileHash = await getOrderFileHash(address).catch(() => null);
+
+          // Check the deposit against the platform's signed quote, if any
+          let quoteCheck: QuoteCheck | undefined;
+          try {
+            const quote = await fetchOrderQuote(address);
+            if (quote) {
+              quoteCheck = checkQuote(quote, {
+                orderAmountWei: ethers.parseEther(escrowData.orderAmount),
+                createdAt: escrowData.createdAt,
+                fileHash,
+              });
+            }
+          } catch (err) {
+            quoteCheck = {
+              valid: false,
+              reason: err instanceof Error ? err.message : 'Failed to load the quote',
+              unverifiable: true,
+            };
+          }
+
+          ordersWithData.push({ ...escrowData, metadata, fileHash, quoteCheck });
         } catch (err) {
           console.error(`Failed to read escrow ${address}:`, err);
         }
@@ -90,17 +139,36 @@ export default function SellerView() {
     } finally {
       setIsLoading(false);
     }
-  }, [getAllEscrows, readEscrow]);
+  }, [getAllEscrows, readEscrow, getOrderFileHash]);
 
   // Load orders on mount
   useEffect(() => {
     loadOrders();
   }, [loadOrders]);
 
+  // Load registered printers when wallet connects
+  useEffect(() => {
+    setMyPrinters(walletAddress ? getStoredPrinters(walletAddress) : []);
+  }, [walletAddress]);
+
+  const togglePrinter = (printer: string) => {
+    const next = myPrinters.includes(printer)
+      ? myPrinters.filter(p => p !== printer)
+      : [...myPrinters, printer];
+    setMyPrinters(next);
+    if (walletAddress) storePrinters(walletAddress, next);
+  };
+
+  // Jobs without local metadata can't be checked, so they stay visible
+  const canPrint = (order: { metadata?: OrderMetadata | null }) => {
+    if (myPrinters.length === 0 || !order.metadata) return true;
+    return fitsAnyPrinter(order.metadata.dimensions, myPrinters, order.metadata.material);
+  };
+
   // Filter and sort orders
   const filteredOrders = allOrders.filter(order => {
     if (filterStatus === 'pending') {
-      return order.status === EscrowStatus.Pending;
+      return order.status === EscrowStatus.Pending && canPrint(order);
     }
     if (filterStatus === 'my-jobs') {
       return walletAddress && order.seller.toLowerCase() === walletAddress.toLowerCase();
@@ -122,6 +190,11 @@ export default function SellerView() {
         return b.createdAt - a.createdAt;
       case 'oldest':
         return a.createdAt - b.createdAt;
+      // Orders without a print time (no local metadata) sort last
+      case 'print-time-short':
+        return (a.metadata?.printTimeHours ?? Infinity) - (b.metadata?.printTimeHours ?? Infinity) || 0;
+      case 'print-time-long':
+        return (b.metadata?.printTimeHours ?? -Infinity) - (a.metadata?.printTimeHours ?? -Infinity) || 0;
       default:
         return 0;
     }
@@ -129,6 +202,7 @@ export default function SellerView() {
 
   // Calculate stats
   const pendingOrders = allOrders.filter(o => o.status === EscrowStatus.Pending);
+  const unprintableCount = pendingOrders.filter(o => !canPrint(o)).length;
   const myJobs = walletAddress 
     ? allOrders.filter(o => o.seller.toLowerCase() === walletAddress.toLowerCase())
     : [];
@@ -224,6 +298,148 @@ export default function SellerView() {
     }
   };
 
+  // Sign a challenge so the server releases this order's model files
+  const handleUnlockFiles = async (escrowAddress: string) => {
+    setError(null);
+    setActionInProgress(escrowAddress);
+
+    try {
+      const grant = await requestGrant(escrowAddress);
+      setDownloadGrants(prev => ({ ...prev, [escrowAddress]: grant }));
+      setTimeout(() => {
+        setDownloadGrants(prev => {
+          const next = { ...prev };
+          delete next[escrowAddress];
+          return next;
+        });
+      }, grant.expires * 1000 - Date.now());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to unlock files');
+    } finally {
+      setActionInProgress(null);
+    }
+  };
+
+  // Hash the buyer's original upload and compare it with the OrderCreated event
+  const handleVerifyFile = async (escrowAddress: string, fileName: string, fileHash: string | null) => {
+    setFileChecks(prev => ({ ...prev, [escrowAddress]: 'checking' }));
+    let check: FileCheck;
+    try {
+      check = await verifyModelFile(modelFileUrl(fileName, downloadGrants[escrowAddress]), fileHash);
+    } catch (err) {
+      check = { valid: false, reason: err instanceof Error ? err.message : 'Failed to verify file' };
+    }
+    setFileChecks(prev => ({ ...prev, [escrowAddress]: check }));
+  };
+
+  // Verify button, then the result of checking the download
+  const getFileCheck = (escrowAddress: string, fileName: string, fileHash: string | null) => {
+    const check = fileChecks[escrowAddress];
+    if (!check) {
+      return (
+        <button
+          onClick={() => handleVerifyFile(escrowAddress, fileName, fileHash)}
+          className="text-violet-600 dark:text-violet-400 hover:underline"
+        >
+          Verify file
+        </button>
+      );
+    }
+    if (check === 'checking') {
+      return <span className="text-gray-500 dark:text-gray-400">Verifying...</span>;
+    }
+    if (check.valid) {
+      return <span className="text-emerald-600 dark:text-emerald-400">✓ Matches on-chain hash</span>;
+    }
+    return (
+      <span className="text-red-600 dark:text-red-400" title={check.reason}>
+        ✗ File mismatch
+      </span>
+    );
+  };
+
+  // Model files go to the buyer and the claiming seller while the order is in
+  // progress, after signing a challenge; /api/files enforces the same rules
+  const getModelFiles = (order: EscrowData & { metadata?: OrderMetadata | null; fileHash?: string | null }) => {
+    const metadata = order.metadata;
+    if (!metadata) return null;
+
+    const wallet = walletAddress?.toLowerCase();
+    const isParty = !!wallet && (order.seller.toLowerCase() === wallet || order.buyer.toLowerCase() === wallet);
+    const hasEnded = [EscrowStatus.Completed, EscrowStatus.Cancelled, EscrowStatus.Settled].includes(order.status);
+    let locked: string | null = null;
+    if (order.status === EscrowStatus.Pending) {
+      locked = 'Model files unlock once the order is claimed';
+    } else if (hasEnded) {
+      locked = 'Model files are no longer available for this order';
+    } else if (!isParty) {
+      locked = 'Only the buyer and the claiming seller can download the model';
+    }
+    if (locked) {
+      return <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">{locked}</p>;
+    }
+
+    const grant = downloadGrants[order.address];
+    if (!grant) {
+      return (
+        <div className="mt-1 text-xs">
+          <button
+            onClick={() => handleUnlockFiles(order.address)}
+            disabled={isUnlocking}
+            className="text-violet-600 dark:text-violet-400 hover:underline disabled:opacity-50"
+          >
+            {isUnlocking && actionInProgress === order.address ? 'Waiting for signature...' : 'Sign to unlock model files'}
+          </button>
+        </div>
+      );
+    }
+
+    return (
+      <>
+      <div className="mt-1 flex gap-3 text-xs">
+        <a
+          href={modelFileUrl(metadata.fileName, grant)}
+          download
+          className="text-violet-600 dark:text-violet-400 hover:underline"
+        >
+          Download model
+        </a>
+        {metadata.repairedFileName && (
+          <a
+            href={modelFileUrl(metadata.repairedFileName, grant)}
+            download
+            className="text-violet-600 dark:text-violet-400 hover:underline"
+          >
+            Repaired mesh (STL)
+          </a>
+        )}
+        {metadata.orientedFileName && (
+          <a
+            href={modelFileUrl(metadata.orientedFileName, grant)}
+            download
+            className="text-violet-600 dark:text-violet-400 hover:underline"
+          >
+            Print-ready orientation (STL)
+          </a>
+        )}
+        <button
+          onClick={() => setPreviewOrder(previewOrder === order.address ? null : order.address)}
+          className="text-violet-600 dark:text-violet-400 hover:underline"
+        >
+          {previewOrder === order.address ? 'Hide 3D' : 'View 3D'}
+        </button>
+        {getFileCheck(order.address, metadata.fileName, order.fileHash ?? null)}
+      </div>
+      {previewOrder === order.address && (
+        <ModelViewer
+          src={modelFileUrl(metadata.orientedFileName ?? metadata.repairedFileName ?? metadata.fileName, grant)}
+          className="mt-3"
+        />
+      )}
+      </>
+    );
+  };
+
   // Get status color
   const getStatusColor = (status: EscrowStatus) => {
     switch (status) {
@@ -492,6 +708,8 @@ export default function SellerView() {
               <option value="escrow-low">Lowest Escrow</option>
               <option value="newest">Newest First</option>
               <option value="oldest">Oldest First</option>
+              <option value="print-time-short">Shortest Print</option>
+              <option value="print-time-long">Longest Print</option>
             </select>
             
             <button
@@ -504,6 +722,29 @@ export default function SellerView() {
           </div>
         </div>
 
+        {/* Registered Printers */}
+        <div className="flex flex-wrap items-center gap-2 mb-4 text-sm">
+          <span className="text-gray-500 dark:text-gray-400">My printers:</span>
+          {PRINTER_OPTIONS.map(({ key, name }) => (
+            <button
+              key={key}
+              onClick={() => togglePrinter(key)}
+              className={`px-3 py-1 rounded-full border text-xs font-medium transition-colors ${
+                myPrinters.includes(key)
+                  ? 'border-violet-600 bg-violet-600 text-white'
+                  : 'border-gray-300 dark:border-gray-700 text-gray-600 dark:text-gray-400 hover:border-violet-400'
+              }`}
+            >
+              {name}
+            </button>
+          ))}
+          {filterStatus === 'pending' && unprintableCount > 0 && (
+            <span className="text-xs text-gray-500 dark:text-gray-400">
+              {unprintableCount} job{unprintableCount === 1 ? '' : 's'} hidden (too large or unsupported material)
+            </span>
+          )}
+        </div>
+
         {/* Loading State */}
         {(isLoading || isLoadingEscrows) && allOrders.length === 0 ? (
           <div className="text-center py-12 rounded-xl border border-dashed border-gray-300 dark:border-gray-700">
@@ -540,6 +781,16 @@ export default function SellerView() {
                 }`}
               >
                 <div className="flex items-start justify-between">
+                  {order.metadata?.thumbnails?.[0] && (
+                    <Image
+                      src={`/api/files/${order.metadata.thumbnails[0]}`}
+                      alt={order.metadata.originalName}
+                      width={96}
+                      height={96}
+                      unoptimized
+                      className="mr-4 rounded-lg bg-gray-50 dark:bg-gray-800/50"
+                    />
+                  )}
                   <div className="flex-1">
                     <div className="flex items-center gap-3 mb-2">
                       <span className={`px-2 py-1 rounded-full text-xs font-medium ${getStatusColor(order.status)}`}>
@@ -548,6 +799,29 @@ export default function SellerView() {
                       <span className="text-xs text-gray-500 dark:text-gray-400 font-mono">
                         {truncateAddress(order.address)}
                       </span>
+                      {!order.quoteCheck ? (
+                        <span className="px-2 py-1 rounded-full text-xs font-medium bg-gray-100 text-gray-600 dark:bg-gray-800 dark:text-gray-400">
+                          Unquoted
+                        </span>
+                      ) : order.quoteCheck.valid ? (
+                        <span className="px-2 py-1 rounded-full text-xs font-medium bg-emerald-100 text-emerald-700 dark:bg-emerald-900/30 dark:text-emerald-400">
+                          ✓ Quote verified
+                        </span>
+                      ) : order.quoteCheck.unverifiable ? (
+                        <span
+                          className="px-2 py-1 rounded-full text-xs font-medium bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-400"
+                          title={order.quoteCheck.reason}
+                        >
+                          Quote unverifiable
+                        </span>
+                      ) : (
+                        <span
+                          className="px-2 py-1 rounded-full text-xs font-medium bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-400"
+                          title={order.quoteCheck.reason}
+                        >
+                          Quote mismatch
+                        </span>
+                      )}
                     </div>
                     
                     {/* Order Details */}
@@ -588,8 +862,25 @@ export default function SellerView() {
                         </p>
                         <p className="text-xs text-gray-500 dark:text-gray-400">
                           {order.metadata.color} • {order.metadata.infillPercent}% infill • 
+                          {order.metadata.printTimeHours !== undefined && `~${order.metadata.printTimeHours}h print • `}
                           {order.metadata.dimensions.x} × {order.metadata.dimensions.y} × {order.metadata.dimensions.z} mm
                         </p>
+                        {getModelFiles(order)}
+                        {order.metadata.thumbnails && order.metadata.thumbnails.length > 1 && (
+                          <div className="mt-2 flex gap-2">
+                            {order.metadata.thumbnails.slice(1).map(thumbnail => (
+                              <Image
+                                key={thumbnail}
+                                src={`/api/files/${thumbnail}`}
+                                alt={thumbnail}
+                                width={64}
+                                height={64}
+                                unoptimized
+                                className="rounded bg-gray-50 dark:bg-gray-800/50"
+                              />
+                            ))}
+                          </div>
+                        )}
                       </div>
                     )}
                     
@@ -3,6 +3,8 @@
 import { useState, useCallback } from 'react';
 import { ethers } from 'ethers';
 import { useWalletContext } from '../context/WalletContext';
+import { isQuoteExpired, type SignedQuote } from '../lib/signedQuote';
+import type { DownloadChallenge, DownloadGrant } from '../lib/downloadAccess';
 
 // Contract addresses - update these after deployment
 export const CONTRACT_ADDRESSES = {
@@ -241,7 +243,7 @@ export function useCreateOrder() {
     isLoading: false,
   });
 
-  const createOrder = useCallback(async (fileHash: string, totalAmountEth: string) => {
+  const submitOrder = useCallback(async (hashBytes: string, value: bigint) => {
     setState({ data: null, error: null, isLoading: true });
 
     try {
@@ -250,14 +252,7 @@ export function useCreateOrder() {
         FACTORY_ABI
       );
 
-      // Convert file hash to bytes32 if it's not already
-      const hashBytes = fileHash.startsWith('0x') 
-        ? fileHash 
-        : ethers.keccak256(ethers.toUtf8Bytes(fileHash));
-
-      const tx = await contract.createOrder(hashBytes, {
-        value: ethers.parseEther(totalAmountEth),
-      });
+      const tx = await contract.createOrder(hashBytes, { value });
 
       const receipt = await tx.wait();
       
@@ -288,7 +283,26 @@ export function useCreateOrder() {
     }
   }, [getContract]);
 
-  return { createOrder, ...state };
+  // Fund an escrow with exactly the amount the platform signed for
+  const createOrder = useCallback(async (signedQuote: SignedQuote) => {
+    if (isQuoteExpired(signedQuote)) {
+      const message = 'Quote expired. Please refresh the price and try again.';
+      setState({ data: null, error: message, isLoading: false });
+      throw new Error(message);
+    }
+    return submitOrder(signedQuote.message.fileHash, BigInt(signedQuote.message.amountWei));
+  }, [submitOrder]);
+
+  // Unquoted orders (contract test page); sellers see these as unverified
+  const createOrderUnquoted = useCallback(async (fileHash: string, totalAmountEth: string) => {
+    // Convert file hash to bytes32 if it's not already
+    const hashBytes = fileHash.startsWith('0x') 
+      ? fileHash 
+      : ethers.keccak256(ethers.toUtf8Bytes(fileHash));
+    return submitOrder(hashBytes, ethers.parseEther(totalAmountEth));
+  }, [submitOrder]);
+
+  return { createOrder, createOrderUnquoted, ...state };
 }
 
 /**
@@ -829,6 +843,22 @@ export function useLookupEscrow() {
   return { lookupEscrow };
 }
 
+/**
+ * Hook to read the file hash an escrow was created with (from OrderCreated)
+ */
+export function useGetOrderFileHash() {
+  const { getReadOnlyContract } = useContractInstance();
+
+  const getOrderFileHash = useCallback(async (escrowAddress: string): Promise<string | null> => {
+    const contract = getReadOnlyContract(CONTRACT_ADDRESSES.factory, FACTORY_ABI);
+    const events = await contract.queryFilter(contract.filters.OrderCreated(null, escrowAddress));
+    const event = events[0];
+    return event && 'args' in event ? event.args.fileHash : null;
+  }, [getReadOnlyContract]);
+
+  return { getOrderFileHash };
+}
+
 /**
  * Hook to fetch all escrow addresses from the factory
  */
@@ -934,3 +964,45 @@ export function useGetLabelCid() {
 
   return { getLabelCid };
 }
+
+// ═══════════════════════════════════════════════════════════════════════════
+// MODEL DOWNLOAD HOOKS
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Hook for unlocking an order's model files (buyer or claiming seller)
+ * Signs a server challenge; no transaction is sent
+ */
+export function useDownloadGrant() {
+  const { getSigner } = useSigner();
+  const [state, setState] = useState<ContractCallResult<DownloadGrant>>({
+    data: null, error: null, isLoading: false,
+  });
+
+  const requestGrant = useCallback(async (escrowAddress: string): Promise<DownloadGrant> => {
+    setState({ data: null, error: null, isLoading: true });
+    try {
+      const response = await fetch('/api/files/challenge', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ escrowAddress }),
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to get a download challenge');
+      }
+
+      const { challenge, message } = result as { challenge: DownloadChallenge; message: string };
+      const signer = await getSigner();
+      const grant = { ...challenge, signature: await signer.signMessage(message) };
+      setState({ data: grant, error: null, isLoading: false });
+      return grant;
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Signing failed';
+      setState({ data: null, error: errorMessage, isLoading: false });
+      throw err;
+    }
+  }, [getSigner]);
+
+  return { requestGrant, ...state };
+}
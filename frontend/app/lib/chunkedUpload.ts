@@ -0,0 +1,186 @@
+import type { UploadError, UploadErrorCode } from '../../../backend/storage/index.ts';
+import { hashModelFile } from './fileHash';
+
+// Client side of the resumable upload protocol. The file is hashed, a
+// session is opened for that hash (or the open one resumed with the secret
+// kept from opening it), chunks go up one at a time with retries, and
+// completing the session returns what /api/upload would have.
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════════════════
+
+export type UploadPhase = 'hashing' | 'uploading' | 'processing';
+
+export interface UploadProgress {
+  phase: UploadPhase;
+  sentBytes: number;      // acknowledged by the server
+  totalBytes: number;
+  resumedFrom: number;    // bytes already there when this attempt started
+}
+
+export type ChunkedUploadResult<T> =
+  | { ok: true; data: T }
+  | { ok: false; error: UploadError; resumable: boolean };   // resumable: same file can carry on
+
+interface SessionState {
+  uploadId: string;
+  secret: string;
+  received: number;
+  chunkSize: number;
+}
+
+// Attempts per chunk before giving up, with doubling waits between them
+const MAX_ATTEMPTS = 5;
+const FIRST_RETRY_MS = 1000;
+const MAX_RETRY_MS = 8000;
+
+// Session secrets by file hash and size, so a reload can resume
+const SECRET_STORAGE_KEY = 'filamint_upload_secret';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// UPLOAD
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Upload a model in chunks. A dropped connection is retried chunk by
+ * chunk; if it stays down the result says so, and calling this again with
+ * the same file carries on from the last chunk the server stored.
+ */
+export async function uploadInChunks<T>(
+  file: File,
+  onProgress: (progress: UploadProgress) => void
+): Promise<ChunkedUploadResult<T>> {
+  const totalBytes = file.size;
+
+  // Let the hashing state render before the hash blocks the page
+  onProgress({ phase: 'hashing', sentBytes: 0, totalBytes, resumedFrom: 0 });
+  await new Promise(resolve => setTimeout(resolve, 0));
+  const hash = hashModelFile(new Uint8Array(await file.arrayBuffer()));
+
+  const secretKey = `${SECRET_STORAGE_KEY}_${hash}_${totalBytes}`;
+  let session: SessionState;
+  try {
+    const response = await fetch('/api/upload/sessions', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        fileName: file.name,
+        size: totalBytes,
+        hash,
+        secret: localStorage.getItem(secretKey) ?? undefined,
+      }),
+    });
+    if (!response.ok) {
+      return { ok: false, error: await readError(response), resumable: response.status >= 500 };
+    }
+    session = await response.json();
+    localStorage.setItem(secretKey, session.secret);
+  } catch {
+    return connectionLost(0, totalBytes);
+  }
+
+  const resumedFrom = session.received;
+  let offset = session.received;
+  let attempts = 0;
+  onProgress({ phase: 'uploading', sentBytes: offset, totalBytes, resumedFrom });
+
+  while (offset < totalBytes) {
+    const end = Math.min(offset + session.chunkSize, totalBytes);
+    let response: Response | null = null;
+    try {
+      response = await fetch(`/api/upload/sessions/${session.uploadId}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/octet-stream',
+          'Upload-Offset': String(offset),
+          'Upload-Secret': session.secret,
+        },
+        body: file.slice(offset, end),
+      });
+    } catch {
+      // Network error; handled with the retryable statuses below
+    }
+
+    if (response?.ok) {
+      offset = (await response.json()).received;
+      attempts = 0;
+      onProgress({ phase: 'uploading', sentBytes: offset, totalBytes, resumedFrom });
+      continue;
+    }
+
+    if (response && response.status < 500 && response.status !== 409) {
+      // Expired sessions start over on resume; other rejections are final
+      if (response.status !== 404) localStorage.removeItem(secretKey);
+      return { ok: false, error: await readError(response), resumable: response.status === 404 };
+    }
+
+    attempts++;
+    if (attempts >= MAX_ATTEMPTS) {
+      return connectionLost(offset, totalBytes);
+    }
+
+    if (response?.status === 409) {
+      // The server has a different offset, e.g. a retried chunk had landed
+      const rejection = await readError(response);
+      if (typeof rejection.received === 'number') offset = rejection.received;
+    } else {
+      await sleep(Math.min(FIRST_RETRY_MS * 2 ** (attempts - 1), MAX_RETRY_MS));
+      offset = await fetchReceived(session) ?? offset;
+    }
+  }
+
+  onProgress({ phase: 'processing', sentBytes: totalBytes, totalBytes, resumedFrom });
+  try {
+    const response = await fetch(`/api/upload/sessions/${session.uploadId}/complete`, {
+      method: 'POST',
+      headers: { 'Upload-Secret': session.secret },
+    });
+    // Only a server error or missing bytes leave the session to resume
+    if (response.status < 500 && response.status !== 409) localStorage.removeItem(secretKey);
+    if (!response.ok) {
+      return { ok: false, error: await readError(response), resumable: response.status >= 500 };
+    }
+    return { ok: true, data: await response.json() };
+  } catch {
+    return connectionLost(totalBytes, totalBytes);
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// HELPERS
+// ═══════════════════════════════════════════════════════════════════════════
+
+async function readError(response: Response): Promise<UploadError & { received?: number }> {
+  const body = await response.json().catch(() => null);
+  return {
+    code: (body?.code as UploadErrorCode | undefined) ?? 'upload-failed',
+    message: body?.error || `Upload failed (${response.status})`,
+    received: body?.received,
+  };
+}
+
+// Where the server has got to, or null if it can't be reached
+async function fetchReceived(session: SessionState): Promise<number | null> {
+  try {
+    const response = await fetch(`/api/upload/sessions/${session.uploadId}`, {
+      headers: { 'Upload-Secret': session.secret },
+    });
+    return response.ok ? (await response.json()).received : null;
+  } catch {
+    return null;
+  }
+}
+
+function connectionLost(sentBytes: number, totalBytes: number): ChunkedUploadResult<never> {
+  const percent = Math.floor((sentBytes / totalBytes) * 100);
+  return {
+    ok: false,
+    error: { code: 'upload-failed', message: `The connection dropped at ${percent}%.` },
+    resumable: true,
+  };
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
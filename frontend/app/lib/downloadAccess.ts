@@ -0,0 +1,64 @@
+import { ethers } from 'ethers';
+
+// Signed download grants for model files. /api/files/challenge issues a
+// challenge for one escrow, the wallet signs it, and the signed challenge
+// goes along as query parameters on /api/files/<name> until it expires.
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════════════════
+
+export interface DownloadChallenge {
+  escrow: string;         // escrow address the files belong to
+  expires: number;        // unix seconds
+  nonce: string;          // server HMAC over escrow and expiry
+}
+
+export interface DownloadGrant extends DownloadChallenge {
+  signature: string;      // personal_sign of buildChallengeMessage()
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// HELPERS
+// ═══════════════════════════════════════════════════════════════════════════
+
+export function buildChallengeMessage(challenge: DownloadChallenge): string {
+  return [
+    'FilaMint model download',
+    '',
+    'Sign to download the model files for this order.',
+    `Escrow: ${ethers.getAddress(challenge.escrow)}`,
+    `Expires: ${new Date(challenge.expires * 1000).toISOString()}`,
+    `Nonce: ${challenge.nonce}`,
+  ].join('\n');
+}
+
+export function recoverGrantSigner(grant: DownloadGrant): string {
+  return ethers.verifyMessage(buildChallengeMessage(grant), grant.signature);
+}
+
+/**
+ * URL of a stored file, carrying the grant when there is one. Thumbnails
+ * are served without a grant.
+ */
+export function modelFileUrl(name: string, grant?: DownloadGrant): string {
+  if (!grant) return `/api/files/${name}`;
+  const query = new URLSearchParams({
+    escrow: grant.escrow,
+    expires: String(grant.expires),
+    nonce: grant.nonce,
+    signature: grant.signature,
+  });
+  return `/api/files/${name}?${query}`;
+}
+
+export function parseGrant(params: URLSearchParams): DownloadGrant | null {
+  const escrow = params.get('escrow');
+  const expires = Number(params.get('expires'));
+  const nonce = params.get('nonce');
+  const signature = params.get('signature');
+  if (!escrow || !ethers.isAddress(escrow) || !Number.isInteger(expires) || !nonce || !signature) {
+    return null;
+  }
+  return { escrow, expires, nonce, signature };
+}
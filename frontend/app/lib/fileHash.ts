@@ -0,0 +1,40 @@
+import { ethers } from 'ethers';
+
+// The bytes32 fileHash an order is created with: keccak256 of the model
+// file exactly as uploaded. The model store names uploads by it, /api/quote
+// signs it, and SellerView recomputes it from the download.
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════════════════
+
+export type FileCheck = { valid: true } | { valid: false; reason: string };
+
+// ═══════════════════════════════════════════════════════════════════════════
+// HELPERS
+// ═══════════════════════════════════════════════════════════════════════════
+
+export function hashModelFile(bytes: Uint8Array): string {
+  return ethers.keccak256(bytes);
+}
+
+/**
+ * Download a model and check it hashes to the fileHash from the escrow's
+ * OrderCreated event
+ */
+export async function verifyModelFile(url: string, onChainHash: string | null): Promise<FileCheck> {
+  if (!onChainHash) {
+    return { valid: false, reason: 'No OrderCreated event found for this escrow' };
+  }
+
+  const response = await fetch(url);
+  if (!response.ok) {
+    return { valid: false, reason: `Could not download the model (${response.status})` };
+  }
+
+  const fileHash = hashModelFile(new Uint8Array(await response.arrayBuffer()));
+  if (fileHash.toLowerCase() !== onChainHash.toLowerCase()) {
+    return { valid: false, reason: 'Downloaded model does not match the on-chain file hash' };
+  }
+  return { valid: true };
+}
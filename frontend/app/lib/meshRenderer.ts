@@ -0,0 +1,306 @@
+// WebGL drawing for ModelViewer: flat-shaded triangles plus coloured lines
+// (grid, bounding box), with just enough matrix maths for an orbit camera
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════════════════
+
+export type Vec3 = [number, number, number];
+
+export interface OrbitCamera {
+  target: Vec3;
+  azimuth: number;    // radians around +Z
+  elevation: number;  // radians above the XY plane
+  distance: number;   // mm from the target
+}
+
+export interface MeshGeometry {
+  positions: Float32Array;  // 3 floats per vertex, 3 vertices per triangle
+  normals: Float32Array;
+  colors: Float32Array;     // RGB 0–1 per vertex
+}
+
+export interface LineGeometry {
+  positions: Float32Array;  // 3 floats per vertex, 2 vertices per line
+  colors: Float32Array;
+}
+
+export interface MeshRenderer {
+  setMesh(geometry: MeshGeometry): void;
+  setColors(colors: Float32Array): void;
+  setLines(lines: LineGeometry): void;
+  // Returns the view-projection matrix, for placing labels over the canvas
+  render(camera: OrbitCamera, sceneRadius: number): Float32Array;
+  dispose(): void;
+}
+
+const FIELD_OF_VIEW = (40 * Math.PI) / 180;
+const MAX_ELEVATION = (89 * Math.PI) / 180;
+const BACKGROUND: [number, number, number, number] = [0, 0, 0, 0];
+
+// Light from over the viewer's shoulder, in view space
+const LIGHT: Vec3 = normalize([-0.3, 0.5, 0.8]);
+
+const MESH_VERTEX = `
+attribute vec3 position;
+attribute vec3 normal;
+attribute vec3 color;
+uniform mat4 viewProjection;
+uniform mat3 viewRotation;
+varying vec3 vNormal;
+varying vec3 vColor;
+void main() {
+  vNormal = viewRotation * normal;
+  vColor = color;
+  gl_Position = viewProjection * vec4(position, 1.0);
+}`;
+
+// Lit from both sides so meshes with bad winding still look solid
+const MESH_FRAGMENT = `
+precision mediump float;
+uniform vec3 light;
+varying vec3 vNormal;
+varying vec3 vColor;
+void main() {
+  float diffuse = abs(dot(normalize(vNormal), light));
+  gl_FragColor = vec4(vColor * (0.35 + 0.65 * diffuse), 1.0);
+}`;
+
+const LINE_VERTEX = `
+attribute vec3 position;
+attribute vec3 color;
+uniform mat4 viewProjection;
+varying vec3 vColor;
+void main() {
+  vColor = color;
+  gl_Position = viewProjection * vec4(position, 1.0);
+}`;
+
+const LINE_FRAGMENT = `
+precision mediump float;
+varying vec3 vColor;
+void main() {
+  gl_FragColor = vec4(vColor, 1.0);
+}`;
+
+// ═══════════════════════════════════════════════════════════════════════════
+// RENDERER
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Set up WebGL on a canvas. Throws if the browser has no WebGL.
+ */
+export function createMeshRenderer(canvas: HTMLCanvasElement): MeshRenderer {
+  const gl = canvas.getContext('webgl', { antialias: true, alpha: true });
+  if (!gl) {
+    throw new Error('WebGL is not available in this browser');
+  }
+
+  const meshProgram = createProgram(gl, MESH_VERTEX, MESH_FRAGMENT);
+  const lineProgram = createProgram(gl, LINE_VERTEX, LINE_FRAGMENT);
+  const buffers = {
+    meshPositions: gl.createBuffer(),
+    meshNormals: gl.createBuffer(),
+    meshColors: gl.createBuffer(),
+    linePositions: gl.createBuffer(),
+    lineColors: gl.createBuffer(),
+  };
+  let meshVertices = 0;
+  let lineVertices = 0;
+
+  const upload = (buffer: WebGLBuffer | null, data: Float32Array) => {
+    gl.bindBuffer(gl.ARRAY_BUFFER, buffer);
+    gl.bufferData(gl.ARRAY_BUFFER, data, gl.STATIC_DRAW);
+  };
+
+  const bindAttribute = (program: WebGLProgram, name: string, buffer: WebGLBuffer | null) => {
+    const location = gl.getAttribLocation(program, name);
+    if (location < 0) return;
+    gl.bindBuffer(gl.ARRAY_BUFFER, buffer);
+    gl.enableVertexAttribArray(location);
+    gl.vertexAttribPointer(location, 3, gl.FLOAT, false, 0, 0);
+  };
+
+  return {
+    setMesh(geometry) {
+      upload(buffers.meshPositions, geometry.positions);
+      upload(buffers.meshNormals, geometry.normals);
+      upload(buffers.meshColors, geometry.colors);
+      meshVertices = geometry.positions.length / 3;
+    },
+
+    setColors(colors) {
+      upload(buffers.meshColors, colors);
+    },
+
+    setLines(lines) {
+      upload(buffers.linePositions, lines.positions);
+      upload(buffers.lineColors, lines.colors);
+      lineVertices = lines.positions.length / 3;
+    },
+
+    render(camera, sceneRadius) {
+      // Match the drawing buffer to the displayed size
+      const ratio = window.devicePixelRatio || 1;
+      const width = Math.max(1, Math.round(canvas.clientWidth * ratio));
+      const height = Math.max(1, Math.round(canvas.clientHeight * ratio));
+      if (canvas.width !== width || canvas.height !== height) {
+        canvas.width = width;
+        canvas.height = height;
+      }
+      gl.viewport(0, 0, width, height);
+      gl.clearColor(...BACKGROUND);
+      gl.clear(gl.COLOR_BUFFER_BIT | gl.DEPTH_BUFFER_BIT);
+      gl.enable(gl.DEPTH_TEST);
+
+      const eye = orbitEye(camera);
+      const view = lookAt(eye, camera.target, [0, 0, 1]);
+      const near = Math.max(camera.distance - sceneRadius * 2, camera.distance / 100);
+      const far = camera.distance + sceneRadius * 4;
+      const viewProjection = multiply(perspective(FIELD_OF_VIEW, width / height, near, far), view);
+
+      if (lineVertices > 0) {
+        gl.useProgram(lineProgram);
+        gl.uniformMatrix4fv(gl.getUniformLocation(lineProgram, 'viewProjection'), false, viewProjection);
+        bindAttribute(lineProgram, 'position', buffers.linePositions);
+        bindAttribute(lineProgram, 'color', buffers.lineColors);
+        gl.drawArrays(gl.LINES, 0, lineVertices);
+      }
+
+      if (meshVertices > 0) {
+        gl.useProgram(meshProgram);
+        gl.uniformMatrix4fv(gl.getUniformLocation(meshProgram, 'viewProjection'), false, viewProjection);
+        gl.uniformMatrix3fv(gl.getUniformLocation(meshProgram, 'viewRotation'), false, rotationPart(view));
+        gl.uniform3fv(gl.getUniformLocation(meshProgram, 'light'), LIGHT);
+        bindAttribute(meshProgram, 'position', buffers.meshPositions);
+        bindAttribute(meshProgram, 'normal', buffers.meshNormals);
+        bindAttribute(meshProgram, 'color', buffers.meshColors);
+        gl.drawArrays(gl.TRIANGLES, 0, meshVertices);
+      }
+
+      return viewProjection;
+    },
+
+    dispose() {
+      for (const buffer of Object.values(buffers)) gl.deleteBuffer(buffer);
+      gl.deleteProgram(meshProgram);
+      gl.deleteProgram(lineProgram);
+    },
+  };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// CAMERA HELPERS
+// ═══════════════════════════════════════════════════════════════════════════
+
+export function clampElevation(elevation: number): number {
+  return Math.max(-MAX_ELEVATION, Math.min(MAX_ELEVATION, elevation));
+}
+
+/**
+ * Where a world point lands on the canvas, in CSS pixels from the top
+ * left, or null when it is behind the camera
+ */
+export function projectToCanvas(
+  viewProjection: Float32Array,
+  point: Vec3,
+  width: number,
+  height: number
+): { x: number; y: number } | null {
+  const m = viewProjection;
+  const [x, y, z] = point;
+  const w = m[3] * x + m[7] * y + m[11] * z + m[15];
+  if (w <= 0) return null;
+  const ndcX = (m[0] * x + m[4] * y + m[8] * z + m[12]) / w;
+  const ndcY = (m[1] * x + m[5] * y + m[9] * z + m[13]) / w;
+  return { x: ((ndcX + 1) / 2) * width, y: ((1 - ndcY) / 2) * height };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// INTERNALS
+// ═══════════════════════════════════════════════════════════════════════════
+
+function createProgram(gl: WebGLRenderingContext, vertexSource: string, fragmentSource: string): WebGLProgram {
+  const compile = (type: number, source: string) => {
+    const shader = gl.createShader(type);
+    if (!shader) throw new Error('Failed to create shader');
+    gl.shaderSource(shader, source);
+    gl.compileShader(shader);
+    if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
+      throw new Error(`Shader failed to compile: ${gl.getShaderInfoLog(shader)}`);
+    }
+    return shader;
+  };
+
+  const program = gl.createProgram();
+  if (!program) throw new Error('Failed to create shader program');
+  gl.attachShader(program, compile(gl.VERTEX_SHADER, vertexSource));
+  gl.attachShader(program, compile(gl.FRAGMENT_SHADER, fragmentSource));
+  gl.linkProgram(program);
+  if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
+    throw new Error(`Shader program failed to link: ${gl.getProgramInfoLog(program)}`);
+  }
+  return program;
+}
+
+function orbitEye({ target, azimuth, elevation, distance }: OrbitCamera): Vec3 {
+  return [
+    target[0] + distance * Math.cos(elevation) * Math.cos(azimuth),
+    target[1] + distance * Math.cos(elevation) * Math.sin(azimuth),
+    target[2] + distance * Math.sin(elevation),
+  ];
+}
+
+// Matrices are column-major, as WebGL expects
+
+function perspective(fovy: number, aspect: number, near: number, far: number): Float32Array {
+  const f = 1 / Math.tan(fovy / 2);
+  const out = new Float32Array(16);
+  out[0] = f / aspect;
+  out[5] = f;
+  out[10] = (far + near) / (near - far);
+  out[11] = -1;
+  out[14] = (2 * far * near) / (near - far);
+  return out;
+}
+
+function lookAt(eye: Vec3, target: Vec3, up: Vec3): Float32Array {
+  const z = normalize([eye[0] - target[0], eye[1] - target[1], eye[2] - target[2]]);
+  const x = normalize(cross(up, z));
+  const y = cross(z, x);
+  return new Float32Array([
+    x[0], y[0], z[0], 0,
+    x[1], y[1], z[1], 0,
+    x[2], y[2], z[2], 0,
+    -dot(x, eye), -dot(y, eye), -dot(z, eye), 1,
+  ]);
+}
+
+function multiply(a: Float32Array, b: Float32Array): Float32Array {
+  const out = new Float32Array(16);
+  for (let col = 0; col < 4; col++) {
+    for (let row = 0; row < 4; row++) {
+      let sum = 0;
+      for (let k = 0; k < 4; k++) sum += a[k * 4 + row] * b[col * 4 + k];
+      out[col * 4 + row] = sum;
+    }
+  }
+  return out;
+}
+
+function rotationPart(m: Float32Array): Float32Array {
+  return new Float32Array([m[0], m[1], m[2], m[4], m[5], m[6], m[8], m[9], m[10]]);
+}
+
+function cross(a: Vec3, b: Vec3): Vec3 {
+  return [a[1] * b[2] - a[2] * b[1], a[2] * b[0] - a[0] * b[2], a[0] * b[1] - a[1] * b[0]];
+}
+
+function dot(a: Vec3, b: Vec3): number {
+  return a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+}
+
+function normalize(v: Vec3): Vec3 {
+  const length = Math.sqrt(dot(v, v)) || 1;
+  return [v[0] / length, v[1] / length, v[2] / length];
+}
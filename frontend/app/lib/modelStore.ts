@@ -0,0 +1,355 @@
+import fs from 'fs';
+import path from 'path';
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { ethers } from 'ethers';
+import {
+  createModelStore,
+  createUploadSessions,
+  createEscrowLookup,
+  createEscrowPartiesLookup,
+  checkDownloadAccess,
+  storageBackendFromEnv,
+  DEFAULT_MAX_TRIANGLES,
+  DEFAULT_MAX_UNPACKED_BYTES,
+  DEFAULT_MAX_CLIENT_STAGED_BYTES,
+  type DownloadAccess,
+  type EscrowPartiesLookup,
+  type LiveHashLookup,
+  type ModelStore,
+  type StorageBackend,
+  type UploadLimits,
+} from '../../../backend/storage/index.ts';
+import { getModelFormat } from '../../../backend/pricing/index.ts';
+import { recoverGrantSigner, type DownloadChallenge, type DownloadGrant } from './downloadAccess';
+import { checkQuote, type SignedQuote } from './signedQuote';
+
+// The model store and chunked upload sessions shared by the API routes
+// (server only), configured from the environment, the background retention
+// sweep, download checks, and the signed quote kept for each order. Models
+// left in public/ by older versions are imported into the store on first use.
+
+// ═══════════════════════════════════════════════════════════════════════════
+// STORE
+// ═══════════════════════════════════════════════════════════════════════════
+
+const MB = 1024 * 1024;
+
+// Server state, outside public/ so nothing here is served directly
+const STORAGE_DIR = path.join(process.cwd(), '.storage');
+
+// Where the local backend keeps models; files are served by /api/files
+// whichever backend holds them
+const MODEL_DIR = path.join(STORAGE_DIR, 'models');
+
+// Where older versions kept local models, served to anyone by Next
+const LEGACY_MODEL_DIR = path.join(process.cwd(), 'public', 'stl-temp');
+
+// Checked before anything is stored
+export const uploadLimits: UploadLimits = {
+  maxFileBytes: envNumber('STORAGE_MAX_FILE_MB', 50) * MB,
+  maxTriangles: envNumber('UPLOAD_MAX_TRIANGLES', DEFAULT_MAX_TRIANGLES),
+  maxUnpackedBytes: envNumber('UPLOAD_MAX_UNPACKED_MB', DEFAULT_MAX_UNPACKED_BYTES / MB) * MB,
+};
+
+const modelBackend = storageBackendFromEnv('models', MODEL_DIR);
+
+export const modelStore = afterLegacyImport(modelBackend, createModelStore({
+  backend: modelBackend,
+  indexFile: path.join(STORAGE_DIR, 'models.json'),
+  quota: {
+    maxFileBytes: uploadLimits.maxFileBytes,
+    maxTotalBytes: envNumber('STORAGE_MAX_TOTAL_MB', 2048) * MB,
+  },
+  gracePeriodMs: envNumber('STORAGE_GRACE_HOURS', 72) * 60 * 60 * 1000,
+}));
+
+// Chunked uploads are staged here until complete, then go to modelStore
+export const uploadSessions = createUploadSessions({
+  dir: path.join(STORAGE_DIR, 'uploads'),
+  limits: uploadLimits,
+  chunkSize: envNumber('UPLOAD_CHUNK_KB', 1024) * 1024,
+  maxClientStagedBytes: envNumber('UPLOAD_MAX_CLIENT_STAGED_MB', DEFAULT_MAX_CLIENT_STAGED_BYTES / MB) * MB,
+});
+
+// ═══════════════════════════════════════════════════════════════════════════
+// RETENTION
+// ═══════════════════════════════════════════════════════════════════════════
+
+const SWEEP_INTERVAL_MS = 60 * 60 * 1000;
+
+let lastSweepAt = 0;
+let escrowLookup: LiveHashLookup | null | undefined;
+
+/**
+ * Start a retention sweep if none has run in the last hour. Runs in the
+ * background; failures are logged and nothing is deleted.
+ */
+export function sweepInBackground(): void {
+  if (Date.now() - lastSweepAt < SWEEP_INTERVAL_MS) return;
+  lastSweepAt = Date.now();
+
+  const isLive = getEscrowLookup();
+  if (!isLive) return;
+
+  modelStore.sweep(isLive)
+    .then(result => {
+      if (result.deleted.length > 0) {
+        console.log(`Storage sweep deleted ${result.deleted.length} models (${(result.freedBytes / MB).toFixed(1)} MB)`);
+      }
+    })
+    .catch(err => console.error('Storage sweep failed:', err));
+}
+
+// Without a chain to check escrows against, nothing can be safely deleted
+function getEscrowLookup(): LiveHashLookup | null {
+  if (escrowLookup === undefined) {
+    const rpcUrl = process.env.RPC_URL;
+    const factory = process.env.NEXT_PUBLIC_ESCROW_FACTORY_ADDRESS;
+    escrowLookup = rpcUrl && factory ? createEscrowLookup(rpcUrl, factory) : null;
+    if (!escrowLookup) {
+      console.warn('RPC_URL or NEXT_PUBLIC_ESCROW_FACTORY_ADDRESS not set; stored models are never deleted');
+    }
+  }
+  return escrowLookup;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// DOWNLOAD ACCESS
+// ═══════════════════════════════════════════════════════════════════════════
+
+// How long a signed challenge works for downloads
+const CHALLENGE_TTL_SECONDS = 15 * 60;
+
+let partiesLookup: EscrowPartiesLookup | null | undefined;
+let downloadSecret: Buffer | undefined;
+
+/**
+ * A challenge for the wallet to sign. The nonce is an HMAC, so the server
+ * can check it later without remembering what it issued.
+ */
+export function issueDownloadChallenge(escrow: string): DownloadChallenge {
+  const expires = Math.floor(Date.now() / 1000) + CHALLENGE_TTL_SECONDS;
+  return { escrow, expires, nonce: challengeNonce(escrow, expires) };
+}
+
+/**
+ * The wallet that signed a grant, or null if the grant is expired, wasn't
+ * issued by this server, or the signature doesn't recover
+ */
+export function verifyDownloadGrant(grant: DownloadGrant): string | null {
+  if (grant.expires < Date.now() / 1000) return null;
+
+  const expected = Buffer.from(challengeNonce(grant.escrow, grant.expires));
+  const given = Buffer.from(grant.nonce);
+  if (expected.length !== given.length || !timingSafeEqual(expected, given)) return null;
+
+  try {
+    return recoverGrantSigner(grant);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Whether `wallet` may download a file hashing to `fileHash` for `escrow`:
+ * the escrow must come from the factory, be claimed and not ended, and
+ * `wallet` must be its buyer or seller
+ */
+export async function checkEscrowDownload(escrow: string, wallet: string, fileHash: string): Promise<DownloadAccess> {
+  const lookup = getPartiesLookup();
+  if (!lookup) {
+    return { allowed: false, reason: 'Downloads need RPC_URL and NEXT_PUBLIC_ESCROW_FACTORY_ADDRESS' };
+  }
+
+  const parties = await lookup(escrow);
+  if (!parties) {
+    return { allowed: false, reason: 'Not an escrow created by the FilaMint factory' };
+  }
+  return checkDownloadAccess(parties, wallet, fileHash);
+}
+
+function getPartiesLookup(): EscrowPartiesLookup | null {
+  if (partiesLookup === undefined) {
+    const rpcUrl = process.env.RPC_URL;
+    const factory = process.env.NEXT_PUBLIC_ESCROW_FACTORY_ADDRESS;
+    partiesLookup = rpcUrl && factory ? createEscrowPartiesLookup(rpcUrl, factory) : null;
+  }
+  return partiesLookup;
+}
+
+function challengeNonce(escrow: string, expires: number): string {
+  return createHmac('sha256', getDownloadSecret())
+    .update(`${ethers.getAddress(escrow)}:${expires}`)
+    .digest('hex');
+}
+
+// DOWNLOAD_SECRET, or a random one kept with the index so it survives restarts
+function getDownloadSecret(): Buffer {
+  if (!downloadSecret) {
+    const file = path.join(STORAGE_DIR, 'download-secret');
+    if (process.env.DOWNLOAD_SECRET) {
+      downloadSecret = Buffer.from(process.env.DOWNLOAD_SECRET);
+    } else if (fs.existsSync(file)) {
+      downloadSecret = fs.readFileSync(file);
+    } else {
+      downloadSecret = randomBytes(32);
+      fs.writeFileSync(file, downloadSecret, { mode: 0o600 });
+    }
+  }
+  return downloadSecret;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// QUOTES
+// ═══════════════════════════════════════════════════════════════════════════
+
+// Signed quotes by lowercased escrow address
+const QUOTES_FILE = path.join(STORAGE_DIR, 'quotes.json');
+
+export type QuoteSave = { saved: true } | { saved: false; status: number; reason: string };
+
+export function readStoredQuote(escrow: string): SignedQuote | null {
+  return readQuotes()[escrow.toLowerCase()] ?? null;
+}
+
+/**
+ * Keep the quote an escrow was funded from, so any seller can check it
+ *
+ * The escrow must come from the factory and the quote must pass
+ * checkQuote() against what the chain recorded, so a mismatched quote
+ * can't be attached to someone else's order. The first one stored stays.
+ */
+export async function storeQuote(escrow: string, quote: SignedQuote): Promise<QuoteSave> {
+  const lookup = getPartiesLookup();
+  if (!lookup) {
+    return { saved: false, status: 503, reason: 'Quotes need RPC_URL and NEXT_PUBLIC_ESCROW_FACTORY_ADDRESS' };
+  }
+
+  const parties = await lookup(escrow);
+  if (!parties) {
+    return { saved: false, status: 404, reason: 'Not an escrow created by the FilaMint factory' };
+  }
+
+  const check = checkQuote(quote, {
+    orderAmountWei: parties.orderAmountWei,
+    createdAt: parties.createdAt,
+    fileHash: parties.fileHash,
+  });
+  if (!check.valid) {
+    return { saved: false, status: 422, reason: check.reason };
+  }
+
+  const quotes = readQuotes();
+  const key = escrow.toLowerCase();
+  if (!quotes[key]) {
+    quotes[key] = { message: quote.message, signature: quote.signature };
+    // Write then rename, like the model index
+    const temp = `${QUOTES_FILE}.tmp`;
+    fs.mkdirSync(STORAGE_DIR, { recursive: true });
+    fs.writeFileSync(temp, JSON.stringify(quotes, null, 2));
+    fs.renameSync(temp, QUOTES_FILE);
+  }
+  return { saved: true };
+}
+
+function readQuotes(): Record<string, SignedQuote> {
+  try {
+    return JSON.parse(fs.readFileSync(QUOTES_FILE, 'utf-8'));
+  } catch {
+    return {};
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// LEGACY UPLOADS
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Wrap the store so nothing is read or written until public/stl-temp has
+ * been emptied into it. The lookups that don't wait (get, findByFile,
+ * usage) only miss imported files until the first read or write.
+ */
+function afterLegacyImport(backend: StorageBackend, store: ModelStore): ModelStore {
+  let imported: Promise<void> | undefined;
+  const ready = () => (imported ??= importLegacyModels(backend, store));
+
+  return {
+    ...store,
+    put: async (bytes, originalName, extension) => { await ready(); return store.put(bytes, originalName, extension); },
+    addDerivedFile: async (modelFileName, name, bytes) => { await ready(); return store.addDerivedFile(modelFileName, name, bytes); },
+    read: async fileName => { await ready(); return store.read(fileName); },
+    sweep: async (isLive, now) => { await ready(); return store.sweep(isLive, now); },
+  };
+}
+
+/**
+ * Files the index already knows are copied into the backend under the
+ * same names. Uploads from before the store are stored by their hash and
+ * keep their old name as a derived file, so links in existing orders still
+ * work; the retention sweep then keeps them while their escrow is live.
+ * Nothing is deleted from public/stl-temp until the store holds it.
+ */
+async function importLegacyModels(backend: StorageBackend, store: ModelStore): Promise<void> {
+  let names: string[];
+  try {
+    names = fs.readdirSync(LEGACY_MODEL_DIR);
+  } catch {
+    return; // nothing to import
+  }
+
+  let moved = 0;
+  let imported = 0;
+  for (const name of names) {
+    const file = path.join(LEGACY_MODEL_DIR, name);
+    try {
+      if (!fs.statSync(file).isFile()) continue;
+      const bytes = fs.readFileSync(file);
+
+      if (store.findByFile(name)) {
+        if (!(await backend.exists(name))) {
+          await backend.write(name, bytes);
+        }
+        moved++;
+      } else {
+        const format = getModelFormat(name);
+        if (!format) {
+          console.error(`Left ${name} in public/stl-temp: not a model file`);
+          continue;
+        }
+        const stored = await store.put(bytes, name, format);
+        if (!stored.ok) {
+          console.error(`Left ${name} in public/stl-temp: ${stored.message}`);
+          continue;
+        }
+        if (stored.model.fileName !== name) {
+          await store.addDerivedFile(stored.model.fileName, name, bytes);
+        }
+        imported++;
+      }
+      fs.unlinkSync(file);
+    } catch (err) {
+      // Left in place and retried on the next start
+      console.error(`Failed to import ${name} from public/stl-temp:`, err);
+    }
+  }
+
+  try {
+    fs.rmdirSync(LEGACY_MODEL_DIR);
+  } catch {
+    // Not empty: whatever failed to import is still there
+  }
+  if (moved > 0 || imported > 0) {
+    console.log(
+      `public/stl-temp: moved ${moved} indexed file(s) and imported ${imported} older upload(s) into the model store`
+    );
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// HELPERS
+// ═══════════════════════════════════════════════════════════════════════════
+
+function envNumber(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return value > 0 ? value : fallback;
+}
@@ -0,0 +1,140 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import path from 'path';
+import {
+  getEstimateFromMesh,
+  renderThumbnails,
+  repairMesh,
+  rotateMesh,
+  writeStl,
+  PrintEstimate,
+  RepairReport,
+} from '../../../backend/pricing/index.ts';
+import {
+  checkModelUpload,
+  UPLOAD_ERROR_STATUS,
+  type UploadErrorCode,
+} from '../../../backend/storage/index.ts';
+import { modelStore, sweepInBackground, uploadLimits } from './modelStore';
+
+// What happens to a model once all of its bytes are here (server only).
+// /api/upload and the completion of a chunked upload both end in
+// storeModelUpload, so either way it is validated, stored and priced alike.
+
+// ═══════════════════════════════════════════════════════════════════════════
+// RESPONSES
+// ═══════════════════════════════════════════════════════════════════════════
+
+// Rejections carry a code FileUpload can explain
+export function uploadError(code: UploadErrorCode, message: string, extra?: Record<string, unknown>) {
+  return NextResponse.json(
+    { error: message, code, ...extra },
+    { status: UPLOAD_ERROR_STATUS[code] }
+  );
+}
+
+/**
+ * Who is uploading, for the per-client staging limit
+ *
+ * Forwarding headers are only believed when TRUSTED_PROXY_HOPS says how
+ * many proxies in front of the app append to X-Forwarded-For: the address
+ * the outermost one saw is that many entries from the right, where the
+ * client can't write. Route handlers aren't given the connection's
+ * address, and without a proxy the headers are whatever the client sent,
+ * so direct clients share one limit.
+ */
+export function uploadClient(request: NextRequest): string {
+  const hops = Number(process.env.TRUSTED_PROXY_HOPS);
+  if (!Number.isInteger(hops) || hops < 1) return 'direct';
+
+  const forwarded = (request.headers.get('x-forwarded-for') ?? '')
+    .split(',')
+    .map(address => address.trim())
+    .filter(Boolean);
+  if (forwarded.length > 0) {
+    return forwarded[Math.max(0, forwarded.length - hops)];
+  }
+  return request.headers.get('x-real-ip')?.trim() || 'unknown';
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// PIPELINE
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Validate, store and estimate an uploaded model, answering with the file
+ * metadata and estimate the buyer page shows
+ */
+export async function storeModelUpload(name: string, buffer: Buffer): Promise<NextResponse> {
+  // Name, size, content sniffing, parse and triangle limit
+  const check = checkModelUpload(name, buffer, uploadLimits);
+  if (!check.valid) {
+    return uploadError(check.code, check.message);
+  }
+  const { format, fileName: originalName } = check;
+
+  // Store by content hash; a repeat upload reuses the stored file
+  const stored = await modelStore.put(buffer, originalName, format);
+  if (!stored.ok) {
+    return uploadError(stored.reason, stored.message);
+  }
+  const { fileName, hash: fileHash } = stored.model;
+  sweepInBackground();
+
+  // Get print estimate
+  let estimate: PrintEstimate | null = null;
+  let repair: RepairReport | null = null;
+  let repairedFileName: string | null = null;
+  let orientedFileName: string | null = null;
+  const thumbnails: string[] = [];
+  try {
+    // Repair here rather than inside the estimate so the fixed mesh can be saved
+    const repaired = repairMesh(check.mesh);
+    const mesh = repaired.mesh;
+    repair = repaired.report;
+    estimate = {
+      ...getEstimateFromMesh(mesh, 'PLA', 'White', 20, { repair: false }),
+      repair,
+    };
+
+    const baseName = path.parse(fileName).name;
+    if (repair.changed) {
+      repairedFileName = `${baseName}-repaired.stl`;
+      await modelStore.addDerivedFile(fileName, repairedFileName, writeStl(mesh));
+    }
+
+    // Save the part in the orientation it was priced in, for the seller
+    const printMesh = estimate.orientation.rotated
+      ? rotateMesh(mesh, estimate.orientation.rotation)
+      : mesh;
+    if (estimate.orientation.rotated) {
+      orientedFileName = `${baseName}-oriented.stl`;
+      await modelStore.addDerivedFile(fileName, orientedFileName, writeStl(printMesh));
+    }
+
+    // Thumbnails show the part as it sits on the bed
+    for (const { view, png } of renderThumbnails(printMesh)) {
+      const thumbnailName = `${baseName}-${view}.png`;
+      await modelStore.addDerivedFile(fileName, thumbnailName, png);
+      thumbnails.push(thumbnailName);
+    }
+  } catch (err) {
+    console.error(`Error analyzing ${format.toUpperCase()}:`, err);
+    // Continue without estimate - file is still uploaded
+  }
+
+  // Return success response with file metadata and estimate
+  return NextResponse.json({
+    success: true,
+    fileName,
+    fileHash,
+    originalName,
+    size: buffer.length,
+    path: `/api/files/${fileName}`,
+    deduplicated: stored.deduplicated,
+    repair,
+    repairedFileName,
+    orientedFileName,
+    thumbnails,
+    estimate,
+  });
+}
@@ -0,0 +1,163 @@
+import { ethers } from 'ethers';
+
+// EIP-712 quotes shared by /api/quote (signs), BuyerView (deposits the
+// quoted amount and stores the quote with /api/quotes) and SellerView
+// (checks an escrow against its stored quote)
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════════════════
+
+export interface QuoteMessage {
+  fileHash: string;       // bytes32 passed to createOrder
+  material: string;
+  color: string;
+  infillPercent: number;
+  usdTotalCents: string;  // deposit in USD cents (uint256, decimal string)
+  ethUsdCents: string;    // USD cents per ETH used for the conversion
+  amountWei: string;      // exact msg.value for createOrder
+  expiry: number;         // unix seconds
+}
+
+export interface SignedQuote {
+  message: QuoteMessage;
+  signature: string;
+}
+
+// `unverifiable` when the escrow couldn't be read well enough to check,
+// rather than found not to match
+export type QuoteCheck =
+  | { valid: true }
+  | { valid: false; reason: string; unverifiable?: boolean };
+
+export const QUOTE_TYPES: Record<string, ethers.TypedDataField[]> = {
+  Quote: [
+    { name: 'fileHash', type: 'bytes32' },
+    { name: 'material', type: 'string' },
+    { name: 'color', type: 'string' },
+    { name: 'infillPercent', type: 'uint8' },
+    { name: 'usdTotalCents', type: 'uint256' },
+    { name: 'ethUsdCents', type: 'uint256' },
+    { name: 'amountWei', type: 'uint256' },
+    { name: 'expiry', type: 'uint64' },
+  ],
+};
+
+// Public address of the platform's quote signer
+export const QUOTE_SIGNER_ADDRESS = process.env.NEXT_PUBLIC_QUOTE_SIGNER_ADDRESS || '';
+
+// Mirrors EscrowInstance.initialize: orderAmount = value × BPS / (BPS + fees)
+const BPS = BigInt(10000);
+const PLATFORM_FEE_BPS = BigInt(50);
+const GAS_CUSHION_BPS = BigInt(200);
+
+// ═══════════════════════════════════════════════════════════════════════════
+// HELPERS
+// ═══════════════════════════════════════════════════════════════════════════
+
+export function getQuoteDomain(): ethers.TypedDataDomain {
+  const factory = process.env.NEXT_PUBLIC_ESCROW_FACTORY_ADDRESS;
+  return {
+    name: 'FilaMint Quote',
+    version: '1',
+    chainId: Number(process.env.NEXT_PUBLIC_CHAIN_ID || 31337),
+    ...(factory ? { verifyingContract: factory } : {}),
+  };
+}
+
+/**
+ * Convert USD cents to wei at a rate given in USD cents per ETH
+ */
+export function usdCentsToWei(usdCents: bigint, ethUsdCents: bigint): bigint {
+  return (usdCents * ethers.WeiPerEther) / ethUsdCents;
+}
+
+/**
+ * The orderAmount an escrow records for a deposit of `amountWei`
+ */
+export function expectedOrderAmount(amountWei: bigint): bigint {
+  return (amountWei * BPS) / (BPS + GAS_CUSHION_BPS + PLATFORM_FEE_BPS);
+}
+
+export async function signQuoteMessage(message: QuoteMessage, privateKey: string): Promise<SignedQuote> {
+  const signature = await new ethers.Wallet(privateKey).signTypedData(getQuoteDomain(), QUOTE_TYPES, message);
+  return { message, signature };
+}
+
+export function recoverQuoteSigner(quote: SignedQuote): string {
+  return ethers.verifyTypedData(getQuoteDomain(), QUOTE_TYPES, quote.message, quote.signature);
+}
+
+export function isQuoteExpired(quote: SignedQuote, at: number = Math.floor(Date.now() / 1000)): boolean {
+  return at > quote.message.expiry;
+}
+
+/**
+ * Check that an escrow was funded from an authentic platform quote: signed
+ * by the platform key, for this file, for the quoted amount, and before
+ * the quote expired
+ *
+ * `fileHash` is the hash the escrow recorded on-chain, or null when it
+ * couldn't be read. Without it the file can't be matched, so the quote is
+ * never reported valid.
+ */
+export function checkQuote(
+  quote: SignedQuote,
+  escrow: { orderAmountWei: bigint; createdAt: number; fileHash: string | null }
+): QuoteCheck {
+  if (!QUOTE_SIGNER_ADDRESS) {
+    return { valid: false, reason: 'Quote signer address is not configured' };
+  }
+
+  let signer: string;
+  try {
+    signer = recoverQuoteSigner(quote);
+  } catch {
+    return { valid: false, reason: 'Malformed quote signature' };
+  }
+  if (signer.toLowerCase() !== QUOTE_SIGNER_ADDRESS.toLowerCase()) {
+    return { valid: false, reason: 'Quote was not signed by the platform' };
+  }
+  if (isQuoteExpired(quote, escrow.createdAt)) {
+    return { valid: false, reason: 'Escrow was funded after the quote expired' };
+  }
+  if (expectedOrderAmount(BigInt(quote.message.amountWei)) !== escrow.orderAmountWei) {
+    return { valid: false, reason: 'Escrow amount does not match the quote' };
+  }
+  if (!escrow.fileHash) {
+    return { valid: false, reason: "The escrow's file hash could not be read", unverifiable: true };
+  }
+  if (escrow.fileHash.toLowerCase() !== quote.message.fileHash.toLowerCase()) {
+    return { valid: false, reason: 'Escrow file does not match the quote' };
+  }
+  return { valid: true };
+}
+
+/**
+ * Store the quote an escrow was funded from, so sellers can check it. The
+ * server only keeps a quote that passes checkQuote() against the chain.
+ */
+export async function saveOrderQuote(escrowAddress: string, quote: SignedQuote): Promise<void> {
+  const response = await fetch(`/api/quotes/${escrowAddress}`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ quote }),
+  });
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    throw new Error(data.error || 'Failed to store the quote');
+  }
+}
+
+/**
+ * The quote stored for an escrow, or null if none was stored. Throws when
+ * the server can't be asked, so callers can tell "no quote" from "unknown".
+ */
+export async function fetchOrderQuote(escrowAddress: string): Promise<SignedQuote | null> {
+  const response = await fetch(`/api/quotes/${escrowAddress}`);
+  if (response.status === 404) return null;
+  if (!response.ok) {
+    throw new Error(`Failed to load the quote (${response.status})`);
+  }
+  return (await response.json()).quote;
+}
@@ -60,7 +60,7 @@ function EscrowTestContent() {
   } = useWalletContext();
 
   // Factory hooks
-  const { createOrder, isLoading: createLoading, error: createError } = useCreateOrder();
+  const { createOrderUnquoted, isLoading: createLoading, error: createError } = useCreateOrder();
   const { readFactoryInfo, data: factoryData, isLoading: factoryLoading } = useFactoryInfo();
   
   // Escrow read hook
@@ -145,7 +145,7 @@ function EscrowTestContent() {
     try {
       // Total = orderAmount * 1.025 (includes 2% gas cushion + 0.5% platform fee)
       const total = (parseFloat(orderAmount) * 1.025).toFixed(6);
-      const result = await createOrder(fileHash, total);
+      const result = await createOrderUnquoted(fileHash, total);
       setEscrowAddress(result.escrowAddress);
       log(`SUCCESS: Order created!`);
       log(`  Order ID: ${result.orderId}`);
@@ -1,3 +1,5 @@
+import type { SignedQuote } from '../lib/signedQuote';
+
 export type OrderStatus = 'pending' | 'claimed' | 'printing' | 'shipped' | 'delivered' | 'disputed';
 
 export type PrintMaterial = 'PLA' | 'ABS' | 'PETG' | 'TPU' | 'Resin';
@@ -19,7 +21,7 @@ export interface Order {
   material: PrintMaterial;
   color: string;
   infill: number; // percentage 0-100
-  printTimeHours: number;
+  printTimeHours: number; // from the print-time estimate the order was quoted with
   
   // Escrow & pricing
   escrowAmountEth: number;
@@ -46,3 +48,25 @@ export interface NewOrderInput {
   escrowAmountEth: number;
 }
 
+
+// Order metadata BuyerView keeps in localStorage (not on-chain); SellerView
+// reads the same records
+export interface OrderMetadata {
+  escrowAddress: string;
+  fileName: string;
+  fileHash?: string;              // recorded on-chain by createOrder
+  originalName: string;
+  repairedFileName?: string;
+  orientedFileName?: string;
+  thumbnails?: string[];          // PNG file names, isometric view first
+  material: string;
+  color: string;
+  infillPercent: number;
+  supportsEnabled?: boolean;
+  printTimeHours?: Order['printTimeHours'];   // missing on orders placed before estimates
+  dimensions: { x: number; y: number; z: number };
+  totalCostUsd: number;
+  totalCostEth: string;
+  quote?: SignedQuote;
+  createdAt: number;
+}
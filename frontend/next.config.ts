@@ -1,7 +1,12 @@
 import type { NextConfig } from "next";
+import path from "path";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  // API routes import the pricing engine from ../backend
+  turbopack: {
+    root: path.join(__dirname, ".."),
+  },
+  outputFileTracingRoot: path.join(__dirname, ".."),
 };
 
 export default nextConfig;
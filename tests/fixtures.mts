@@ -0,0 +1,185 @@
+import { readFileSync } from 'fs';
+import path from 'path';
+import { crc32, deflateRawSync } from 'zlib';
+import { fileURLToPath } from 'url';
+import type { Mesh } from '../backend/pricing/index.ts';
+
+// Shared by the backend tests: the STL files in tests/files and small
+// meshes built by hand, where exact numbers are easy to check
+
+const FILES_DIR = path.join(path.dirname(fileURLToPath(import.meta.url)), 'files');
+
+export function readFixture(name: string): Buffer {
+  return readFileSync(path.join(FILES_DIR, name));
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// MESHES
+// ═══════════════════════════════════════════════════════════════════════════
+
+// Unit cube corners, and its faces wound counter-clockwise seen from outside
+export const CUBE_VERTICES: [number, number, number][] = [
+  [0, 0, 0], [1, 0, 0], [1, 1, 0], [0, 1, 0],
+  [0, 0, 1], [1, 0, 1], [1, 1, 1], [0, 1, 1],
+];
+
+export const CUBE_FACES: [number, number, number][] = [
+  [0, 2, 1], [0, 3, 2],   // bottom
+  [4, 5, 6], [4, 6, 7],   // top
+  [0, 1, 5], [0, 5, 4],   // front
+  [2, 3, 7], [2, 7, 6],   // back
+  [0, 4, 7], [0, 7, 3],   // left
+  [1, 2, 6], [1, 6, 5],   // right
+];
+
+/**
+ * A closed box of the given size with one corner at `origin`
+ */
+export function box(
+  size: [number, number, number],
+  origin: [number, number, number] = [0, 0, 0],
+  faces: [number, number, number][] = CUBE_FACES
+): Mesh {
+  const values: number[] = [];
+  for (const face of faces) {
+    for (const corner of face) {
+      const v = CUBE_VERTICES[corner];
+      values.push(origin[0] + v[0] * size[0], origin[1] + v[1] * size[1], origin[2] + v[2] * size[2]);
+    }
+  }
+  return { triangles: new Float32Array(values) };
+}
+
+export function cube(size: number, origin: [number, number, number] = [0, 0, 0]): Mesh {
+  return box([size, size, size], origin);
+}
+
+/**
+ * Several meshes as one triangle soup
+ */
+export function merge(...meshes: Mesh[]): Mesh {
+  const values: number[] = [];
+  for (const mesh of meshes) values.push(...mesh.triangles);
+  return { triangles: new Float32Array(values) };
+}
+
+export function asciiStl(mesh: Mesh): Buffer {
+  const t = mesh.triangles;
+  const lines = ['solid test'];
+  for (let i = 0; i < t.length; i += 9) {
+    lines.push('  facet normal 0 0 0', '    outer loop');
+    for (let k = 0; k < 9; k += 3) {
+      lines.push(`      vertex ${t[i + k]} ${t[i + k + 1]} ${t[i + k + 2]}`);
+    }
+    lines.push('    endloop', '  endfacet');
+  }
+  lines.push('endsolid test');
+  return Buffer.from(lines.join('\n'));
+}
+
+export function cubeObj(size: number): Buffer {
+  const lines = CUBE_VERTICES.map(([x, y, z]) => `v ${x * size} ${y * size} ${z * size}`);
+  lines.push(...CUBE_FACES.map(face => `f ${face.map(i => i + 1).join(' ')}`));
+  return Buffer.from(lines.join('\n'));
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// 3MF PACKAGES
+// ═══════════════════════════════════════════════════════════════════════════
+
+export interface ZipFile {
+  name: string;
+  data: string | Buffer;
+  stored?: boolean;        // default deflated
+  declaredSize?: number;   // what the directory claims it unpacks to
+}
+
+/**
+ * A ZIP archive, written the way 3MF producers do: local headers, then
+ * the central directory
+ */
+export function zip(files: ZipFile[]): Buffer {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+
+  for (const file of files) {
+    const name = Buffer.from(file.name);
+    const raw = Buffer.from(file.data);
+    const data = file.stored ? raw : deflateRawSync(raw);
+    const size = file.declaredSize ?? raw.length;
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(20, 4);
+    local.writeUInt16LE(file.stored ? 0 : 8, 8);
+    local.writeUInt32LE(crc32(raw), 14);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(size, 22);
+    local.writeUInt16LE(name.length, 26);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(20, 4);
+    central.writeUInt16LE(20, 6);
+    central.writeUInt16LE(file.stored ? 0 : 8, 10);
+    central.writeUInt32LE(crc32(raw), 16);
+    central.writeUInt32LE(data.length, 20);
+    central.writeUInt32LE(size, 24);
+    central.writeUInt16LE(name.length, 28);
+    central.writeUInt32LE(offset, 42);
+
+    locals.push(local, name, data);
+    centrals.push(central, name);
+    offset += local.length + name.length + data.length;
+  }
+
+  const directory = Buffer.concat(centrals);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(files.length, 8);
+  end.writeUInt16LE(files.length, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...locals, directory, end]);
+}
+
+/**
+ * An <object> holding a cube mesh, for a 3MF model part
+ */
+export function cubeObjectXml(id: number, size: number): string {
+  const vertices = CUBE_VERTICES
+    .map(([x, y, z]) => `<vertex x="${x * size}" y="${y * size}" z="${z * size}"/>`)
+    .join('');
+  const triangles = CUBE_FACES
+    .map(([v1, v2, v3]) => `<triangle v1="${v1}" v2="${v2}" v3="${v3}"/>`)
+    .join('');
+  return `<object id="${id}" type="model"><mesh><vertices>${vertices}</vertices><triangles>${triangles}</triangles></mesh></object>`;
+}
+
+export function modelXml(resources: string, build: string, unit = 'millimeter'): string {
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<model unit="${unit}" xmlns="http://schemas.microsoft.com/3dmanufacturing/core/2015/02" xmlns:p="http://schemas.microsoft.com/3dmanufacturing/production/2015/06">
+<resources>${resources}</resources>
+<build>${build}</build>
+</model>`;
+}
+
+/**
+ * A 3MF package whose root model part is `model`, plus any other parts
+ */
+export function package3mf(model: string, parts: ZipFile[] = []): Buffer {
+  return zip([
+    {
+      name: '[Content_Types].xml',
+      data: '<?xml version="1.0" encoding="UTF-8"?><Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="model" ContentType="application/vnd.ms-package.3dmanufacturing-3dmodel+xml"/></Types>',
+    },
+    {
+      name: '_rels/.rels',
+      data: '<?xml version="1.0" encoding="UTF-8"?><Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Target="/3D/3dmodel.model" Id="rel0" Type="http://schemas.microsoft.com/3dmanufacturing/2013/01/3dmodel"/></Relationships>',
+    },
+    { name: '3D/3dmodel.model', data: model },
+    ...parts,
+  ]);
+}
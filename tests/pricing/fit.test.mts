@@ -0,0 +1,48 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { checkPrinterFit, fitsAnyPrinter, getPrinterFits, getPrinters } from '../../backend/pricing/index.ts';
+
+describe('Printer fit checks', () => {
+  it('fits a small part in every orientation', () => {
+    const fit = checkPrinterFit({ x: 100, y: 100, z: 100 }, 'generic');
+    assert.equal(fit.printer, 'GENERIC');
+    assert.deepEqual(fit.orientations, ['z-up', 'x-up', 'y-up']);
+    assert.ok(fit.fits);
+  });
+
+  it('lists only the orientations that fit the build volume', () => {
+    assert.deepEqual(checkPrinterFit({ x: 50, y: 50, z: 240 }, 'GENERIC').orientations, ['z-up']);
+    assert.deepEqual(checkPrinterFit({ x: 240, y: 50, z: 50 }, 'GENERIC').orientations, ['x-up']);
+
+    const tooTall = checkPrinterFit({ x: 50, y: 50, z: 240 }, 'PRUSA_MINI');
+    assert.deepEqual(tooTall.orientations, []);
+    assert.equal(tooTall.fits, false);
+  });
+
+  it('turns the part on the bed to fit a rectangular build plate', () => {
+    assert.ok(checkPrinterFit({ x: 250, y: 210, z: 10 }, 'PRUSA_MK4').orientations.includes('z-up'));
+    assert.ok(checkPrinterFit({ x: 210, y: 250, z: 10 }, 'PRUSA_MK4').orientations.includes('z-up'));
+    assert.equal(checkPrinterFit({ x: 251, y: 210, z: 10 }, 'PRUSA_MK4').orientations.includes('z-up'), false);
+  });
+
+  it('checks the material against the profile and its hotend temperature', () => {
+    const small = { x: 20, y: 20, z: 20 };
+    assert.equal(checkPrinterFit(small, 'ENDER_3', 'ABS').materialSupported, false);
+    assert.equal(checkPrinterFit(small, 'PRUSA_MK4', 'PC').materialSupported, true);
+    assert.equal(checkPrinterFit(small, 'BAMBU_X1C', 'Carbon Fiber PLA').materialSupported, true);
+    assert.equal(checkPrinterFit(small, 'BAMBU_X1C', 'RESIN_STANDARD').fits, false);
+    assert.equal(checkPrinterFit(small, 'BAMBU_X1C', 'Unobtainium').fits, false);
+  });
+
+  it('checks a part against any or all printers', () => {
+    const large = { x: 290, y: 290, z: 290 };
+    assert.deepEqual(
+      getPrinterFits(large).filter(fit => fit.fits).map(fit => fit.printer),
+      ['CREALITY_K1_MAX']
+    );
+    assert.equal(getPrinterFits(large).length, getPrinters().length);
+    assert.ok(fitsAnyPrinter(large, ['PRUSA_MINI', 'CREALITY_K1_MAX'], 'PLA'));
+    assert.equal(fitsAnyPrinter(large, ['PRUSA_MINI', 'ENDER_3'], 'PLA'), false);
+    assert.throws(() => checkPrinterFit(large, 'NOPE'), /Unknown printer/);
+  });
+});
@@ -0,0 +1,158 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  analyzeMesh,
+  getModelFormat,
+  ModelLimitError,
+  parse3mf,
+  parseModel,
+  parseObj,
+  sniffModelFormat,
+  writeStl,
+} from '../../backend/pricing/index.ts';
+import { asciiStl, cube, cubeObj, cubeObjectXml, modelXml, package3mf, readFixture, zip } from '../fixtures.mts';
+
+function volume(mesh: { triangles: Float32Array }): number {
+  return +analyzeMesh(mesh).signedVolumeMm3.toFixed(3);
+}
+
+describe('OBJ and 3MF models', () => {
+  // ═══════════════════════════════════════════════════════════════════════════
+  // OBJ
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  it('reads an OBJ cube as a closed solid', () => {
+    const analysis = analyzeMesh(parseObj(cubeObj(10)));
+    assert.equal(analysis.triangleCount, 12);
+    assert.equal(+analysis.signedVolumeMm3.toFixed(3), 1000);
+    assert.ok(analysis.manifold.isWatertight);
+  });
+
+  it('fan-triangulates polygons and accepts every face index form', () => {
+    const obj = [
+      'v 0 0 0', 'v 10 0 0', 'v 10 10 0', 'v 0 10 0',
+      'vt 0 0', 'vn 0 0 1',
+      'f 1/1/1 2/1/1 3//1 4',
+    ].join('\n');
+    const mesh = parseObj(Buffer.from(obj));
+    assert.equal(mesh.triangles.length / 9, 2);
+    assert.equal(+analyzeMesh(mesh).surfaceAreaMm2.toFixed(3), 100);
+  });
+
+  it('resolves negative indices against the vertices read so far', () => {
+    const mesh = parseObj(Buffer.from('v 0 0 0\nv 1 0 0\nv 0 1 0\nf -3 -2 -1\n'));
+    assert.deepEqual([...mesh.triangles], [0, 0, 0, 1, 0, 0, 0, 1, 0]);
+  });
+
+  it('rejects faces that reference missing vertices', () => {
+    assert.throws(() => parseObj(Buffer.from('v 0 0 0\nv 1 0 0\nf 1 2 3\n')), /missing vertex 3/);
+    assert.throws(() => parseObj(Buffer.from('v 0 0 0\nf 0 1 1\n')), /Invalid face index/);
+  });
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // 3MF
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  it('reads a 3MF package', () => {
+    const mesh = parse3mf(package3mf(modelXml(cubeObjectXml(1, 10), '<item objectid="1"/>')));
+    assert.equal(volume(mesh), 1000);
+    assert.ok(analyzeMesh(mesh).manifold.isWatertight);
+  });
+
+  it('converts the model unit to mm', () => {
+    const mesh = parse3mf(package3mf(modelXml(cubeObjectXml(1, 1), '<item objectid="1"/>', 'centimeter')));
+    assert.deepEqual(analyzeMesh(mesh).boundingBox.size, [10, 10, 10]);
+  });
+
+  it('places every build item with its transform', () => {
+    const build = '<item objectid="1"/><item objectid="1" transform="1 0 0 0 1 0 0 0 1 50 0 0"/>';
+    const analysis = analyzeMesh(parse3mf(package3mf(modelXml(cubeObjectXml(1, 10), build))));
+    assert.equal(analysis.triangleCount, 24);
+    assert.equal(+analysis.signedVolumeMm3.toFixed(3), 2000);
+    assert.deepEqual(analysis.boundingBox.size, [60, 10, 10]);
+  });
+
+  it('expands components, including ones in other model parts', () => {
+    const part = modelXml(cubeObjectXml(7, 10), '');
+    const assembly = '<object id="2" type="model"><components>'
+      + '<component objectid="1"/>'
+      + '<component objectid="7" p:path="/3D/part.model" transform="2 0 0 0 2 0 0 0 2 0 0 20"/>'
+      + '</components></object>';
+    const model = modelXml(cubeObjectXml(1, 10) + assembly, '<item objectid="2"/>');
+    const mesh = parse3mf(package3mf(model, [{ name: '3D/part.model', data: part }]));
+
+    // 10 mm cube plus a 20 mm cube stacked on it
+    assert.equal(volume(mesh), 9000);
+    assert.deepEqual(analyzeMesh(mesh).boundingBox.size, [20, 20, 40]);
+  });
+
+  it('prints every object when there is no build section', () => {
+    const model = modelXml(cubeObjectXml(1, 10) + cubeObjectXml(2, 5), '');
+    assert.equal(volume(parse3mf(package3mf(model))), 1125);
+  });
+
+  it('reads parts stored without compression', () => {
+    const model = modelXml(cubeObjectXml(1, 10), '<item objectid="1"/>');
+    const mesh = parse3mf(zip([{ name: '3D/3dmodel.model', data: model, stored: true }]));
+    assert.equal(volume(mesh), 1000);
+  });
+
+  it('rejects component cycles and missing objects', () => {
+    const cycle = '<object id="1" type="model"><components><component objectid="1"/></components></object>';
+    assert.throws(() => parse3mf(package3mf(modelXml(cycle, '<item objectid="1"/>'))), /nested too deeply/);
+    assert.throws(
+      () => parse3mf(package3mf(modelXml(cubeObjectXml(1, 10), '<item objectid="9"/>'))),
+      /missing object 9/
+    );
+  });
+
+  it('rejects components repeated too many times before expanding them', () => {
+    // Each object holds four copies of the next: 4^20 placements in about 2 KB
+    const nested = (depth: number, last: string) => {
+      const objects = Array.from({ length: depth }, (_, i) =>
+        `<object id="${i + 1}" type="model"><components>`
+        + `<component objectid="${i + 2}"/>`.repeat(4)
+        + '</components></object>');
+      return modelXml(objects.join('') + last.replace('id="0"', `id="${depth + 1}"`), '<item objectid="1"/>');
+    };
+
+    const empty = package3mf(nested(20, '<object id="0" type="model"><mesh><vertices/><triangles/></mesh></object>'));
+    assert.throws(() => parse3mf(empty, { maxTriangles: 1000 }), /places objects more than 1,000,000 times/);
+    assert.throws(() => parse3mf(empty), /places objects more than/);
+
+    const solid = package3mf(nested(8, cubeObjectXml(0, 1)));
+    assert.throws(
+      () => parse3mf(solid, { maxTriangles: 1000 }),
+      (err: unknown) => err instanceof ModelLimitError && err.limit === 'maxTriangles'
+    );
+    // 4^8 cubes is within both caps when there's no triangle limit
+    assert.equal(parse3mf(solid).triangles.length, 4 ** 8 * 12 * 9);
+  });
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // FORMAT DETECTION
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  it('maps extensions to formats', () => {
+    assert.equal(getModelFormat('Part.STL'), 'stl');
+    assert.equal(getModelFormat('part.obj'), 'obj');
+    assert.equal(getModelFormat('part.3mf'), '3mf');
+    assert.equal(getModelFormat('part.step'), null);
+  });
+
+  it('tells the format from the bytes', () => {
+    assert.equal(sniffModelFormat(readFixture('1.2_mm_shim.STL')), 'stl');
+    assert.equal(sniffModelFormat(writeStl(cube(10))), 'stl');
+    assert.equal(sniffModelFormat(asciiStl(cube(10))), 'stl');
+    assert.equal(sniffModelFormat(cubeObj(10)), 'obj');
+    assert.equal(sniffModelFormat(package3mf(modelXml(cubeObjectXml(1, 10), ''))), '3mf');
+    assert.equal(sniffModelFormat(Buffer.from('<html><body>not a model</body></html>')), null);
+  });
+
+  it('parses each format to the same solid', () => {
+    const stl = parseModel(writeStl(cube(10)), 'stl');
+    const obj = parseModel(cubeObj(10), 'obj');
+    const threeMf = parseModel(package3mf(modelXml(cubeObjectXml(1, 10), '<item objectid="1"/>')), '3mf');
+    assert.deepEqual([volume(stl), volume(obj), volume(threeMf)], [1000, 1000, 1000]);
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { analyzeMesh, checkManifold, parseStl, writeStl } from '../../backend/pricing/index.ts';
+import { asciiStl, box, cube, CUBE_FACES, readFixture } from '../fixtures.mts';
+
+describe('STL mesh analysis', () => {
+  // ═══════════════════════════════════════════════════════════════════════════
+  // PARSING
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  it('reads a binary STL even when its header starts with "solid"', () => {
+    const buffer = readFixture('1.2_mm_shim.STL');
+    assert.equal(buffer.subarray(0, 5).toString(), 'solid');
+
+    const analysis = analyzeMesh(parseStl(buffer));
+    assert.equal(analysis.triangleCount, 12);
+    assert.deepEqual(analysis.boundingBox.size.map(n => +n.toFixed(2)), [50, 1.2, 24]);
+    assert.ok(Math.abs(analysis.signedVolumeMm3 - 1440) < 0.01);
+  });
+
+  it('reads an ASCII STL', () => {
+    const mesh = parseStl(readFixture('EYE.stl'));
+    assert.equal(mesh.triangles.length / 9, 3988);
+  });
+
+  it('reads what it writes, in both encodings', () => {
+    const mesh = box([10, 20, 30]);
+    assert.deepEqual(parseStl(writeStl(mesh)).triangles, mesh.triangles);
+    assert.deepEqual(parseStl(asciiStl(mesh)).triangles, mesh.triangles);
+  });
+
+  it('rejects a truncated binary STL', () => {
+    const buffer = writeStl(cube(10));
+    assert.throws(() => parseStl(buffer.subarray(0, buffer.length - 10)), /Truncated binary STL/);
+  });
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // MEASUREMENTS
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  it('measures a box', () => {
+    const analysis = analyzeMesh(box([10, 20, 30], [5, 5, 5]));
+    assert.equal(analysis.triangleCount, 12);
+    assert.ok(Math.abs(analysis.signedVolumeMm3 - 6000) < 1e-6);
+    assert.ok(Math.abs(analysis.surfaceAreaMm2 - 2200) < 1e-6);
+    assert.deepEqual(analysis.boundingBox.min, [5, 5, 5]);
+    assert.deepEqual(analysis.boundingBox.size, [10, 20, 30]);
+  });
+
+  it('gives a negative volume for an inside-out mesh', () => {
+    const inverted = box([10, 10, 10], [0, 0, 0], CUBE_FACES.map(([a, b, c]) => [a, c, b]));
+    assert.ok(analyzeMesh(inverted).signedVolumeMm3 < 0);
+    assert.ok(checkManifold(inverted).isConsistentlyOriented);
+  });
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // MANIFOLD
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  it('finds the fixtures watertight, except the one with non-manifold edges', () => {
+    for (const name of ['Button.STL', 'rod.STL', 'spacer.STL', 'Inner_Shell_Top_3mm.stl']) {
+      const manifold = checkManifold(parseStl(readFixture(name)));
+      assert.ok(manifold.isWatertight, name);
+      assert.ok(manifold.isConsistentlyOriented, name);
+    }
+
+    const manifold = checkManifold(parseStl(readFixture('Inner_Shell_Top_1.75mm.STL')));
+    assert.equal(manifold.isWatertight, false);
+    assert.equal(manifold.boundaryEdges.length, 0);
+    assert.equal(manifold.nonManifoldEdges.length, 2);
+  });
+
+  it('reports the edges around a missing triangle as boundary edges', () => {
+    const open = box([10, 10, 10], [0, 0, 0], CUBE_FACES.slice(1));
+    const manifold = checkManifold(open);
+    assert.equal(manifold.isWatertight, false);
+    assert.equal(manifold.boundaryEdges.length, 3);
+  });
+
+  it('reports a flipped triangle as inconsistently oriented', () => {
+    const faces = CUBE_FACES.map(face => [...face] as [number, number, number]);
+    faces[0] = [faces[0][0], faces[0][2], faces[0][1]];
+    const manifold = checkManifold(box([10, 10, 10], [0, 0, 0], faces));
+    assert.ok(manifold.isWatertight);
+    assert.equal(manifold.isConsistentlyOriented, false);
+    assert.equal(manifold.flippedEdges.length, 3);
+  });
+
+  it('counts degenerate triangles without treating them as edges', () => {
+    const mesh = cube(10);
+    const triangles = new Float32Array(mesh.triangles.length + 9);
+    triangles.set(mesh.triangles);
+    triangles.set([0, 0, 0, 0, 0, 0, 10, 10, 10], mesh.triangles.length);
+    const manifold = checkManifold({ triangles });
+    assert.equal(manifold.degenerateTriangles, 1);
+    assert.ok(manifold.isWatertight);
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { getBoundingBox, isIdentityRotation, optimizeOrientation, rotateMesh } from '../../backend/pricing/index.ts';
+import { box, merge } from '../fixtures.mts';
+
+// A 10 mm square stem under a 30 × 30 × 5 mm slab. Upright the slab
+// overhangs; upside down it's a base; on its side it's only 30 mm tall
+const tee = (stem: number) => merge(box([10, 10, stem]), box([30, 30, 5], [-10, -10, stem]));
+
+function near(actual: number, expected: number, tolerance: number) {
+  assert.ok(Math.abs(actual - expected) <= tolerance, `${actual} is not within ${tolerance} of ${expected}`);
+}
+
+describe('Orientation', () => {
+  it('lays a tall thin part flat for the least height', () => {
+    const rod = box([10, 10, 100]);
+    const result = optimizeOrientation(rod, { goal: 'height' });
+    assert.equal(result.asUploaded.heightMm, 100);
+    near(result.best.heightMm, 10, 1e-3);
+    assert.equal(result.best.supportVolumeMm3, 0);
+    assert.equal(result.best.down[2], 0);
+
+    const placed = getBoundingBox(rotateMesh(rod, result.best.rotation));
+    near(placed.min[2], 0, 1e-3);
+    near(placed.size[2], 10, 1e-3);
+  });
+
+  it('turns an overhanging part over to print without supports', () => {
+    const result = optimizeOrientation(tee(30), { goal: 'supports' });
+    assert.ok(result.asUploaded.supportVolumeMm3 > 0);
+    assert.equal(result.best.label, 'Upside down');
+    assert.deepEqual(result.best.down, [0, 0, 1]);
+    assert.equal(result.best.supportVolumeMm3, 0);
+    assert.equal(result.best.score, 0);
+
+    // Standing it up on the slab is no taller than the way it was uploaded
+    near(result.best.heightMm, 35, 1e-3);
+  });
+
+  it('weighs support against height when balancing the two', () => {
+    // A short stem: flipping it saves all the support and only 5 mm of
+    // height would be saved by laying it down
+    const short = optimizeOrientation(tee(30), { goal: 'balanced' });
+    assert.equal(short.best.label, 'Upside down');
+    near(short.best.score, 0.3, 1e-6);
+
+    // A long stem: lying down saves half the height for a little support
+    const long = optimizeOrientation(tee(60));
+    assert.equal(long.goal, 'balanced');
+    assert.equal(optimizeOrientation(tee(60), { goal: 'supports' }).best.label, 'Upside down');
+    assert.equal(long.best.down[2], 0);
+    near(long.best.heightMm, 30, 1e-3);
+    assert.ok(long.best.supportVolumeMm3 > 0);
+
+    // Each term is relative to the worst candidate, here the part as uploaded
+    near(
+      long.best.score,
+      0.7 * (long.best.supportVolumeMm3 / long.asUploaded.supportVolumeMm3) + 0.3 * (30 / 65),
+      1e-3
+    );
+  });
+
+  it('keeps the uploaded orientation when nothing beats it', () => {
+    const result = optimizeOrientation(box([40, 40, 10]));
+    assert.equal(result.best.label, 'As uploaded');
+    assert.ok(isIdentityRotation(result.best.rotation));
+    assert.equal(result.candidatesEvaluated, 6);
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  estimatePrintTime,
+  getEstimateFromMesh,
+  getPrinterProfile,
+  getPrinters,
+  DEFAULT_PRINTER,
+} from '../../backend/pricing/index.ts';
+import { box, cube, merge } from '../fixtures.mts';
+
+const CUBE_VOLUME = 20 * 20 * 20;
+
+function sum(breakdown: Record<string, number>): number {
+  return Object.values(breakdown).reduce((total, s) => total + s, 0);
+}
+
+describe('Print time estimation', () => {
+  it('slices the height into layers of the profile layer height', () => {
+    const estimate = estimatePrintTime(cube(20), { infillPercent: 20, volumeMm3: CUBE_VOLUME });
+    assert.equal(estimate.printer, getPrinterProfile(DEFAULT_PRINTER).name);
+    assert.equal(estimate.layerHeightMm, 0.2);
+    assert.equal(estimate.layerCount, 100);
+    assert.ok(Math.abs(estimate.totalSeconds - sum({ ...estimate.breakdown })) < 1e-6);
+  });
+
+  it('takes longer with more infill, finer layers or support', () => {
+    const base = estimatePrintTime(cube(20), { infillPercent: 20, volumeMm3: CUBE_VOLUME });
+    const empty = estimatePrintTime(cube(20), { infillPercent: 0, volumeMm3: CUBE_VOLUME });
+    const full = estimatePrintTime(cube(20), { infillPercent: 100, volumeMm3: CUBE_VOLUME });
+    const fine = estimatePrintTime(cube(20), { infillPercent: 20, volumeMm3: CUBE_VOLUME, layerHeightMm: 0.1 });
+    const supported = estimatePrintTime(cube(20), { infillPercent: 20, volumeMm3: CUBE_VOLUME, supportVolumeMm3: 500 });
+
+    assert.equal(empty.breakdown.infillSeconds, 0);
+    assert.ok(full.totalSeconds > base.totalSeconds);
+    assert.equal(fine.layerCount, 200);
+    assert.ok(fine.totalSeconds > base.totalSeconds);
+    assert.equal(base.breakdown.supportSeconds, 0);
+    assert.ok(supported.breakdown.supportSeconds > 0);
+  });
+
+  it('prices each profile from printers.json', () => {
+    for (const printer of getPrinters()) {
+      const estimate = estimatePrintTime(cube(20), { infillPercent: 20, volumeMm3: CUBE_VOLUME, printer });
+      assert.ok(estimate.totalSeconds > 0, printer);
+    }
+  });
+
+  it('rejects unknown printers and non-positive layer heights', () => {
+    assert.throws(() => estimatePrintTime(cube(20), { infillPercent: 20, volumeMm3: 1, printer: 'NOPE' }), /Unknown printer/);
+    assert.throws(() => estimatePrintTime(cube(20), { infillPercent: 20, volumeMm3: 1, layerHeightMm: 0 }), /must be positive/);
+  });
+
+  it('fills the estimate hours, leaving out support time when supports are off', () => {
+    // A slab on a stem, which needs support under the slab
+    const tee = merge(box([10, 10, 10]), box([30, 30, 5], [-10, -10, 10]));
+    const withSupports = getEstimateFromMesh(tee, 'PLA', 'White', 20, { orientation: 'as-uploaded' });
+    const without = getEstimateFromMesh(tee, 'PLA', 'White', 20, { orientation: 'as-uploaded', supports: false });
+
+    assert.ok(withSupports.printTime.supportSeconds > 0);
+    assert.ok(Math.abs(withSupports.printTimeHours - sum({ ...withSupports.printTime }) / 3600) <= 0.01);
+    assert.ok(
+      Math.abs(withSupports.printTimeHours - without.printTimeHours - withSupports.printTime.supportSeconds / 3600) <= 0.01
+    );
+  });
+});
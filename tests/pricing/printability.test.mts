@@ -0,0 +1,66 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { analyzeMesh, checkPrintability, findThinWalls, type Mesh } from '../../backend/pricing/index.ts';
+import { box, cube, merge } from '../fixtures.mts';
+
+// Square pyramid standing on its tip, which touches the bed at one point
+function invertedPyramid(): Mesh {
+  const tip = [5, 5, 0];
+  const base = [[0, 0, 10], [10, 0, 10], [10, 10, 10], [0, 10, 10]];
+  const values: number[] = [...base[0], ...base[1], ...base[2], ...base[0], ...base[2], ...base[3]];
+  for (let i = 0; i < 4; i++) {
+    values.push(...tip, ...base[(i + 1) % 4], ...base[i]);
+  }
+  return { triangles: new Float32Array(values) };
+}
+
+const issues = (mesh: Mesh, supportsEnabled = true) =>
+  checkPrintability(mesh, { supportsEnabled }).warnings.map(warning => warning.issue);
+
+describe('Printability report', () => {
+  it('finds nothing wrong with a cube on the bed', () => {
+    const report = checkPrintability(cube(10));
+    assert.deepEqual(report.warnings, []);
+    assert.deepEqual(report.islands, []);
+    assert.equal(report.thinnestWallMm, null);
+    assert.equal(report.bedContactAreaMm2, 100);
+    assert.equal(report.footprintAreaMm2, 100);
+  });
+
+  it('warns about walls thinner than the nozzle', () => {
+    const report = checkPrintability(box([10, 0.2, 10]));
+    assert.equal(report.thinnestWallMm, 0.2);
+    assert.ok(report.thinWallAreaMm2 >= 200);
+    assert.deepEqual(report.warnings.map(warning => warning.issue), ['thin-walls']);
+
+    const walls = findThinWalls(box([10, 0.2, 10]));
+    assert.ok(walls.faces.length >= 4);
+    assert.equal(findThinWalls(box([10, 0.2, 10]), 0.1).faces.length, 0);
+  });
+
+  it('finds islands that start in midair', () => {
+    const tiny = merge(cube(10), box([1, 1, 1], [20, 0, 5]));
+    const report = checkPrintability(tiny);
+    assert.deepEqual(report.islands, [{ z: 5, areaMm2: 1 }]);
+    assert.deepEqual(issues(tiny), ['islands']);
+
+    // A larger island holds on supports, but not without them
+    const large = merge(cube(10), box([5, 5, 5], [20, 0, 5]));
+    assert.deepEqual(issues(large), []);
+    assert.deepEqual(issues(large, false), ['islands']);
+  });
+
+  it('warns when little of the footprint touches the bed', () => {
+    const pyramid = invertedPyramid();
+    assert.ok(analyzeMesh(pyramid).signedVolumeMm3 > 0);
+
+    const report = checkPrintability(pyramid);
+    assert.ok(report.bedContactAreaMm2 < 1);
+    assert.equal(report.footprintAreaMm2, 100);
+    assert.ok(report.warnings.some(warning => warning.issue === 'bed-contact'));
+  });
+
+  it('rejects a non-positive nozzle or layer height', () => {
+    assert.throws(() => checkPrintability(cube(10), { nozzleMm: 0 }), /must be positive/);
+  });
+});
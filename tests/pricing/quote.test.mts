@@ -0,0 +1,51 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildQuote, DEFAULT_SELLER_MARGIN, DEFAULT_SHIPPING_COST, type QuoteInput } from '../../backend/pricing/index.ts';
+
+const estimate: QuoteInput = {
+  materialCost: 2,
+  supportCost: 0.5,
+  supportsEnabled: true,
+  supportWeightGrams: 10,
+  printTimeHours: 5,
+};
+
+describe('Itemized quotes', () => {
+  it('prices machine time, labor, shipping and the margin on top of material', () => {
+    const quote = buildQuote(estimate);
+
+    assert.equal(quote.machineCost, 2);            // 5 h × $0.40
+    assert.equal(quote.laborCost, 1.75);           // (5 min + 10 g × 0.2 min) × $15/h
+    assert.equal(quote.shippingCost, DEFAULT_SHIPPING_COST);
+    assert.equal(quote.sellerMarginPercent, DEFAULT_SELLER_MARGIN);
+    assert.equal(quote.marginCost, 1.69);          // 15% of $11.25
+    assert.equal(quote.total, 12.94);
+    assert.equal(quote.platformFee, 0.06);
+    assert.equal(quote.gasCushion, 0.26);
+    assert.equal(quote.deposit, 13.26);
+  });
+
+  it('lists every line item in order, adding up to the deposit', () => {
+    const quote = buildQuote(estimate, { shippingCost: 7.15, shippingService: 'USPS Ground Advantage' });
+    assert.deepEqual(quote.lineItems.map(item => item.key), [
+      'material', 'support', 'machine', 'labor', 'shipping', 'margin', 'platformFee', 'gasCushion',
+    ]);
+    assert.equal(quote.lineItems[2].label, 'Machine Time (5h)');
+    assert.equal(quote.lineItems[4].label, 'Shipping (USPS Ground Advantage)');
+
+    const sum = quote.lineItems.reduce((total, item) => total + item.amount, 0);
+    assert.ok(Math.abs(sum - quote.deposit) <= 0.02);
+  });
+
+  it('charges no support material or removal time when supports are off', () => {
+    const quote = buildQuote({ ...estimate, supportsEnabled: false });
+    assert.equal(quote.supportCost, 0);
+    assert.equal(quote.laborCost, 1.25);
+  });
+
+  it('applies the requested margin and rejects negative amounts', () => {
+    assert.equal(buildQuote(estimate, { sellerMarginPercent: 10 }).marginCost, 1.13);
+    assert.throws(() => buildQuote(estimate, { sellerMarginPercent: -1 }), /margin cannot be negative/);
+    assert.throws(() => buildQuote(estimate, { shippingCost: -1 }), /Shipping cost cannot be negative/);
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { analyzeMesh, checkManifold, repairMesh } from '../../backend/pricing/index.ts';
+import { box, CUBE_FACES, cube, merge } from '../fixtures.mts';
+
+type Face = [number, number, number];
+
+const cubeWith = (faces: Face[]) => box([10, 10, 10], [0, 0, 0], faces);
+const flip = ([a, b, c]: Face): Face => [a, c, b];
+
+describe('Mesh repair', () => {
+  it('leaves a clean mesh unchanged', () => {
+    const { mesh, report } = repairMesh(cube(10));
+    assert.equal(report.changed, false);
+    assert.ok(report.watertightBefore && report.watertightAfter);
+    assert.equal(mesh.triangles.length, 12 * 9);
+  });
+
+  it('closes a small hole', () => {
+    const { mesh, report } = repairMesh(cubeWith(CUBE_FACES.slice(1)));
+    assert.equal(report.watertightBefore, false);
+    assert.equal(report.holesFilled, 1);
+    assert.ok(report.trianglesAdded > 0);
+    assert.ok(report.watertightAfter);
+    assert.ok(Math.abs(analyzeMesh(mesh).signedVolumeMm3 - 1000) < 1e-3);
+  });
+
+  it('leaves holes with more edges than allowed open', () => {
+    // Without the whole bottom face the hole has four edges
+    const { report } = repairMesh(cubeWith(CUBE_FACES.slice(2)), { maxHoleEdges: 3 });
+    assert.equal(report.holesFilled, 0);
+    assert.equal(report.holesSkipped, 1);
+    assert.equal(report.watertightAfter, false);
+  });
+
+  it('rewinds a flipped triangle to agree with its neighbours', () => {
+    const faces = CUBE_FACES.map((face, i) => (i === 5 ? flip(face) : face));
+    const { mesh, report } = repairMesh(cubeWith(faces));
+    assert.equal(report.flippedTriangles, 1);
+    assert.ok(checkManifold(mesh).isConsistentlyOriented);
+    assert.ok(analyzeMesh(mesh).signedVolumeMm3 > 0);
+  });
+
+  it('turns an inside-out shell right side out', () => {
+    const { mesh, report } = repairMesh(cubeWith(CUBE_FACES.map(flip)));
+    assert.equal(report.invertedShells, 1);
+    assert.ok(Math.abs(analyzeMesh(mesh).signedVolumeMm3 - 1000) < 1e-3);
+  });
+
+  it('drops degenerate and duplicate triangles', () => {
+    const degenerate = { triangles: new Float32Array([0, 0, 0, 10, 0, 0, 0, 0, 0]) };
+    const duplicate = cubeWith(CUBE_FACES.slice(0, 1));
+    const { mesh, report } = repairMesh(merge(cube(10), degenerate, duplicate));
+    assert.equal(report.degenerateRemoved, 1);
+    assert.equal(report.duplicatesRemoved, 1);
+    assert.equal(mesh.triangles.length, 12 * 9);
+    assert.ok(report.watertightAfter);
+  });
+
+  it('welds vertices that differ by less than the tolerance', () => {
+    const shifted = cube(10);
+    shifted.triangles[0] += 0.01;
+    const { report } = repairMesh(shifted, { weldTolerance: 0.05 });
+    assert.equal(report.watertightBefore, false);
+    assert.ok(report.mergedVertices > 0);
+    assert.ok(report.watertightAfter);
+  });
+});
@@ -0,0 +1,41 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { estimateShell, type ShellOptions } from '../../backend/pricing/index.ts';
+import { box, cube } from '../fixtures.mts';
+
+// 1 mm walls and 1 mm skins
+const options: ShellOptions = { wallCount: 2, lineWidthMm: 0.5, layerHeightMm: 0.25, topBottomLayers: 4 };
+
+describe('Shell model', () => {
+  it('thickens every face inward by its wall or skin thickness', () => {
+    const shell = estimateShell(cube(20), 8000, options);
+    assert.equal(shell.wallThicknessMm, 1);
+    assert.equal(shell.skinThicknessMm, 1);
+    assert.ok(Math.abs(shell.shellVolumeMm3 - 2400) < 1e-6);
+    assert.ok(Math.abs(shell.interiorVolumeMm3 - 5600) < 1e-6);
+  });
+
+  it('uses walls on vertical faces and skins on flat ones', () => {
+    // 2 mm skins, 1 mm walls: 200 mm³ under each 10 × 10 top and bottom,
+    // 100 mm³ inside each side
+    const shell = estimateShell(cube(10), 1000, { ...options, topBottomLayers: 8 });
+    assert.ok(Math.abs(shell.shellVolumeMm3 - 800) < 1e-6);
+    assert.ok(Math.abs(shell.interiorVolumeMm3 - 200) < 1e-6);
+  });
+
+  it('prints parts thinner than their shell solid', () => {
+    const shell = estimateShell(box([50, 50, 1]), 2500, options);
+    assert.equal(shell.shellVolumeMm3, 2500);
+    assert.equal(shell.interiorVolumeMm3, 0);
+  });
+
+  it('leaves the whole volume to infill without walls or skins', () => {
+    const shell = estimateShell(cube(20), 8000, { ...options, wallCount: 0, topBottomLayers: 0 });
+    assert.equal(shell.interiorVolumeMm3, 8000);
+  });
+
+  it('rejects negative counts and non-positive line sizes', () => {
+    assert.throws(() => estimateShell(cube(20), 8000, { ...options, wallCount: -1 }), /cannot be negative/);
+    assert.throws(() => estimateShell(cube(20), 8000, { ...options, layerHeightMm: 0 }), /must be positive/);
+  });
+});
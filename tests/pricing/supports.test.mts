@@ -0,0 +1,44 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { estimateSupport, DEFAULT_SUPPORT_DENSITY } from '../../backend/pricing/index.ts';
+import { box, CUBE_FACES, cube, merge } from '../fixtures.mts';
+
+// A 10 mm stem under a 30 × 30 × 5 mm slab: 800 mm² of the slab's
+// underside overhangs the bed by 10 mm, and the middle rests on the stem
+const tee = () => merge(box([10, 10, 10]), box([30, 30, 5], [-10, -10, 10]));
+
+function near(actual: number, expected: number, tolerance: number) {
+  assert.ok(Math.abs(actual - expected) <= tolerance, `${actual} is not within ${tolerance} of ${expected}`);
+}
+
+describe('Support estimation', () => {
+  it('needs no support for a part standing on the bed', () => {
+    const support = estimateSupport(cube(10));
+    assert.equal(support.overhangTriangles, 0);
+    assert.equal(support.supportVolumeMm3, 0);
+  });
+
+  it('supports an overhang down to the bed but not where the part is below', () => {
+    const support = estimateSupport(tee());
+    assert.deepEqual(support.overhangFaces, [12, 13]);
+    near(support.overhangAreaMm2, 800, 16);
+    near(support.supportVolumeMm3, 800 * 10 * DEFAULT_SUPPORT_DENSITY, 24);
+  });
+
+  it('fills the supported region at the given density', () => {
+    const sparse = estimateSupport(tee(), { density: 0.1 });
+    const dense = estimateSupport(tee(), { density: 0.2 });
+    near(dense.supportVolumeMm3, sparse.supportVolumeMm3 * 2, 1e-6);
+  });
+
+  it('lets every surface print unsupported at a 90 degree overhang angle', () => {
+    assert.equal(estimateSupport(tee(), { overhangAngle: 90 }).overhangTriangles, 0);
+    assert.throws(() => estimateSupport(tee(), { overhangAngle: 120 }), /between 0 and 90/);
+  });
+
+  it('treats an inside-out mesh like the solid it describes', () => {
+    const flipped = CUBE_FACES.map(([a, b, c]) => [a, c, b] as [number, number, number]);
+    const inverted = merge(box([10, 10, 10], [0, 0, 0], flipped), box([30, 30, 5], [-10, -10, 10], flipped));
+    near(estimateSupport(inverted).supportVolumeMm3, estimateSupport(tee()).supportVolumeMm3, 1e-6);
+  });
+});
@@ -0,0 +1,75 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { crc32, inflateSync } from 'zlib';
+import { DEFAULT_THUMBNAIL_SIZE, renderThumbnail, renderThumbnails } from '../../backend/pricing/index.ts';
+import { cube } from '../fixtures.mts';
+
+const SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+/**
+ * Read a PNG's chunks back, checking each CRC, and unpack its pixels
+ * (8-bit RGBA without row filters, as the encoder writes them)
+ */
+function decodePng(png: Buffer) {
+  assert.deepEqual(png.subarray(0, 8), SIGNATURE);
+
+  const chunks: { type: string; data: Buffer }[] = [];
+  for (let offset = 8; offset < png.length;) {
+    const length = png.readUInt32BE(offset);
+    const type = png.toString('ascii', offset + 4, offset + 8);
+    const data = png.subarray(offset + 8, offset + 8 + length);
+    assert.equal(png.readUInt32BE(offset + 8 + length), crc32(png.subarray(offset + 4, offset + 8 + length)), `${type} CRC`);
+    chunks.push({ type, data });
+    offset += 12 + length;
+  }
+  assert.deepEqual(chunks.map(c => c.type), ['IHDR', 'IDAT', 'IEND']);
+
+  const header = chunks[0].data;
+  const width = header.readUInt32BE(0);
+  const height = header.readUInt32BE(4);
+  const raw = inflateSync(chunks[1].data);
+  assert.equal(raw.length, (width * 4 + 1) * height);
+
+  const pixel = (x: number, y: number) => {
+    const at = y * (width * 4 + 1) + 1 + x * 4;
+    return [...raw.subarray(at, at + 4)];
+  };
+  return { width, height, bitDepth: header[8], colorType: header[9], pixel };
+}
+
+describe('Thumbnails', () => {
+  it('renders a square RGBA PNG of the default size', () => {
+    const png = decodePng(renderThumbnail(cube(10)));
+    assert.equal(png.width, DEFAULT_THUMBNAIL_SIZE);
+    assert.equal(png.height, DEFAULT_THUMBNAIL_SIZE);
+    assert.equal(png.bitDepth, 8);
+    assert.equal(png.colorType, 6);
+  });
+
+  it('draws the part opaque on a transparent background', () => {
+    const png = decodePng(renderThumbnail(cube(10), 'top', { size: 32, color: [200, 100, 50] }));
+    assert.equal(png.width, 32);
+    assert.deepEqual(png.pixel(0, 0), [0, 0, 0, 0]);
+    assert.deepEqual(png.pixel(31, 31), [0, 0, 0, 0]);
+
+    const [r, g, b, a] = png.pixel(16, 16);
+    assert.equal(a, 255);
+    assert.ok(r > g && g > b, `expected the part's colour, got ${[r, g, b]}`);
+  });
+
+  it('renders each view asked for, in order', () => {
+    const thumbnails = renderThumbnails(cube(10), ['front', 'iso'], { size: 16 });
+    assert.deepEqual(thumbnails.map(t => t.view), ['front', 'iso']);
+    for (const { png } of thumbnails) {
+      const decoded = decodePng(png);
+      assert.equal(decoded.width, 16);
+      assert.equal(decoded.height, 16);
+    }
+    assert.deepEqual(renderThumbnails(cube(10), undefined, { size: 8 }).map(t => t.view), ['iso', 'front', 'top']);
+  });
+
+  it('rejects sizes that are not a whole number of pixels', () => {
+    assert.throws(() => renderThumbnail(cube(10), 'iso', { size: 0 }), /positive integer/);
+    assert.throws(() => renderThumbnail(cube(10), 'iso', { size: 12.5 }), /positive integer/);
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+
+// Hardhat's first two dev accounts: the platform signer and someone else
+const SIGNER_KEY = '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80';
+const SIGNER_ADDRESS = '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266';
+const OTHER_KEY = '0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d';
+
+// Read when the module loads
+process.env.NEXT_PUBLIC_QUOTE_SIGNER_ADDRESS = SIGNER_ADDRESS;
+const { checkQuote, expectedOrderAmount, signQuoteMessage, usdCentsToWei } =
+  await import('../../frontend/app/lib/signedQuote.ts');
+type QuoteMessage = import('../../frontend/app/lib/signedQuote.ts').QuoteMessage;
+
+const FILE_HASH = '0x' + 'ab'.repeat(32);
+const NOW = 1_700_000_000;
+
+const MESSAGE: QuoteMessage = {
+  fileHash: FILE_HASH,
+  material: 'PLA',
+  color: 'Black',
+  infillPercent: 20,
+  usdTotalCents: '2050',
+  ethUsdCents: '200000',
+  amountWei: '10250000000000000',     // $20.50 at $2,000/ETH
+  expiry: NOW + 900,
+};
+
+// What the escrow records when funded with MESSAGE.amountWei
+const ESCROW = { orderAmountWei: 10n ** 16n, createdAt: NOW, fileHash: FILE_HASH };
+
+describe('Signed quotes', () => {
+  it('converts the deposit to wei and to the escrow order amount', () => {
+    assert.equal(usdCentsToWei(2050n, 200000n), BigInt(MESSAGE.amountWei));
+    // 0.5% platform fee and 2% gas cushion come off the deposit
+    assert.equal(expectedOrderAmount(BigInt(MESSAGE.amountWei)), ESCROW.orderAmountWei);
+  });
+
+  it('accepts an escrow funded from a platform quote', async () => {
+    const quote = await signQuoteMessage(MESSAGE, SIGNER_KEY);
+    assert.deepEqual(checkQuote(quote, ESCROW), { valid: true });
+    assert.deepEqual(checkQuote(quote, { ...ESCROW, fileHash: '0x' + 'AB'.repeat(32) }), { valid: true });
+  });
+
+  it('rejects a quote signed by anyone else', async () => {
+    const quote = await signQuoteMessage(MESSAGE, OTHER_KEY);
+    assert.deepEqual(checkQuote(quote, ESCROW), { valid: false, reason: 'Quote was not signed by the platform' });
+
+    const garbled = { ...quote, signature: '0x1234' };
+    assert.deepEqual(checkQuote(garbled, ESCROW), { valid: false, reason: 'Malformed quote signature' });
+  });
+
+  it('rejects an escrow funded after the quote expired', async () => {
+    const quote = await signQuoteMessage(MESSAGE, SIGNER_KEY);
+    assert.equal(checkQuote(quote, { ...ESCROW, createdAt: MESSAGE.expiry }).valid, true);
+    assert.deepEqual(checkQuote(quote, { ...ESCROW, createdAt: MESSAGE.expiry + 1 }), {
+      valid: false,
+      reason: 'Escrow was funded after the quote expired',
+    });
+  });
+
+  it('rejects an escrow funded with a different amount', async () => {
+    const quote = await signQuoteMessage(MESSAGE, SIGNER_KEY);
+    assert.deepEqual(checkQuote(quote, { ...ESCROW, orderAmountWei: ESCROW.orderAmountWei - 1n }), {
+      valid: false,
+      reason: 'Escrow amount does not match the quote',
+    });
+  });
+
+  it('rejects an escrow for another file, and one whose file is unknown', async () => {
+    const quote = await signQuoteMessage(MESSAGE, SIGNER_KEY);
+    assert.deepEqual(checkQuote(quote, { ...ESCROW, fileHash: '0x' + 'cd'.repeat(32) }), {
+      valid: false,
+      reason: 'Escrow file does not match the quote',
+    });
+
+    const unread = checkQuote(quote, { ...ESCROW, fileHash: null });
+    assert.ok(!unread.valid && unread.unverifiable);
+  });
+
+  it('rejects a signed quote whose terms were changed afterwards', async () => {
+    const quote = await signQuoteMessage(MESSAGE, SIGNER_KEY);
+    const tampered = [
+      { ...quote.message, fileHash: '0x' + 'cd'.repeat(32) },
+      { ...quote.message, amountWei: '1025000000000000' },
+      { ...quote.message, expiry: NOW + 86_400 },
+      { ...quote.message, infillPercent: 100 },
+    ];
+    for (const message of tampered) {
+      const check = checkQuote({ ...quote, message }, { ...ESCROW, fileHash: message.fileHash });
+      assert.deepEqual(check, { valid: false, reason: 'Quote was not signed by the platform' });
+    }
+  });
+});
@@ -0,0 +1,116 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { validateAddress, type AddressValidation } from '../../backend/shipping/index.ts';
+
+const HOME = {
+  name: 'Ada Lovelace',
+  street1: '123 Main St',
+  city: 'Redondo Beach',
+  state: 'CA',
+  zip: '90277',
+  country: 'US',
+};
+
+const issueFor = (result: AddressValidation, field: string) =>
+  result.issues.find(issue => issue.field === field);
+
+describe('Address validation', () => {
+  it('accepts a complete address as it is', () => {
+    const result = validateAddress(HOME);
+    assert.equal(result.valid, true);
+    assert.deepEqual(result.address, HOME);
+    assert.deepEqual(result.issues, []);
+    assert.deepEqual(result.corrections, []);
+  });
+
+  it('normalizes the country, state and ZIP and lists each change', () => {
+    const result = validateAddress({
+      ...HOME,
+      name: '  Ada   Lovelace ',
+      country: 'U.S.A.',
+      state: 'california',
+      zip: '902771234',
+    });
+    assert.equal(result.valid, true);
+    assert.equal(result.address.name, 'Ada Lovelace');
+    assert.deepEqual(result.corrections, [
+      { field: 'country', original: 'U.S.A.', corrected: 'US' },
+      { field: 'state', original: 'california', corrected: 'CA' },
+      { field: 'zip', original: '902771234', corrected: '90277-1234' },
+    ]);
+  });
+
+  it('formats postal codes the way each country writes them', () => {
+    const canada = validateAddress({ ...HOME, country: 'Canada', state: 'on', zip: 'k1a0b1' });
+    assert.equal(canada.valid, true);
+    assert.equal(canada.address.state, 'ON');
+    assert.equal(canada.address.zip, 'K1A 0B1');
+
+    const uk = validateAddress({ ...HOME, country: 'uk', state: '', zip: 'sw1a1aa' });
+    assert.equal(uk.valid, true);
+    assert.equal(uk.address.zip, 'SW1A 1AA');
+
+    const japan = validateAddress({ ...HOME, country: 'JP', state: 'Tokyo', zip: '1000001' });
+    assert.equal(japan.address.zip, '100-0001');
+  });
+
+  it('keeps optional fields only when they are filled in', () => {
+    const result = validateAddress({ ...HOME, street2: ' Apt 4 ', phone: '' });
+    assert.equal(result.address.street2, 'Apt 4');
+    assert.equal('phone' in result.address, false);
+  });
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // ISSUES
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  it('requires the name, street, city and country', () => {
+    const result = validateAddress({});
+    assert.equal(result.valid, false);
+    assert.deepEqual(result.issues.map(issue => issue.field), ['name', 'street1', 'city', 'country']);
+    assert.equal(validateAddress(null).valid, false);
+  });
+
+  it('rejects fields that are not text, once', () => {
+    const result = validateAddress({ ...HOME, name: 42, zip: 90277 });
+    assert.deepEqual(result.issues, [
+      { field: 'name', message: 'name must be text' },
+      { field: 'zip', message: 'zip must be text' },
+      { field: 'zip', message: 'zip is required for United States' },
+    ]);
+  });
+
+  it('requires a state where the country has them, and suggests one', () => {
+    assert.equal(issueFor(validateAddress({ ...HOME, state: '' }), 'state')!.message, 'state is required for United States');
+
+    const misspelt = issueFor(validateAddress({ ...HOME, state: 'Calif.' }), 'state')!;
+    assert.equal(misspelt.message, 'Calif. is not a United States state or province code');
+    assert.equal(misspelt.suggestion, 'CA');
+
+    // "New" starts four state names, so there is nothing to suggest
+    assert.equal(issueFor(validateAddress({ ...HOME, state: 'New' }), 'state')!.suggestion, undefined);
+  });
+
+  it('rejects malformed postal codes, suggesting a dropped leading zero', () => {
+    const short = issueFor(validateAddress({ ...HOME, state: 'MA', zip: '2101' }), 'zip')!;
+    assert.equal(short.message, '2101 is not a United States postal code, e.g. 90277 or 90277-1234');
+    assert.equal(short.suggestion, '02101');
+
+    const canada = issueFor(validateAddress({ ...HOME, country: 'CA', state: 'ON', zip: '12345' }), 'zip')!;
+    assert.match(canada.message, /e\.g\. K1A 0B1/);
+    assert.equal(canada.suggestion, undefined);
+  });
+
+  it('rejects country names it does not know', () => {
+    const result = validateAddress({ ...HOME, country: 'Atlantis' });
+    assert.equal(issueFor(result, 'country')!.message, 'country must be a two-letter ISO code, e.g. US');
+  });
+
+  it('only checks the basics for other countries', () => {
+    const result = validateAddress({ name: 'Ana', street1: 'Rua 1', city: 'Lisboa', country: 'pt', zip: 'anything' });
+    assert.equal(result.valid, true);
+    assert.equal(result.address.country, 'PT');
+    assert.equal(result.address.zip, 'anything');
+    assert.equal(result.address.state, '');
+  });
+});
@@ -0,0 +1,114 @@
+import { afterEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  createMockProvider,
+  DEFAULT_ESTIMATE_MARGIN_PERCENT,
+  estimateShipping,
+  parseShippingRegion,
+  type PackagingInput,
+} from '../../backend/shipping/index.ts';
+
+const PART: PackagingInput = { dimensions: { x: 100, y: 50, z: 10 }, weightGrams: 50 };
+const FROM = { country: 'US', zip: '90277' };
+const TO = { country: 'US', zip: '10001' };
+
+const configured = process.env.SHIPPING_PROVIDER;
+
+describe('Shipping estimates', () => {
+  afterEach(() => {
+    if (configured === undefined) delete process.env.SHIPPING_PROVIDER;
+    else process.env.SHIPPING_PROVIDER = configured;
+  });
+
+  it('prices the packed parcel from the table for the zone', async () => {
+    process.env.SHIPPING_PROVIDER = 'mock';
+    const estimate = await estimateShipping(PART, FROM, TO);
+    assert.ok(estimate.ok);
+
+    // Ground Advantage, 1 billable lb, zone 8: $4.75 + 7 × $0.35
+    assert.equal(estimate.cost, 7.2);
+    assert.equal(estimate.approximate, false);
+    assert.equal(estimate.marginPercent, 0);
+    assert.equal(estimate.serviceToken, 'usps_ground_advantage');
+    assert.equal(estimate.zone, 8);
+    assert.equal(estimate.box, 'MAILER_S');
+    assert.deepEqual(estimate.parcel, { length: 6.3, width: 4.3, height: 2.3, weight: 4 });
+  });
+
+  it('follows the rate policy', async () => {
+    process.env.SHIPPING_PROVIDER = 'mock';
+    const estimate = await estimateShipping(PART, FROM, TO, { policy: 'fastest' });
+    assert.ok(estimate.ok);
+    assert.equal(estimate.serviceToken, 'usps_priority');
+  });
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // LIVE CARRIERS
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  it('adds a margin to table prices when a live carrier buys the labels', async () => {
+    delete process.env.SHIPPING_PROVIDER;
+    const estimate = await estimateShipping(PART, FROM, TO);
+    assert.ok(estimate.ok);
+    assert.equal(estimate.approximate, true);
+    assert.equal(estimate.marginPercent, DEFAULT_ESTIMATE_MARGIN_PERCENT);
+    assert.equal(estimate.cost, 8.64);
+
+    process.env.SHIPPING_PROVIDER = 'Shippo';
+    const custom = await estimateShipping(PART, FROM, TO, { marginPercent: 50 });
+    assert.ok(custom.ok);
+    assert.equal(custom.cost, 10.8);
+  });
+
+  it('takes a provider it is given at its word', async () => {
+    delete process.env.SHIPPING_PROVIDER;
+    const estimate = await estimateShipping(PART, FROM, TO, { provider: createMockProvider() });
+    assert.ok(estimate.ok);
+    assert.equal(estimate.approximate, false);
+    assert.equal(estimate.cost, 7.2);
+  });
+
+  it('passes on packing failures and a lack of USD rates', async () => {
+    const tooBig = await estimateShipping({ ...PART, dimensions: { x: 900, y: 10, z: 10 } }, FROM, TO);
+    assert.equal(!tooBig.ok && tooBig.reason, 'no-box-fits');
+
+    const foreign = createMockProvider();
+    const euros = {
+      ...foreign,
+      getRates: async (...args: Parameters<typeof foreign.getRates>) =>
+        (await foreign.getRates(...args)).map(rate => ({ ...rate, currency: 'EUR' })),
+    };
+    const estimate = await estimateShipping(PART, FROM, TO, { provider: euros });
+    assert.equal(!estimate.ok && estimate.reason, 'no-rates');
+  });
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // REQUEST BODIES
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  it('reads a region from a request body', () => {
+    assert.deepEqual(parseShippingRegion({ country: ' us ', zip: '90277-1234' }), {
+      ok: true,
+      region: { country: 'US', zip: '90277-1234' },
+    });
+    assert.deepEqual(parseShippingRegion({ country: 'ca', zip: 'k1a 0b1' }), {
+      ok: true,
+      region: { country: 'CA', zip: 'K1A 0B1' },
+    });
+    const noZip = parseShippingRegion({ country: 'DE' });
+    assert.ok(noZip.ok);
+    assert.equal(noZip.region.zip, undefined);
+  });
+
+  it('rejects regions without a country code or with a malformed ZIP', () => {
+    const message = (value: unknown) => {
+      const parsed = parseShippingRegion(value);
+      return parsed.ok ? null : parsed.message;
+    };
+    assert.match(message(undefined)!, /country must be/);
+    assert.match(message({ country: 'USA' })!, /country must be/);
+    assert.match(message({ country: 'US', zip: 90277 })!, /zip must be/);
+    assert.match(message({ country: 'US', zip: '-90277' })!, /zip must be/);
+    assert.match(message({ country: 'US', zip: '12345678901' })!, /zip must be/);
+  });
+});
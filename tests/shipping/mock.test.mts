@@ -0,0 +1,117 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import path from 'path';
+import {
+  createLabel,
+  createMockProvider,
+  getTrackingByOrderId,
+  LABELS_DIR,
+  TRACKING_FILE,
+  updateTracking,
+  voidLabel,
+} from '../../backend/shipping/index.ts';
+import type { LabelRequest } from '../../backend/shipping/types.ts';
+
+// Read when the provider is first used
+process.env.SHIPPING_PROVIDER = 'mock';
+
+const SHIPMENT: LabelRequest = {
+  fromAddress: { name: 'Seller', street1: '1 Pier Ave', city: 'Redondo Beach', state: 'CA', zip: '90277', country: 'US' },
+  toAddress: { name: 'Buyer', street1: '350 5th Ave', city: 'New York', state: 'NY', zip: '10001', country: 'US' },
+  parcel: { length: 6.3, width: 4.3, height: 2.3, weight: 4 },
+};
+
+const ORDER_ID = '0x' + '1'.repeat(64);
+
+describe('Mock shipping provider', () => {
+  it('quotes the same rates and ids for the same shipment', async () => {
+    const provider = createMockProvider();
+    const rates = await provider.getRates(SHIPMENT);
+    assert.deepEqual(await createMockProvider().getRates(structuredClone(SHIPMENT)), rates);
+
+    // 1 billable lb, zone 8
+    assert.deepEqual(
+      rates.map(rate => [rate.serviceToken, rate.amount, rate.estimatedDays]),
+      [
+        ['usps_ground_advantage', '7.20', 6],
+        ['usps_priority', '12.90', 4],
+        ['ups_ground', '13.70', 5],
+        ['fedex_2_day', '26.05', 4],
+      ]
+    );
+
+    const heavier = await provider.getRates({ ...SHIPMENT, parcel: { ...SHIPMENT.parcel, weight: 40 } });
+    assert.equal(heavier[0].amount, '8.50');    // 2.5 lb bills as 3
+    assert.notEqual(heavier[0].rateId, rates[0].rateId);
+  });
+
+  it('only finds a rate id again for the shipment it was quoted for', async () => {
+    const provider = createMockProvider();
+    const [rate] = await provider.getRates(SHIPMENT);
+    assert.deepEqual(await provider.getRate(rate.rateId, SHIPMENT), rate);
+
+    const elsewhere = { ...SHIPMENT, toAddress: { ...SHIPMENT.toAddress, zip: '10002' } };
+    assert.equal(await provider.getRate(rate.rateId, elsewhere), null);
+    assert.equal(await provider.getRate('mock.usps_ground_advantage.1.6.000000000000', SHIPMENT), null);
+  });
+
+  it('buys, tracks and voids labels', async () => {
+    const provider = createMockProvider();
+    const [rate] = await provider.getRates(SHIPMENT);
+    const label = await provider.purchaseLabel(rate.rateId, ORDER_ID);
+    assert.match(label.trackingNumber, /^MOCK\d{18}$/);
+    assert.equal(Buffer.from(label.labelPdf!).subarray(0, 8).toString(), '%PDF-1.4');
+    assert.equal((await provider.getTracking('usps', label.trackingNumber)).status, 'PRE_TRANSIT');
+
+    const webhook = provider.simulateTracking(label.trackingNumber, 'TRANSIT');
+    assert.equal(webhook.data.tracking_status.status, 'TRANSIT');
+    assert.equal((await provider.getTracking('usps', label.trackingNumber)).trackingHistory.length, 2);
+
+    assert.equal(await provider.voidLabel(label.transactionId), 'SUCCESS');
+    await assert.rejects(provider.purchaseLabel('shippo_rate_123', ORDER_ID), /Unknown mock rate/);
+  });
+});
+
+describe('Voiding labels', () => {
+  // The tracking file and label folder are the backend's own
+  let savedTracking: string | null = null;
+
+  before(() => {
+    savedTracking = fs.existsSync(TRACKING_FILE) ? fs.readFileSync(TRACKING_FILE, 'utf-8') : null;
+  });
+
+  after(() => {
+    const record = getTrackingByOrderId(ORDER_ID);
+    if (record) fs.rmSync(path.join(LABELS_DIR, path.basename(record.localLabelPath)), { force: true });
+    if (savedTracking === null) fs.rmSync(TRACKING_FILE, { force: true });
+    else fs.writeFileSync(TRACKING_FILE, savedTracking);
+  });
+
+  it('voids a label bought through the provider before it ships', async () => {
+    const result = await createLabel(ORDER_ID, SHIPMENT);
+    assert.ok(result.ok);
+
+    const record = await voidLabel(ORDER_ID);
+    assert.equal(record.provider, 'mock');
+    assert.equal(record.voidStatus, 'SUCCESS');
+    assert.equal(getTrackingByOrderId(ORDER_ID)!.voidStatus, 'SUCCESS');
+  });
+
+  it('refuses labels already on their way', async () => {
+    updateTracking(ORDER_ID, { status: 'TRANSIT', voidStatus: null });
+    await assert.rejects(voidLabel(ORDER_ID), /already TRANSIT; only unused labels can be voided/);
+    assert.equal(getTrackingByOrderId(ORDER_ID)!.voidStatus, null);
+  });
+
+  it('refuses labels bought through another provider or recorded by hand', async () => {
+    updateTracking(ORDER_ID, { status: 'PRE_TRANSIT', provider: 'shippo' });
+    await assert.rejects(voidLabel(ORDER_ID), /wasn't bought through the mock provider/);
+
+    const manual = '0x' + '2'.repeat(64);
+    updateTracking(manual, { trackingNumber: '9400100000000000000000' });
+    await assert.rejects(voidLabel(manual), /wasn't bought through the mock provider/);
+
+    await assert.rejects(voidLabel('0x' + '3'.repeat(64)), /No label found/);
+  });
+});
@@ -0,0 +1,92 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { DEFAULT_BOXES, packParcel, parseBoxCatalog, type PackagingInput } from '../../backend/shipping/index.ts';
+
+function part(x: number, y: number, z: number, weightGrams = 50): PackagingInput {
+  return { dimensions: { x, y, z }, weightGrams };
+}
+
+const boxFor = (input: PackagingInput) => {
+  const packed = packParcel(input);
+  return packed.ok ? packed.box.key : packed.reason;
+};
+
+describe('Parcel packing', () => {
+  it('packs a small part in the mailer and quotes its outside size and weight', () => {
+    const packed = packParcel(part(100, 50, 10));
+    assert.ok(packed.ok);
+    assert.equal(packed.box.key, 'MAILER_S');
+
+    // 152 × 102 × 51 mm inside, 3 mm walls, rounded up to the tenth inch
+    assert.deepEqual(packed.parcel, { length: 6.3, width: 4.3, height: 2.3, weight: 4 });
+    // 50 g part, 55 g mailer and 0.74 L of fill at 8 g/L
+    assert.equal(packed.packedWeightGrams, 111);
+  });
+
+  it('turns the part to fit, whichever way up it was measured', () => {
+    assert.equal(boxFor(part(10, 50, 100)), 'MAILER_S');
+    assert.equal(boxFor(part(50, 100, 10)), 'MAILER_S');
+  });
+
+  it('picks the smallest box that holds the part with padding all round', () => {
+    assert.equal(boxFor(part(120, 60, 20)), 'BOX_S');
+    assert.equal(boxFor(part(200, 100, 100)), 'BOX_M');
+    assert.equal(boxFor(part(260, 260, 260)), 'BOX_CUBE');
+    assert.equal(boxFor(part(350, 100, 100)), 'BOX_L');
+    assert.equal(boxFor(part(450, 450, 300)), 'BOX_XL');
+  });
+
+  it('moves up a size when the box cannot carry the weight', () => {
+    assert.equal(boxFor(part(100, 50, 10, 1950)), 'BOX_S');
+  });
+
+  it('uses the padding and fill asked for', () => {
+    const unpadded = packParcel(part(140, 90, 45), { paddingMm: 0 });
+    assert.ok(unpadded.ok);
+    assert.equal(unpadded.box.key, 'MAILER_S');
+    assert.equal(boxFor(part(140, 90, 45)), 'BOX_S');
+
+    const unfilled = packParcel(part(100, 50, 10), { fillGramsPerLitre: 0 });
+    assert.ok(unfilled.ok);
+    assert.equal(unfilled.packedWeightGrams, 105);
+  });
+
+  it('says when no box fits or the estimate is unusable', () => {
+    const packed = packParcel(part(600, 100, 100, 1200));
+    assert.ok(!packed.ok);
+    assert.equal(packed.reason, 'no-box-fits');
+    assert.equal(packed.message, 'No box holds a 600 × 100 × 100 mm part (1200 g) with 20 mm padding');
+
+    assert.equal(boxFor(part(0, 10, 10)), 'invalid-estimate');
+    assert.equal(boxFor(part(10, 10, 10, NaN)), 'invalid-estimate');
+    assert.equal(packParcel(part(10, 10, 10), { boxes: [] }).ok, false);
+  });
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // BOX CATALOGS
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  it('reads a box catalog', () => {
+    assert.deepEqual(
+      DEFAULT_BOXES.map(box => box.key),
+      ['MAILER_S', 'BOX_S', 'BOX_M', 'BOX_CUBE', 'BOX_L', 'BOX_XL']
+    );
+
+    const [tube] = parseBoxCatalog({
+      boxes: { TUBE: { name: 'Tube', innerMm: { x: 600, y: 80, z: 80 }, wallMm: 2, weightGrams: 150 } },
+    });
+    assert.equal(tube.key, 'TUBE');
+    assert.equal(packParcel(part(550, 30, 30), { boxes: [tube] }).ok, true);
+  });
+
+  it('rejects boxes with missing or negative sizes', () => {
+    assert.throws(
+      () => parseBoxCatalog({ boxes: { BAD: { name: 'Bad', innerMm: { x: 100, y: -1, z: 100 }, wallMm: 2, weightGrams: 50 } } }),
+      /Box BAD needs innerMm/
+    );
+    assert.throws(
+      () => parseBoxCatalog(JSON.parse('{"boxes":{"BAD":{"name":"Bad","wallMm":2,"weightGrams":50}}}')),
+      /Box BAD needs innerMm/
+    );
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseRateSelection, selectRate, type ShippingRate } from '../../backend/shipping/index.ts';
+
+function rate(rateId: string, carrier: string, amount: string, estimatedDays: number | null): ShippingRate {
+  return { rateId, carrier, service: 'Ground', serviceToken: `${carrier}_ground`, amount, currency: 'USD', estimatedDays };
+}
+
+const RATES = [
+  rate('usps', 'USPS', '8.50', 5),
+  rate('ups', 'UPS', '12.00', 2),
+  rate('fedex', 'FedEx', '12.00', 1),
+  rate('dhl', 'DHL Express', '30.00', null),
+];
+
+const pick = (rates: ShippingRate[], selection = {}) => {
+  const choice = selectRate(rates, selection);
+  return choice.ok ? choice.rate.rateId : choice.reason;
+};
+
+describe('Label rate selection', () => {
+  it('picks the cheapest rate by default and the fastest on request', () => {
+    assert.equal(pick(RATES), 'usps');
+    assert.equal(pick(RATES, { policy: 'cheapest' }), 'usps');
+    assert.equal(pick(RATES, { policy: 'fastest' }), 'fedex');
+  });
+
+  it('breaks ties on the other measure', () => {
+    const tied = [rate('slow', 'UPS', '9.00', 4), rate('quick', 'UPS', '9.00', 2)];
+    assert.equal(pick(tied), 'quick');
+
+    const sameDay = [rate('dear', 'UPS', '20.00', 1), rate('cheap', 'FedEx', '15.00', 1)];
+    assert.equal(pick(sameDay, { policy: 'fastest' }), 'cheap');
+  });
+
+  it('ranks a free rate first and unparseable prices and unknown days last', () => {
+    assert.equal(pick([...RATES, rate('free', 'USPS', '0.00', 7)]), 'free');
+    assert.equal(pick([rate('bad', 'USPS', 'n/a', 1), rate('ok', 'UPS', '50.00', 3)]), 'ok');
+    assert.equal(pick([rate('unknown', 'DHL', '5.00', null), rate('known', 'UPS', '50.00', 9)], { policy: 'fastest' }), 'known');
+  });
+
+  it('only considers the carriers allowed, however they are written', () => {
+    assert.equal(pick(RATES, { carriers: ['ups', 'dhl express'] }), 'ups');
+    assert.equal(pick(RATES, { carriers: ['Fed Ex', 'DHLExpress'] }), 'fedex');
+    assert.equal(pick(RATES, { carriers: ['dhl-express'] }), 'dhl');
+  });
+
+  it('says why nothing could be picked', () => {
+    assert.equal(pick([]), 'no-rates');
+
+    const choice = selectRate(RATES, { carriers: ['Canada Post'] });
+    assert.ok(!choice.ok);
+    assert.equal(choice.reason, 'no-matching-rate');
+    assert.equal(choice.message, 'No rates from Canada Post. Available: USPS, UPS, FedEx, DHL Express');
+  });
+
+  it('does not reorder the rates it was given', () => {
+    const rates = [...RATES];
+    selectRate(rates, { policy: 'fastest' });
+    assert.deepEqual(rates, RATES);
+  });
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // REQUEST BODIES
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  it('reads a selection from a request body', () => {
+    const empty = parseRateSelection({});
+    assert.ok(empty.ok);
+    assert.equal(selectRate(RATES, empty.selection).ok, true);
+
+    const byId = parseRateSelection({ rateId: 'r1' });
+    assert.ok(byId.ok);
+    assert.equal(byId.selection.rateId, 'r1');
+
+    const parsed = parseRateSelection({ policy: 'fastest', carriers: ['usps'] });
+    assert.ok(parsed.ok);
+    assert.equal(parsed.selection.policy, 'fastest');
+    assert.deepEqual(parsed.selection.carriers, ['usps']);
+  });
+
+  it('rejects malformed selections', () => {
+    const message = (body: Parameters<typeof parseRateSelection>[0]) => {
+      const parsed = parseRateSelection(body);
+      return parsed.ok ? null : parsed.message;
+    };
+    assert.match(message({ rateId: '' })!, /rateId must be/);
+    assert.match(message({ policy: 'slowest' })!, /policy must be one of: cheapest, fastest/);
+    assert.match(message({ carriers: [] })!, /carriers must be/);
+    assert.match(message({ carriers: ['usps', 3] })!, /carriers must be/);
+    assert.match(message({ rateId: 'r1', policy: 'cheapest' })!, /not both/);
+  });
+});
@@ -0,0 +1,34 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { DEFAULT_DOMESTIC_ZONE, INTERNATIONAL_ZONE, shippingZone } from '../../backend/shipping/index.ts';
+
+const us = (zip?: string) => ({ country: 'US', zip });
+
+describe('Shipping zones', () => {
+  it('puts every shipment between countries in the international zone', () => {
+    assert.equal(INTERNATIONAL_ZONE, 9);
+    assert.equal(shippingZone(us('90277'), { country: 'CA', zip: 'K1A 0B1' }), 9);
+    assert.equal(shippingZone({ country: 'de' }, { country: 'FR' }), 9);
+  });
+
+  it('uses the default zone when the distance is unknown', () => {
+    assert.equal(DEFAULT_DOMESTIC_ZONE, 5);
+    assert.equal(shippingZone(us(), us('10001')), 5);
+    assert.equal(shippingZone(us('90'), us('10001')), 5);
+    assert.equal(shippingZone({ country: 'ca', zip: 'K1A 0B1' }, { country: 'CA', zip: 'V6B 1A1' }), 5);
+  });
+
+  it('zones ZIPs within a region by how far apart their prefixes are', () => {
+    assert.equal(shippingZone(us('90277'), us('90210-1234')), 1);
+    assert.equal(shippingZone(us('90277'), us('90601')), 2);
+    assert.equal(shippingZone(us('90277'), us('93001')), 3);
+    assert.equal(shippingZone(us('90277'), us('98101')), 4);
+  });
+
+  it('bands the distance between ZIP regions', () => {
+    assert.equal(shippingZone(us('10001'), us('02101')), 3);
+    assert.equal(shippingZone(us('90277'), us('84101')), 4);
+    assert.equal(shippingZone(us('90277'), us('10001')), 8);
+    assert.equal(shippingZone(us('10001'), us('90277')), 8);
+  });
+});
@@ -0,0 +1,135 @@
+import { after, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { createHmac } from 'crypto';
+import { createRequire } from 'module';
+import { checkDownloadAccess, ENDED_STATUSES, type EscrowParties } from '../../backend/storage/index.ts';
+
+// Wallets sign grants in the browser; the frontend's ethers stands in here
+interface TestWallet {
+  address: string;
+  signMessage(message: string): Promise<string>;
+}
+const { Wallet } = createRequire(new URL('../../frontend/package.json', import.meta.url))('ethers') as {
+  Wallet: new (privateKey: string) => TestWallet;
+};
+
+const BUYER = new Wallet('0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80');
+const SELLER = new Wallet('0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d');
+const STRANGER = '0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC';
+
+const ESCROW = '0x5FbDB2315678afecb367f032d93F642f64180aa3';
+const OTHER_ESCROW = '0xe7f1725E7734CE288F8367e1Bb143E90bb3F0512';
+const FILE_HASH = '0x' + 'ab'.repeat(32);
+const SECRET = 'download-test-secret';
+
+// modelStore keeps its state under the working directory and reads the
+// secret when it first signs a challenge
+const root = fs.mkdtempSync(path.join(os.tmpdir(), 'filamint-downloads-'));
+process.chdir(root);
+process.env.DOWNLOAD_SECRET = SECRET;
+const { issueDownloadChallenge, verifyDownloadGrant } = await import('../../frontend/app/lib/modelStore.ts');
+const { buildChallengeMessage } = await import('../../frontend/app/lib/downloadAccess.ts');
+type DownloadChallenge = import('../../frontend/app/lib/downloadAccess.ts').DownloadChallenge;
+
+const PARTIES: EscrowParties = {
+  escrow: ESCROW,
+  buyer: BUYER.address,
+  seller: SELLER.address,
+  status: 1,
+  fileHash: FILE_HASH,
+  orderAmountWei: 10n ** 16n,
+  createdAt: 1_700_000_000,
+};
+
+async function grantFrom(wallet: TestWallet, challenge: DownloadChallenge) {
+  return { ...challenge, signature: await wallet.signMessage(buildChallengeMessage(challenge)) };
+}
+
+describe('Download access', () => {
+  after(() => fs.rmSync(root, { recursive: true, force: true }));
+
+  it('lets the buyer and the claiming seller download while the order runs', () => {
+    assert.deepEqual(checkDownloadAccess(PARTIES, BUYER.address, FILE_HASH), { allowed: true });
+    assert.deepEqual(checkDownloadAccess(PARTIES, SELLER.address.toLowerCase(), FILE_HASH.toUpperCase()), {
+      allowed: true,
+    });
+  });
+
+  it('keeps files locked until a seller claims the order', () => {
+    const unclaimed = { ...PARTIES, seller: '0x0000000000000000000000000000000000000000', status: 0 };
+    assert.deepEqual(checkDownloadAccess(unclaimed, BUYER.address, FILE_HASH), {
+      allowed: false,
+      reason: 'Files unlock once a seller claims the order',
+    });
+  });
+
+  it('refuses downloads once the order is completed, cancelled or settled', () => {
+    assert.deepEqual(ENDED_STATUSES, [4, 5, 8]);
+    for (const status of ENDED_STATUSES) {
+      assert.deepEqual(checkDownloadAccess({ ...PARTIES, status }, SELLER.address, FILE_HASH), {
+        allowed: false,
+        reason: 'The order has ended',
+      });
+    }
+  });
+
+  it('refuses wallets that are not party to the order', () => {
+    assert.deepEqual(checkDownloadAccess(PARTIES, STRANGER, FILE_HASH), {
+      allowed: false,
+      reason: 'Only the buyer and the claiming seller can download this model',
+    });
+  });
+
+  it('refuses files the escrow was not created for', () => {
+    assert.deepEqual(checkDownloadAccess(PARTIES, BUYER.address, '0x' + 'cd'.repeat(32)), {
+      allowed: false,
+      reason: 'This file does not belong to the escrow',
+    });
+  });
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // GRANTS
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  it('recovers the wallet that signed a challenge it issued', async () => {
+    const challenge = issueDownloadChallenge(ESCROW);
+    assert.equal(
+      challenge.nonce,
+      createHmac('sha256', SECRET).update(`${ESCROW}:${challenge.expires}`).digest('hex')
+    );
+
+    const grant = await grantFrom(SELLER, challenge);
+    assert.equal(verifyDownloadGrant(grant), SELLER.address);
+    assert.deepEqual(checkDownloadAccess(PARTIES, verifyDownloadGrant(grant)!, FILE_HASH), { allowed: true });
+  });
+
+  it('rejects expired grants and challenges it did not issue', async () => {
+    const expires = Math.floor(Date.now() / 1000) - 1;
+    const nonce = createHmac('sha256', SECRET).update(`${ESCROW}:${expires}`).digest('hex');
+    assert.equal(verifyDownloadGrant(await grantFrom(SELLER, { escrow: ESCROW, expires, nonce })), null);
+
+    const challenge = issueDownloadChallenge(ESCROW);
+    const forged = { ...challenge, nonce: 'ab'.repeat(32) };
+    assert.equal(verifyDownloadGrant(await grantFrom(SELLER, forged)), null);
+
+    // A later expiry needs a new nonce, so a grant can't be stretched
+    const stretched = await grantFrom(SELLER, { ...challenge, expires: challenge.expires + 3600 });
+    assert.equal(verifyDownloadGrant(stretched), null);
+  });
+
+  it('does not carry a signature over to another escrow or a garbled one', async () => {
+    const grant = await grantFrom(SELLER, issueDownloadChallenge(ESCROW));
+
+    // Re-pointed at another escrow with a genuine challenge, the signature
+    // recovers some unrelated address rather than the seller
+    const other = issueDownloadChallenge(OTHER_ESCROW);
+    const moved = verifyDownloadGrant({ ...other, signature: grant.signature });
+    assert.notEqual(moved, null);
+    assert.notEqual(moved, SELLER.address);
+
+    assert.equal(verifyDownloadGrant({ ...grant, signature: '0x1234' }), null);
+  });
+});
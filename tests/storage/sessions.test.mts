@@ -0,0 +1,174 @@
+import { after, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  createUploadSessions,
+  type UploadSessionOptions,
+  type UploadSessionStore,
+} from '../../backend/storage/index.ts';
+
+// keccak256('abc'), so the sessions can check what was declared
+const BYTES = Buffer.from('abc');
+const HASH = '0x4e03657aea45a94fc7d47ba826c8d667c0d1e6e33a64a036ec44f58fa12d6c45';
+
+const ALICE = { client: '10.0.0.1' };
+const BOB = { client: '10.0.0.2' };
+
+const root = fs.mkdtempSync(path.join(os.tmpdir(), 'filamint-sessions-'));
+let dir: string;
+let sessions: UploadSessionStore;
+
+function newSessions(options: Partial<UploadSessionOptions> = {}): UploadSessionStore {
+  return createUploadSessions({
+    dir,
+    limits: { maxFileBytes: 1024, maxTriangles: 1000, maxUnpackedBytes: 1024 },
+    chunkSize: 2,
+    ...options,
+  });
+}
+
+describe('Resumable upload sessions', () => {
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(root, 'case-'));
+    sessions = newSessions();
+  });
+
+  after(() => fs.rmSync(root, { recursive: true, force: true }));
+
+  it('stages chunks in order and assembles the declared bytes', async () => {
+    const created = await sessions.create('Part.STL', 3, `0x${HASH.slice(2).toUpperCase()}`, ALICE);
+    assert.ok(created.ok);
+    assert.equal(created.resumed, false);
+    assert.equal(created.session.fileName, 'Part.stl');
+    assert.equal(created.session.hash, HASH);
+    const { id } = created.session;
+
+    const first = await sessions.append(id, created.secret, 0, BYTES.subarray(0, 2));
+    assert.ok(first.ok);
+    assert.equal(first.session.received, 2);
+
+    const early = await sessions.assemble(id, created.secret);
+    assert.equal(!early.ok && early.code, 'incomplete-upload');
+
+    assert.ok((await sessions.append(id, created.secret, 2, BYTES.subarray(2))).ok);
+    const assembled = await sessions.assemble(id, created.secret);
+    assert.ok(assembled.ok);
+    assert.deepEqual(assembled.bytes, BYTES);
+
+    await sessions.remove(id, created.secret);
+    assert.equal(sessions.get(id, created.secret), null);
+  });
+
+  it('rejects chunks out of order, too big or past the end', async () => {
+    const created = await sessions.create('part.stl', 3, HASH, ALICE);
+    assert.ok(created.ok);
+    const { id } = created.session;
+
+    const gap = await sessions.append(id, created.secret, 1, BYTES.subarray(1, 2));
+    assert.ok(!gap.ok);
+    assert.equal(gap.code, 'offset-mismatch');
+    assert.equal(gap.received, 0);
+
+    const big = await sessions.append(id, created.secret, 0, BYTES);
+    assert.equal(!big.ok && big.code, 'invalid-chunk');
+
+    assert.ok((await sessions.append(id, created.secret, 0, BYTES.subarray(0, 2))).ok);
+    const past = await sessions.append(id, created.secret, 2, Buffer.from('cd'));
+    assert.equal(!past.ok && past.code, 'invalid-chunk');
+  });
+
+  it('discards an upload whose bytes do not hash to what was declared', async () => {
+    const created = await sessions.create('part.stl', 3, HASH, ALICE);
+    assert.ok(created.ok);
+    const { id } = created.session;
+    await sessions.append(id, created.secret, 0, Buffer.from('ab'));
+    await sessions.append(id, created.secret, 2, Buffer.from('x'));
+
+    const assembled = await sessions.assemble(id, created.secret);
+    assert.equal(!assembled.ok && assembled.code, 'hash-mismatch');
+    assert.equal(sessions.get(id, created.secret), null);
+  });
+
+  it('rejects uploads without a usable name, size or hash', async () => {
+    const code = async (name: string, size: number, hash: string) => {
+      const created = await sessions.create(name, size, hash, ALICE);
+      return !created.ok && created.code;
+    };
+    assert.equal(await code('...', 3, HASH), 'invalid-name');
+    assert.equal(await code('part.step', 3, HASH), 'unsupported-type');
+    assert.equal(await code('part.stl', 0, HASH), 'empty-file');
+    assert.equal(await code('part.stl', 1.5, HASH), 'invalid-upload');
+    assert.equal(await code('part.stl', 3, '0x1234'), 'invalid-upload');
+    assert.equal(await code('part.stl', 2048, HASH), 'too-large');
+  });
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // OWNERSHIP
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  it('resumes an upload only for the secret it was opened with', async () => {
+    const created = await sessions.create('part.stl', 3, HASH, ALICE);
+    assert.ok(created.ok);
+    const { id } = created.session;
+    await sessions.append(id, created.secret, 0, BYTES.subarray(0, 2));
+
+    const resumed = await sessions.create('part.stl', 3, HASH, { ...ALICE, secret: created.secret });
+    assert.ok(resumed.ok && resumed.resumed);
+    assert.equal(resumed.session.id, id);
+    assert.equal(resumed.session.received, 2);
+
+    // The same file from another client, or without the secret, starts over
+    const other = await sessions.create('part.stl', 3, HASH, BOB);
+    assert.ok(other.ok && !other.resumed);
+    assert.notEqual(other.session.id, id);
+    assert.notEqual(other.secret, created.secret);
+
+    const guessed = await sessions.create('part.stl', 3, HASH, { ...BOB, secret: 'guess' });
+    assert.ok(guessed.ok && !guessed.resumed);
+  });
+
+  it('treats a wrong secret like an unknown upload', async () => {
+    const created = await sessions.create('part.stl', 3, HASH, ALICE);
+    assert.ok(created.ok);
+    const { id } = created.session;
+
+    assert.equal(sessions.get(id, 'wrong'), null);
+    const append = await sessions.append(id, 'wrong', 0, BYTES.subarray(0, 2));
+    assert.equal(!append.ok && append.code, 'upload-not-found');
+    const assembled = await sessions.assemble(id, 'wrong');
+    assert.equal(!assembled.ok && assembled.code, 'upload-not-found');
+
+    await sessions.remove(id, 'wrong');
+    assert.ok(sessions.get(id, created.secret));
+    assert.equal(sessions.get('../' + id, created.secret), null);
+  });
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // LIMITS
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  it('caps what one client can stage without blocking others', async () => {
+    sessions = newSessions({ maxClientStagedBytes: 5, maxStagedBytes: 8 });
+    assert.ok((await sessions.create('a.stl', 3, HASH, ALICE)).ok);
+
+    const second = await sessions.create('b.stl', 3, HASH, ALICE);
+    assert.equal(!second.ok && second.code, 'too-many-uploads');
+
+    assert.ok((await sessions.create('c.stl', 3, HASH, BOB)).ok);
+    const full = await sessions.create('d.stl', 3, HASH, { client: '10.0.0.3' });
+    assert.equal(!full.ok && full.code, 'storage-full');
+  });
+
+  it('sweeps sessions idle for longer than the TTL', async () => {
+    sessions = newSessions({ ttlMs: 1000 });
+    const created = await sessions.create('part.stl', 3, HASH, ALICE);
+    assert.ok(created.ok);
+
+    assert.equal(await sessions.sweep(), 0);
+    assert.equal(await sessions.sweep(Date.now() + 1000), 1);
+    assert.equal(sessions.get(created.session.id, created.secret), null);
+    assert.deepEqual(fs.readdirSync(dir), []);
+  });
+});
@@ -0,0 +1,117 @@
+import { after, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { createLocalBackend, createModelStore, type ModelStore } from '../../backend/storage/index.ts';
+
+const HOUR = 60 * 60 * 1000;
+
+const root = fs.mkdtempSync(path.join(os.tmpdir(), 'filamint-store-'));
+let dir: string;
+let store: ModelStore;
+
+function newStore(quota = {}): ModelStore {
+  return createModelStore({
+    backend: createLocalBackend(path.join(dir, 'models')),
+    indexFile: path.join(dir, 'models.json'),
+    quota,
+    gracePeriodMs: HOUR,
+  });
+}
+
+const noEscrows = async () => new Set<string>();
+
+describe('Content-addressed model store', () => {
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(root, 'case-'));
+    store = newStore();
+  });
+
+  after(() => fs.rmSync(root, { recursive: true, force: true }));
+
+  it('names a model by the keccak256 of its bytes', async () => {
+    const bytes = Buffer.from('abc');
+    const result = await store.put(bytes, 'Cube.STL', 'STL');
+    assert.ok(result.ok);
+
+    const hash = '4e03657aea45a94fc7d47ba826c8d667c0d1e6e33a64a036ec44f58fa12d6c45';
+    assert.equal(result.model.hash, `0x${hash}`);
+    assert.equal(result.model.fileName, `${hash}.stl`);
+    assert.deepEqual(Buffer.from((await store.read(result.model.fileName))!), bytes);
+  });
+
+  it('stores a repeat upload once and remembers every name', async () => {
+    const bytes = Buffer.from('solid cube');
+    const first = await store.put(bytes, 'cube.stl', 'stl');
+    const second = await store.put(bytes, 'copy.stl', 'stl');
+    assert.ok(first.ok && second.ok);
+    assert.equal(second.deduplicated, true);
+    assert.deepEqual(second.model.originalNames, ['cube.stl', 'copy.stl']);
+    assert.deepEqual(store.usage(), { models: 1, bytes: bytes.length });
+  });
+
+  it('enforces the per-file and total quotas', async () => {
+    store = newStore({ maxFileBytes: 10, maxTotalBytes: 15 });
+    const tooLarge = await store.put(Buffer.alloc(11), 'big.stl', 'stl');
+    assert.equal(!tooLarge.ok && tooLarge.reason, 'too-large');
+
+    assert.ok((await store.put(Buffer.alloc(10, 1), 'a.stl', 'stl')).ok);
+    const full = await store.put(Buffer.alloc(10, 2), 'b.stl', 'stl');
+    assert.equal(!full.ok && full.reason, 'storage-full');
+  });
+
+  it('counts derived files against the model and finds the model from them', async () => {
+    const result = await store.put(Buffer.from('solid cube'), 'cube.stl', 'stl');
+    assert.ok(result.ok);
+    const { fileName } = result.model;
+
+    await store.addDerivedFile(fileName, 'thumb.png', Buffer.alloc(5));
+    await store.addDerivedFile(fileName, 'thumb.png', Buffer.alloc(5));
+    assert.equal(store.get(fileName)!.storedBytes, 15);
+    assert.equal(store.findByFile('thumb.png')!.fileName, fileName);
+    assert.equal(store.findByFile('other.png'), null);
+    await assert.rejects(store.addDerivedFile('missing.stl', 'x.png', Buffer.alloc(1)), /Unknown model/);
+  });
+
+  it('serializes concurrent puts so none is lost from the index', async () => {
+    const results = await Promise.all(
+      Array.from({ length: 10 }, (_, i) => store.put(Buffer.from(`model ${i}`), `${i}.stl`, 'stl'))
+    );
+    assert.ok(results.every(result => result.ok));
+    assert.equal(store.usage().models, 10);
+  });
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // RETENTION
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  it('keeps models within the grace period', async () => {
+    await store.put(Buffer.from('recent'), 'recent.stl', 'stl');
+    const swept = await store.sweep(noEscrows);
+    assert.deepEqual(swept, { kept: 1, deleted: [], freedBytes: 0 });
+  });
+
+  it('deletes expired models with their derived files, unless an escrow is live', async () => {
+    const kept = await store.put(Buffer.from('live'), 'live.stl', 'stl');
+    const gone = await store.put(Buffer.from('stale'), 'stale.stl', 'stl');
+    assert.ok(kept.ok && gone.ok);
+    await store.addDerivedFile(gone.model.fileName, 'stale.png', Buffer.alloc(3));
+
+    const live = new Set([kept.model.hash.toLowerCase()]);
+    const swept = await store.sweep(async () => live, Date.now() + 2 * HOUR);
+
+    assert.deepEqual(swept.deleted.map(m => m.fileName), [gone.model.fileName]);
+    assert.equal(swept.freedBytes, 'stale'.length + 3);
+    assert.equal(await store.read(gone.model.fileName), null);
+    assert.equal(await store.read('stale.png'), null);
+    assert.ok(store.get(kept.model.fileName));
+  });
+
+  it('deletes nothing when the escrow lookup fails', async () => {
+    await store.put(Buffer.from('stale'), 'stale.stl', 'stl');
+    const failing = async (): Promise<Set<string>> => { throw new Error('RPC down'); };
+    await assert.rejects(store.sweep(failing, Date.now() + 2 * HOUR), /RPC down/);
+    assert.equal(store.usage().models, 1);
+  });
+});
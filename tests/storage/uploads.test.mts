@@ -0,0 +1,123 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  checkModelUpload,
+  sanitizeFileName,
+  UPLOAD_ERROR_STATUS,
+  type UploadCheck,
+  type UploadLimits,
+} from '../../backend/storage/index.ts';
+import { ModelLimitError, parse3mf, parseStl } from '../../backend/pricing/index.ts';
+import { asciiStl, cube, cubeObj, cubeObjectXml, modelXml, package3mf, zip } from '../fixtures.mts';
+
+const limits: UploadLimits = { maxFileBytes: 1024 * 1024, maxTriangles: 1000, maxUnpackedBytes: 64 * 1024 };
+
+const code = (check: UploadCheck) => (check.valid ? null : check.code);
+
+const cube3mf = () => package3mf(modelXml(cubeObjectXml(1, 10), '<item objectid="1"/>'));
+
+describe('Model upload checks', () => {
+  it('accepts each format and returns the parsed mesh', () => {
+    for (const [name, bytes] of [
+      ['cube.STL', asciiStl(cube(10))],
+      ['cube.obj', cubeObj(10)],
+      ['cube.3mf', cube3mf()],
+    ] as const) {
+      const check = checkModelUpload(name, bytes, limits);
+      assert.ok(check.valid, name);
+      assert.equal(check.fileName, name.toLowerCase());
+      assert.equal(check.mesh.triangles.length, 12 * 9);
+    }
+  });
+
+  it('rejects bad names, types and sizes before reading the content', () => {
+    assert.equal(code(checkModelUpload('...', asciiStl(cube(10)), limits)), 'invalid-name');
+    assert.equal(code(checkModelUpload('cube.step', asciiStl(cube(10)), limits)), 'unsupported-type');
+    assert.equal(code(checkModelUpload('cube.stl', Buffer.alloc(0), limits)), 'empty-file');
+    assert.equal(
+      code(checkModelUpload('cube.stl', asciiStl(cube(10)), { ...limits, maxFileBytes: 100 })),
+      'too-large'
+    );
+  });
+
+  it('rejects content that is not the format its name says', () => {
+    const check = checkModelUpload('cube.stl', cubeObj(10), limits);
+    assert.equal(code(check), 'content-mismatch');
+    assert.ok(!check.valid && check.message.includes('contains an OBJ model'));
+    assert.equal(code(checkModelUpload('cube.3mf', Buffer.from('not a zip'), limits)), 'content-mismatch');
+  });
+
+  it('rejects models with more triangles than the limit', () => {
+    const check = checkModelUpload('cube.obj', cubeObj(10), { ...limits, maxTriangles: 11 });
+    assert.equal(code(check), 'too-many-triangles');
+    assert.equal(UPLOAD_ERROR_STATUS['too-many-triangles'], 422);
+  });
+
+  it('reports a parser failure as an unreadable model', () => {
+    const check = checkModelUpload('cube.obj', Buffer.from('v 0 0 0\nf 1 2 3'), limits);
+    assert.equal(code(check), 'unreadable-model');
+    assert.ok(!check.valid && check.message.startsWith('Could not read the OBJ file'));
+  });
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // 3MF UNPACKED SIZE
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  it('rejects a 3MF whose parts declare more than the unpacked limit', () => {
+    // A small deflated part that claims to unpack to a gigabyte
+    const model = modelXml(cubeObjectXml(1, 10), '<item objectid="1"/>');
+    const bomb = zip([{ name: '3D/3dmodel.model', data: model, declaredSize: 1024 ** 3 }]);
+    assert.ok(bomb.length < limits.maxFileBytes);
+
+    const check = checkModelUpload('bomb.3mf', bomb, limits);
+    assert.equal(code(check), 'too-large');
+    assert.ok(!check.valid && check.message.includes('unpacks to more than the 0.1 MB limit'));
+  });
+
+  it('counts every model part against the unpacked limit', () => {
+    const part = modelXml(cubeObjectXml(7, 10), '');
+    const assembly = '<object id="2" type="model"><components>'
+      + '<component objectid="7" p:path="/3D/part.model"/>'
+      + '</components></object>';
+    const model = modelXml(assembly, '<item objectid="2"/>');
+    const upload = package3mf(model, [{ name: '3D/part.model', data: part, declaredSize: limits.maxUnpackedBytes }]);
+    assert.equal(code(checkModelUpload('assembly.3mf', upload, limits)), 'too-large');
+  });
+
+  it('stops inflating a part that unpacks to more than it declared', () => {
+    const model = modelXml(cubeObjectXml(1, 10), '<item objectid="1"/>');
+    const lying = zip([{ name: '3D/3dmodel.model', data: model, declaredSize: 100 }]);
+    const check = checkModelUpload('cube.3mf', lying, limits);
+    assert.equal(code(check), 'unreadable-model');
+    assert.ok(!check.valid && check.message.includes('unpacks to more than its declared 100 bytes'));
+  });
+
+  it('throws a ModelLimitError from the parsers themselves', () => {
+    assert.throws(
+      () => parseStl(asciiStl(cube(10)), { maxTriangles: 5 }),
+      (err: unknown) => err instanceof ModelLimitError && err.limit === 'maxTriangles'
+    );
+    assert.throws(
+      () => parse3mf(cube3mf(), { maxUnpackedBytes: 100 }),
+      (err: unknown) => err instanceof ModelLimitError && err.limit === 'maxUnpackedBytes'
+    );
+  });
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // FILE NAMES
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  it('sanitizes uploaded file names', () => {
+    assert.equal(sanitizeFileName('C:\\Users\\me\\Desktop\\Part.STL'), 'Part.stl');
+    assert.equal(sanitizeFileName('../../etc/passwd'), 'passwd');
+    assert.equal(sanitizeFileName('  my   <part>?.3MF.  '), 'my part.3mf');
+    assert.equal(sanitizeFileName('bad\u0000name.obj'), 'badname.obj');
+    assert.equal(sanitizeFileName('.hidden'), 'hidden');
+    assert.equal(sanitizeFileName('...'), null);
+    assert.equal(sanitizeFileName('dir/'), null);
+
+    const long = sanitizeFileName('x'.repeat(500) + '.stl')!;
+    assert.equal(long.length, 200);
+    assert.ok(long.endsWith('.stl'));
+  });
+});